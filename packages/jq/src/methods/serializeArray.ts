@@ -46,9 +46,14 @@ export const getFormControlsValue = (
           'mdui-switch',
           'mdui-text-field',
           'mdui-select',
+          'mdui-autocomplete',
+          'mdui-date-picker',
+          'mdui-time-picker',
           'mdui-slider',
           'mdui-range-slider',
           'mdui-segmented-button-group',
+          'mdui-file-upload',
+          'mdui-chip-input',
         ].includes(nodeName) &&
         !['submit', 'button', 'image', 'reset', 'file'].includes(type) &&
         (!['radio', 'checkbox'].includes(type) || element.checked) &&
@@ -0,0 +1,129 @@
+import { assert, fixture, html, nextFrame } from '@open-wc/testing';
+import { getFormErrors } from '../../functions/getFormErrors.js';
+import '../text-field.js';
+import type { TextField } from '../text-field.js';
+
+const createForm = async (): Promise<HTMLFormElement> => {
+  const form = await fixture<HTMLFormElement>(html`
+    <form>
+      <mdui-text-field name="a" required></mdui-text-field>
+      <mdui-text-field name="b" required></mdui-text-field>
+      <mdui-text-field name="c"></mdui-text-field>
+    </form>
+  `);
+
+  await Promise.all(
+    [...form.querySelectorAll<TextField>('mdui-text-field')].map(
+      (textField) => textField.updateComplete,
+    ),
+  );
+  await nextFrame();
+
+  return form;
+};
+
+describe('FormController', () => {
+  it('不修改 <form> 元素的 novalidate 属性', async () => {
+    const form = await createForm();
+
+    assert.isFalse(form.noValidate);
+    assert.isFalse(form.hasAttribute('novalidate'));
+  });
+
+  it('getFormErrors 按 DOM 顺序返回验证未通过的表单控件', async () => {
+    const form = await createForm();
+    const [a, b] = form.querySelectorAll<TextField>('mdui-text-field');
+
+    assert.deepEqual(
+      getFormErrors(form).map(({ element }) => element),
+      [a, b],
+    );
+  });
+
+  it('提交表单时，在每个验证未通过的表单控件上触发 invalid 事件，并阻止提交', async () => {
+    const form = await createForm();
+    const [a, b, c] = form.querySelectorAll<TextField>('mdui-text-field');
+    const invalids: Element[] = [];
+    let submitted = false;
+
+    [a, b, c].forEach((textField) => {
+      textField.addEventListener('invalid', () => invalids.push(textField));
+    });
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      submitted = true;
+    });
+
+    form.requestSubmit();
+    await a.updateComplete;
+
+    assert.deepEqual(invalids, [a, b]);
+    assert.isFalse(submitted);
+    assert.equal(document.activeElement, a);
+  });
+
+  it('原生表单控件验证未通过时，仍按 DOM 顺序验证所有表单控件，并聚焦到第一个验证未通过的表单控件', async () => {
+    const form = await fixture<HTMLFormElement>(html`
+      <form>
+        <mdui-text-field name="a" required></mdui-text-field>
+        <input name="b" required />
+        <input name="c" required />
+      </form>
+    `);
+    const a = form.querySelector<TextField>('mdui-text-field')!;
+    const [b, c] = form.querySelectorAll('input');
+    const invalids: Element[] = [];
+    let submitted = false;
+
+    await a.updateComplete;
+    await nextFrame();
+
+    [a, b, c].forEach((element) => {
+      element.addEventListener('invalid', () => invalids.push(element));
+    });
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      submitted = true;
+    });
+
+    form.requestSubmit();
+    await a.updateComplete;
+
+    assert.deepEqual(invalids, [a, b, c]);
+    assert.isFalse(submitted);
+    assert.equal(document.activeElement, a);
+  });
+
+  it('表单控件验证通过时，正常提交表单', async () => {
+    const form = await createForm();
+    const [a, b] = form.querySelectorAll<TextField>('mdui-text-field');
+    let submitted = false;
+
+    a.value = 'a';
+    b.value = 'b';
+    await a.updateComplete;
+    await b.updateComplete;
+
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      submitted = true;
+    });
+    form.requestSubmit();
+
+    assert.isTrue(submitted);
+  });
+
+  it('<form> 元素设置了 novalidate 属性时，不执行验证', async () => {
+    const form = await createForm();
+    let submitted = false;
+
+    form.noValidate = true;
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      submitted = true;
+    });
+    form.requestSubmit();
+
+    assert.isTrue(submitted);
+  });
+});
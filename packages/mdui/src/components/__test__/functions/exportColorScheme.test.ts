@@ -0,0 +1,69 @@
+import { assert } from '@open-wc/testing';
+import { exportColorScheme } from '../../../functions/exportColorScheme.js';
+import { getColorScheme } from '../../../functions/getColorScheme.js';
+
+const scheme = getColorScheme('#0061a4');
+
+/**
+ * 获取 CSS 文本中所有规则的选择器列表
+ * @param cssText
+ */
+const getSelectors = (cssText: string): string[] => {
+  return (cssText.match(/[^{}]+(?=\s*\{)/g) ?? [])
+    .map((selector) => selector.trim())
+    .filter((selector) => !selector.startsWith('@'));
+};
+
+describe('exportColorScheme', () => {
+  it('导出为 JSON 时，与配色方案的结构相同', () => {
+    assert.deepEqual(JSON.parse(exportColorScheme(scheme, 'json')), scheme);
+  });
+
+  it('导出为设计令牌时，每个颜色都包含 $type 和 $value', () => {
+    const tokens = JSON.parse(exportColorScheme(scheme, 'design-tokens'));
+
+    assert.deepEqual(tokens.color.light.primary, {
+      $type: 'color',
+      $value: scheme.light.primary,
+    });
+    assert.deepEqual(tokens.color.dark['on-primary'], {
+      $type: 'color',
+      $value: scheme.dark['on-primary'],
+    });
+  });
+
+  it('导出为 CSS 时，默认应用到 :root 选择器', () => {
+    const cssText = exportColorScheme(scheme, 'css');
+
+    assert.deepEqual(getSelectors(cssText), [
+      ':root',
+      '.mdui-theme-dark :root,\n:root.mdui-theme-dark',
+      '.mdui-theme-auto :root,\n  :root.mdui-theme-auto',
+    ]);
+    assert.include(cssText, '--mdui-color-primary-light: 0, 97, 164;');
+  });
+
+  it('导出为 CSS 时，选择器列表中的每个选择器都添加 mdui-theme-dark 类名', () => {
+    const cssText = exportColorScheme(scheme, 'css', {
+      selector: '.a, .b > .c',
+    });
+    const [selector, dark, auto] = getSelectors(cssText);
+
+    assert.equal(selector, '.a,\n.b > .c');
+    assert.equal(
+      dark,
+      '.mdui-theme-dark .a,\n.a.mdui-theme-dark,\n.mdui-theme-dark .b > .c,\n.b > .c.mdui-theme-dark',
+    );
+    assert.include(auto, '.mdui-theme-auto .b > .c');
+    assert.include(auto, '.b > .c.mdui-theme-auto');
+  });
+
+  it('不拆分括号和引号中的逗号', () => {
+    const cssText = exportColorScheme(scheme, 'css', {
+      selector: ':is(.a, .b), [data-theme="x,y"]',
+    });
+    const [selector] = getSelectors(cssText);
+
+    assert.equal(selector, ':is(.a, .b),\n[data-theme="x,y"]');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  argbFromHex,
+  hexFromArgb,
+  Hct,
+  MaterialDynamicColors,
+  Scheme,
+  SchemeFruitSalad,
+  SchemeRainbow,
+  SchemeTonalSpot,
+} from '@material/material-color-utilities';
+import { assert } from '@open-wc/testing';
+import { getColorScheme } from '../../../functions/getColorScheme.js';
+
+const source = '#0061a4';
+
+describe('getColorScheme', () => {
+  it('未指定 variant 和 contrast 时，与 Scheme.light() 和 Scheme.dark() 生成的颜色相同', () => {
+    const scheme = getColorScheme(source);
+    const light = Scheme.light(argbFromHex(source));
+    const dark = Scheme.dark(argbFromHex(source));
+
+    assert.equal(scheme.light.primary, hexFromArgb(light.primary));
+    assert.equal(scheme.light['on-primary'], hexFromArgb(light.onPrimary));
+    assert.equal(scheme.dark.primary, hexFromArgb(dark.primary));
+    assert.equal(
+      scheme.dark['inverse-on-surface'],
+      hexFromArgb(dark.inverseOnSurface),
+    );
+  });
+
+  it('未指定 variant 和 contrast 时，包含 Scheme 中缺失的 surface 颜色', () => {
+    const scheme = getColorScheme(source);
+
+    assert.equal(scheme.light['surface-tint-color'], scheme.light.primary);
+    assert.equal(scheme.dark['surface-tint-color'], scheme.dark.primary);
+    assert.isString(scheme.light['surface-container-highest']);
+    assert.isString(scheme.dark['surface-dim']);
+  });
+
+  it('指定 variant 时，使用对应的动态配色方案', () => {
+    const hct = Hct.fromInt(argbFromHex(source));
+    const primary = (scheme: SchemeRainbow) =>
+      hexFromArgb(MaterialDynamicColors.primary.getArgb(scheme));
+
+    assert.equal(
+      getColorScheme(source, { variant: 'rainbow' }).light.primary,
+      primary(new SchemeRainbow(hct, false, 0)),
+    );
+    assert.equal(
+      getColorScheme(source, { variant: 'fruit-salad' }).dark.primary,
+      primary(new SchemeFruitSalad(hct, true, 0)),
+    );
+  });
+
+  it('仅指定 contrast 时，使用 tonal-spot 变体', () => {
+    const hct = Hct.fromInt(argbFromHex(source));
+    const scheme = getColorScheme(source, { contrast: 'high' });
+
+    assert.equal(
+      scheme.light.primary,
+      hexFromArgb(
+        MaterialDynamicColors.primary.getArgb(
+          new SchemeTonalSpot(hct, false, 1),
+        ),
+      ),
+    );
+    assert.notEqual(
+      scheme.light.primary,
+      getColorScheme(source, { contrast: 'standard' }).light.primary,
+    );
+  });
+
+  it('扩充自定义颜色', () => {
+    const scheme = getColorScheme(source, {
+      customColors: [{ name: 'brandRed', value: '#f82506' }],
+    });
+
+    ['light', 'dark'].forEach((theme) => {
+      const colors = scheme[theme as 'light' | 'dark'];
+
+      assert.isString(colors['brand-red']);
+      assert.isString(colors['on-brand-red']);
+      assert.isString(colors['brand-red-container']);
+      assert.isString(colors['on-brand-red-container']);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { assert } from '@open-wc/testing';
+import { formatMask, unformatMask } from '@mdui/shared/helpers/mask.js';
+
+describe('formatMask', () => {
+  it('按占位符格式化，并添加固定字符', () => {
+    assert.equal(formatMask('13812345678', '000 0000 0000'), '138 1234 5678');
+    assert.equal(formatMask('a1b2', 'a0-a0'), 'a1-b2');
+  });
+
+  it('固定字符仅在其后还有字符时才添加', () => {
+    assert.equal(formatMask('138', '000 0000 0000'), '138');
+    assert.equal(formatMask('1381', '000 0000 0000'), '138 1');
+    assert.equal(formatMask('1', '+86 000'), '+86 1');
+  });
+
+  it('忽略不匹配占位符的字符', () => {
+    assert.equal(formatMask('ab12cd', '(000) 000'), '(12');
+    assert.equal(formatMask('1-2-3', '000'), '123');
+  });
+
+  it('超出掩码长度的字符被丢弃', () => {
+    assert.equal(formatMask('12345', '00'), '12');
+  });
+
+  it('使用 \\ 转义的占位符作为固定字符', () => {
+    assert.equal(formatMask('1', '\\00'), '01');
+    assert.equal(formatMask('12', 'a\\a0'), '');
+  });
+});
+
+describe('unformatMask', () => {
+  it('从格式化后的值中提取原始值', () => {
+    assert.equal(unformatMask('138 1234 5678', '000 0000 0000'), '13812345678');
+    assert.equal(unformatMask('a1-b2', 'a0-a0'), 'a1b2');
+  });
+
+  it('可用于格式化后的值的一部分', () => {
+    assert.equal(unformatMask('(123) 4', '(000) 000'), '1234');
+    assert.equal(unformatMask('138 1', '000 0000 0000'), '1381');
+  });
+
+  it('与固定字符相同的字符，视为格式化时添加的字符', () => {
+    assert.equal(unformatMask('01', '\\00'), '1');
+  });
+
+  it('仅在固定字符的位置上，才把与其相同的字符视为固定字符', () => {
+    assert.equal(unformatMask('4', '+49 000'), '4');
+    assert.equal(unformatMask('+49 4', '+49 000'), '4');
+    assert.equal(unformatMask('+49 49', '+49 000'), '49');
+    assert.equal(formatMask(unformatMask('4', '+49 000'), '+49 000'), '+49 4');
+  });
+
+  it('formatMask 和 unformatMask 互为逆操作', () => {
+    const mask = '(000) 000-0000';
+    const value = '4155552671';
+
+    assert.equal(unformatMask(formatMask(value, mask), mask), value);
+  });
+});
@@ -0,0 +1,95 @@
+import { assert, fixture, html, nextFrame } from '@open-wc/testing';
+import '../list-item.js';
+import '../list.js';
+import type { ListItem } from '../list-item.js';
+import type { List } from '../list.js';
+
+const createList = async (length: number): Promise<List> => {
+  const list = await fixture<List>(
+    html`<mdui-list virtual style="height: 200px"></mdui-list>`,
+  );
+
+  list.items = Array.from({ length }, (_, index) => index);
+  list.renderItem = (item) => {
+    const listItem = document.createElement('mdui-list-item');
+    listItem.textContent = `Item ${item}`;
+    return listItem;
+  };
+
+  await list.updateComplete;
+  await nextFrame();
+  await list.updateComplete;
+
+  return list;
+};
+
+const getRenderedItems = (list: List): ListItem[] => {
+  return Array.from(list.shadowRoot!.querySelectorAll('mdui-list-item'));
+};
+
+const getScroller = (list: List): HTMLElement => {
+  return list.shadowRoot!.querySelector('.scroller')!;
+};
+
+describe('mdui-list virtual', () => {
+  it('只渲染可视区域内的列表项', async () => {
+    const list = await createList(1000);
+    const items = getRenderedItems(list);
+
+    assert.isAbove(items.length, 0);
+    assert.isBelow(items.length, 30);
+  });
+
+  it('在末尾追加列表项时，不改变滚动位置', async () => {
+    const list = await createList(100);
+    const scroller = getScroller(list);
+
+    await list.scrollToIndex(50, 'start');
+    await list.updateComplete;
+    const scrollTop = scroller.scrollTop;
+    const scrollHeight = scroller.scrollHeight;
+
+    list.items = [...list.items, ...Array.from({ length: 100 }, (_, i) => i)];
+    await list.updateComplete;
+
+    assert.equal(scroller.scrollTop, scrollTop);
+    assert.isAbove(scroller.scrollHeight, scrollHeight);
+  });
+
+  it('scrollToIndex 期间取消虚拟滚动时，不抛出错误', async () => {
+    const list = await createList(100);
+
+    const promise = list.scrollToIndex(50);
+    list.virtual = false;
+
+    await promise;
+    await list.updateComplete;
+
+    assert.isNull(list.shadowRoot!.querySelector('.scroller'));
+  });
+
+  it('按下方向键，焦点移动到下一个 mdui-list-item，并在滚动到可视区域外后仍保留', async () => {
+    const list = await createList(1000);
+    const [first] = getRenderedItems(list);
+
+    first.focus();
+    first.dispatchEvent(
+      new KeyboardEvent('keydown', {
+        key: 'ArrowDown',
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    await list.updateComplete;
+    await nextFrame();
+
+    const focused = list.shadowRoot!.activeElement as ListItem;
+    assert.equal(focused.textContent, 'Item 1');
+
+    getScroller(list).scrollTop = 10000;
+    getScroller(list).dispatchEvent(new Event('scroll'));
+    await list.updateComplete;
+
+    assert.include(getRenderedItems(list), focused);
+  });
+});
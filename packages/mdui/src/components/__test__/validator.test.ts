@@ -0,0 +1,80 @@
+import { assert, fixture, html, oneEvent } from '@open-wc/testing';
+import '../text-field.js';
+import type { TextField } from '../text-field.js';
+
+const createTextField = async (): Promise<TextField> => {
+  return fixture<TextField>(html`<mdui-text-field></mdui-text-field>`);
+};
+
+const input = async (textField: TextField, value: string) => {
+  textField.value = value;
+  await textField.updateComplete;
+};
+
+describe('ValidatorMixin', () => {
+  it('validate-debounce 默认为 0', async () => {
+    const textField = await createTextField();
+
+    assert.equal(textField.validateDebounce, 0);
+  });
+
+  it('验证完成后触发 validated 事件，并设置错误提示', async () => {
+    const textField = await createTextField();
+    textField.validator = (value) => (value === 'admin' ? '已被占用' : '');
+
+    setTimeout(() => input(textField, 'admin'));
+    const event = await oneEvent(textField, 'validated');
+
+    assert.deepEqual(event.detail, { valid: false, message: '已被占用' });
+    assert.equal(textField.validationMessage, '已被占用');
+    assert.isFalse(textField.checkValidity());
+  });
+
+  it('验证期间 validating 为 true，并添加 validating 特性', async () => {
+    const textField = await createTextField();
+    let resolve!: (message: string) => void;
+    textField.validator = () => new Promise((r) => (resolve = r));
+
+    await input(textField, 'a');
+    await textField.updateComplete;
+
+    assert.isTrue(textField.validating);
+    assert.isTrue(textField.hasAttribute('validating'));
+
+    resolve('');
+    await oneEvent(textField, 'validated');
+    await textField.updateComplete;
+
+    assert.isFalse(textField.validating);
+    assert.isFalse(textField.hasAttribute('validating'));
+  });
+
+  it('validator 的验证结果不会覆盖 setCustomValidity() 设置的错误提示', async () => {
+    const textField = await createTextField();
+    textField.setCustomValidity('自定义错误');
+    textField.validator = () => '';
+
+    setTimeout(() => input(textField, 'a'));
+    await oneEvent(textField, 'validated');
+
+    assert.equal(textField.validationMessage, '自定义错误');
+
+    textField.setCustomValidity('');
+
+    assert.isTrue(textField.checkValidity());
+  });
+
+  it('清除 setCustomValidity() 设置的错误提示后，显示 validator 的错误提示', async () => {
+    const textField = await createTextField();
+    textField.validator = () => '验证失败';
+
+    setTimeout(() => input(textField, 'a'));
+    await oneEvent(textField, 'validated');
+
+    textField.setCustomValidity('自定义错误');
+    assert.equal(textField.validationMessage, '自定义错误');
+
+    textField.setCustomValidity('');
+    assert.equal(textField.validationMessage, '验证失败');
+  });
+});
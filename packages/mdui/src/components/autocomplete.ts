@@ -0,0 +1 @@
+export * from './autocomplete/index.js';
@@ -0,0 +1,642 @@
+import { html, LitElement, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { live } from 'lit/directives/live.js';
+import { map } from 'lit/directives/map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { when } from 'lit/directives/when.js';
+import isPromise from 'is-promise';
+import { isFunction } from '@mdui/jq/shared/helper.js';
+import { FormController, formResets } from '@mdui/shared/controllers/form.js';
+import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { defaultValue } from '@mdui/shared/decorators/default-value.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { observeResize } from '@mdui/shared/helpers/observeResize.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
+import '../circular-progress.js';
+import '../dropdown.js';
+import '../menu.js';
+import '../text-field.js';
+import { style } from './style.js';
+import type { Dropdown } from '../dropdown.js';
+import type { Menu } from '../menu/menu.js';
+import type { TextField } from '../text-field.js';
+import type { FormControl } from '@mdui/jq/shared/form.js';
+import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * @summary 自动完成组件。在文本框下方显示建议项，同时允许输入任意文本
+ *
+ * ```html
+ * <mdui-autocomplete label="Fruit"></mdui-autocomplete>
+ * ```
+ *
+ * @event focus - 获得焦点时触发
+ * @event blur - 失去焦点时触发
+ * @event input - 在文本框的值变更时触发
+ * @event change - 在文本框的值变更且失去焦点时，或选中建议项时触发
+ * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
+ * @event clear - 在点击由 `clearable` 属性生成的清空按钮时触发。可以通过调用 `event.preventDefault()` 阻止清空文本框
+ * @event load-error - 在 `source` 函数抛出错误，或返回的 Promise 被拒绝时触发。可以通过 `event.detail.error` 获取错误对象
+ *
+ * @slot icon - 左侧图标
+ * @slot end-icon - 右侧图标
+ * @slot error-icon - 验证失败状态的右侧图标
+ * @slot clear-button - 清空按钮
+ * @slot clear-icon - 清空按钮中的图标
+ * @slot helper - 底部的帮助文本
+ * @slot loading - 正在加载建议项时显示的内容
+ *
+ * @csspart text-field - 文本框，即 [`<mdui-text-field>`](/docs/2/components/text-field) 元素
+ * @csspart menu - 下拉菜单，即 [`<mdui-menu>`](/docs/2/components/menu) 元素
+ * @csspart suggestion - 建议项，即 [`<mdui-menu-item>`](/docs/2/components/menu#menu-item-api) 元素
+ * @csspart loading - 正在加载建议项时显示的内容
+ */
+@customElement('mdui-autocomplete')
+export class Autocomplete
+  extends ValidatorMixin(FocusableMixin(LitElement))
+  implements FormControl
+{
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 文本框形状。可选值为：
+   *
+   * * `filled`：带背景色的文本框，视觉效果较强
+   * * `outlined`：带边框的文本框，视觉效果较弱
+   */
+  @property({ reflect: true })
+  public variant:
+    | /*带背景色的文本框，视觉效果较强*/ 'filled'
+    | /*带边框的文本框，视觉效果较弱*/ 'outlined' = 'filled';
+
+  /**
+   * 建议项的数据来源。可以是字符串数组，此时将显示包含输入文本（不区分大小写）的项；
+   * 也可以是函数，函数参数为输入的文本，返回建议项组成的数组，或返回值为该数组的 Promise
+   */
+  @property({ attribute: false })
+  public source: string[] | ((query: string) => string[] | Promise<string[]>) =
+    [];
+
+  /**
+   * 输入文本后，延迟多少毫秒再获取建议项。数据来源为异步函数时，可用于减少请求次数
+   */
+  @property({ type: Number, reflect: true })
+  public debounce = 0;
+
+  /**
+   * 文本框名称，将与表单数据一起提交
+   */
+  @property({ reflect: true })
+  public name = '';
+
+  /**
+   * 文本框的值，将与表单数据一起提交
+   */
+  @property()
+  public value = '';
+
+  /**
+   * 默认值。在重置表单时，将重置为该默认值。该属性只能通过 JavaScript 属性设置
+   */
+  @defaultValue()
+  public defaultValue = '';
+
+  /**
+   * 标签文本
+   */
+  @property({ reflect: true })
+  public label?: string;
+
+  /**
+   * 提示文本
+   */
+  @property({ reflect: true })
+  public placeholder?: string;
+
+  /**
+   * 文本框底部的帮助文本。也可以通过 `slot="helper"` 设置
+   */
+  @property({ reflect: true })
+  public helper?: string;
+
+  /**
+   * 是否可清空文本框
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public clearable = false;
+
+  /**
+   * 可清空文本框时，显示在文本框右侧的清空按钮的 Material Icons 图标名。也可以通过 `slot="clear-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'clear-icon' })
+  public clearIcon?: string;
+
+  /**
+   * 下拉菜单的方位。可选值为：
+   *
+   * * `auto`：自动判断方位
+   * * `bottom`：位于下方
+   * * `top`：位于上方
+   */
+  @property({ reflect: true })
+  public placement:
+    | /*自动判断方位*/ 'auto'
+    | /*位于下方*/ 'bottom'
+    | /*位于上方*/ 'top' = 'auto';
+
+  /**
+   * 文本框的前缀图标的 Material Icons 图标名。也可以通过 `slot="icon"` 设置
+   */
+  @property({ reflect: true })
+  public icon?: string;
+
+  /**
+   * 文本框的后缀图标的 Material Icons 图标名。也可以通过 `slot="end-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'end-icon' })
+  public endIcon?: string;
+
+  /**
+   * 表单字段验证失败时，显示在文本框右侧的 Material Icons 图标名。也可以通过 `slot="error-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'error-icon' })
+  public errorIcon?: string;
+
+  /**
+   * 关联的 `form` 元素。此属性值必须为同一页面中的一个 `<form>` 元素的 `id` 属性。
+   *
+   * 如果此属性未指定，则元素必须是 `form` 元素的后代。利用此属性，你可以将元素放置在页面中的任何位置，而不仅仅是作为 `form` 元素的后代。
+   */
+  @property({ reflect: true })
+  public form?: string;
+
+  /**
+   * 是否为只读
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public readonly = false;
+
+  /**
+   * 是否为禁用状态
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public disabled = false;
+
+  /**
+   * 提交表单时，是否必须填写该字段
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public required = false;
+
+  /**
+   * 是否验证未通过
+   *
+   * 该验证为浏览器原生验证 API，基于 `required` 属性的验证结果
+   */
+  @state()
+  private invalid = false;
+
+  /**
+   * 是否正在加载建议项
+   */
+  @state()
+  private loading = false;
+
+  /**
+   * 当前显示的建议项
+   */
+  @state()
+  private suggestions: string[] = [];
+
+  /**
+   * 获取建议项时输入的文本，用于高亮显示建议项中匹配的文本
+   */
+  @state()
+  private query = '';
+
+  /**
+   * 下拉菜单是否已打开
+   */
+  @state()
+  private expanded = false;
+
+  /**
+   * 通过键盘高亮的建议项的索引，为 `-1` 时表示没有高亮的建议项
+   */
+  @state()
+  private activeIndex = -1;
+
+  // 每次获取建议项时递增，用于丢弃已过期的异步结果
+  private requestId = 0;
+  private debounceTimeout!: number;
+  private observeResize?: ObserveResize;
+  private readonly dropdownRef: Ref<Dropdown> = createRef();
+  private readonly menuRef: Ref<Menu> = createRef();
+  private readonly textFieldRef: Ref<TextField> = createRef();
+  private readonly hiddenInputRef: Ref<HTMLInputElement> = createRef();
+  private readonly formController = new FormController(this);
+  private readonly hasSlotController = new HasSlotController(
+    this,
+    'icon',
+    'end-icon',
+    'error-icon',
+    'clear-button',
+    'clear-icon',
+    'helper',
+  );
+
+  /**
+   * 表单验证状态对象
+   */
+  public get validity(): ValidityState {
+    return this.hiddenInputRef.value!.validity;
+  }
+
+  /**
+   * 表单验证的错误提示信息
+   */
+  public get validationMessage(): string {
+    return this.hiddenInputRef.value!.validationMessage;
+  }
+
+  protected override get focusElement(): HTMLElement {
+    return this.textFieldRef.value!;
+  }
+
+  protected override get focusDisabled(): boolean {
+    return this.disabled;
+  }
+
+  @watch('disabled', true)
+  private onDisabledChange() {
+    // 禁用状态始终为验证通过，所以 disabled 变更时需要重新校验
+    this.hiddenInputRef.value!.disabled = this.disabled;
+    this.invalid = !this.hiddenInputRef.value!.checkValidity();
+  }
+
+  @watch('value', true)
+  private async onValueChange() {
+    await this.updateComplete;
+
+    // reset 引起的值变更，不执行验证；直接修改值引起的变更，需要进行验证
+    const form = this.formController.getForm();
+    if (form && formResets.get(form)?.has(this)) {
+      this.invalid = false;
+      formResets.get(form)!.delete(this);
+    } else {
+      this.invalid = !this.hiddenInputRef.value!.checkValidity();
+      this.formController.requestValidate();
+    }
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    window.clearTimeout(this.debounceTimeout);
+    this.observeResize?.unobserve();
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`
+   */
+  public checkValidity(): boolean {
+    const valid = this.hiddenInputRef.value!.checkValidity();
+
+    if (!valid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+    }
+
+    return valid;
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`。
+   *
+   * 验证未通过时，还将在组件上显示未通过的提示。
+   */
+  public reportValidity(): boolean {
+    this.invalid = !this.hiddenInputRef.value!.reportValidity();
+
+    if (this.invalid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+
+      this.focus();
+    }
+
+    return !this.invalid;
+  }
+
+  protected override applyCustomValidity(message: string): void {
+    this.hiddenInputRef.value!.setCustomValidity(message);
+    this.invalid = !this.hiddenInputRef.value!.checkValidity();
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    this.observeResize = observeResize(this.textFieldRef.value!, () =>
+      this.resizeMenu(),
+    );
+  }
+
+  protected override render(): TemplateResult {
+    return html`<input
+        ${ref(this.hiddenInputRef)}
+        class="hidden-input"
+        .value=${live(this.value)}
+        .required=${this.required}
+        .disabled=${this.disabled}
+        tabindex="-1"
+      />
+      <mdui-dropdown
+        ${ref(this.dropdownRef)}
+        trigger="manual"
+        .disabled=${this.readonly || this.disabled}
+        .placement=${this.placement === 'top'
+          ? 'top-start'
+          : this.placement === 'bottom'
+          ? 'bottom-start'
+          : 'auto'}
+        @open=${this.onDropdownOpen}
+        @close=${this.onDropdownClose}
+      >
+        <mdui-text-field
+          ${ref(this.textFieldRef)}
+          slot="trigger"
+          part="text-field"
+          class="text-field"
+          autocomplete="off"
+          .variant=${this.variant}
+          .value=${this.value}
+          .label=${this.label}
+          .placeholder=${this.placeholder}
+          .helper=${this.helper}
+          .error=${this.hiddenInputRef.value?.validationMessage}
+          .clearable=${this.clearable}
+          .clearIcon=${this.clearIcon}
+          .icon=${this.icon}
+          .endIcon=${this.endIcon}
+          .errorIcon=${this.errorIcon}
+          .form=${this.form}
+          .readonly=${this.readonly}
+          .disabled=${this.disabled}
+          .required=${this.required}
+          .invalidStyle=${this.invalid}
+          .combobox=${{
+            expanded: this.expanded,
+            listbox: this.menuRef.value,
+            activeOption: this.getActiveOption(),
+          }}
+          @input=${this.onTextFieldInput}
+          @keydown=${this.onTextFieldKeyDown}
+        >
+          ${map(
+            [
+              'icon',
+              'end-icon',
+              'error-icon',
+              'clear-button',
+              'clear-icon',
+              'helper',
+            ],
+            (slotName) =>
+              this.hasSlotController.test(slotName)
+                ? html`<slot name=${slotName} slot=${slotName}></slot>`
+                : nothing,
+          )}
+        </mdui-text-field>
+        <div class="menu-wrapper">
+          <mdui-menu
+            ${ref(this.menuRef)}
+            part="menu"
+            role="listbox"
+            aria-busy=${this.loading ? 'true' : 'false'}
+          >
+            ${when(
+              this.loading,
+              () =>
+                html`<slot name="loading" part="loading" class="loading">
+                  <mdui-circular-progress></mdui-circular-progress>
+                </slot>`,
+              () =>
+                map(
+                  this.suggestions,
+                  (suggestion, index) =>
+                    html`<mdui-menu-item
+                      part="suggestion"
+                      class=${classMap({
+                        suggestion: true,
+                        active: index === this.activeIndex,
+                      })}
+                      role="option"
+                      aria-selected=${suggestion === this.value
+                        ? 'true'
+                        : 'false'}
+                      .value=${suggestion}
+                      .highlight=${this.query}
+                      @click=${() => this.onSuggestionClick(suggestion)}
+                      >${suggestion}</mdui-menu-item
+                    >`,
+                ),
+            )}
+          </mdui-menu>
+        </div>
+      </mdui-dropdown>`;
+  }
+
+  private resizeMenu() {
+    this.menuRef.value!.style.width = `${
+      this.textFieldRef.value!.clientWidth
+    }px`;
+  }
+
+  /**
+   * 获取通过键盘高亮的建议项元素。建议项按索引复用元素，因此可以直接取上一次渲染的元素
+   */
+  private getActiveOption(): HTMLElement | undefined {
+    if (this.activeIndex < 0 || !this.menuRef.value) {
+      return undefined;
+    }
+
+    return this.menuRef.value.querySelectorAll<HTMLElement>('.suggestion')[
+      this.activeIndex
+    ];
+  }
+
+  /**
+   * 在延迟 `debounce` 毫秒后，根据输入的文本获取建议项
+   */
+  private requestSuggestions(query: string) {
+    window.clearTimeout(this.debounceTimeout);
+
+    if (this.debounce > 0) {
+      this.debounceTimeout = window.setTimeout(
+        () => this.updateSuggestions(query),
+        this.debounce,
+      );
+    } else {
+      this.updateSuggestions(query);
+    }
+  }
+
+  private async updateSuggestions(query: string) {
+    const requestId = ++this.requestId;
+
+    let suggestions: string[];
+    let error: unknown;
+    try {
+      // source 函数同步抛出的异常也需要捕获，并触发 load-error 事件
+      const result = isFunction(this.source)
+        ? this.source(query)
+        : this.source.filter((item) =>
+            item.toLowerCase().includes(query.toLowerCase()),
+          );
+
+      if (isPromise(result)) {
+        this.loading = true;
+        this.openDropdown();
+      }
+
+      suggestions = await result;
+    } catch (e) {
+      suggestions = [];
+      error = e;
+    }
+
+    // 在等待结果期间又发起了新的请求，丢弃当前结果
+    if (requestId !== this.requestId) {
+      return;
+    }
+
+    this.loading = false;
+    this.query = query;
+    this.suggestions = suggestions;
+    this.activeIndex = -1;
+
+    if (error !== undefined) {
+      emit(this, 'load-error', { detail: { error } });
+    }
+
+    if (suggestions.length) {
+      this.openDropdown();
+    } else {
+      this.dropdownRef.value!.open = false;
+    }
+  }
+
+  private openDropdown() {
+    // 仅在焦点仍在组件中时打开下拉菜单
+    if (!this.readonly && !this.disabled && this.matches(':focus-within')) {
+      this.dropdownRef.value!.open = true;
+    }
+  }
+
+  private onDropdownOpen(event: Event) {
+    // 事件可能来自下拉菜单中的其他组件
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    this.expanded = true;
+  }
+
+  private onDropdownClose(event: Event) {
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    this.expanded = false;
+    this.activeIndex = -1;
+
+    // 关闭下拉菜单后，不再需要还未返回的结果
+    window.clearTimeout(this.debounceTimeout);
+    this.requestId++;
+    this.loading = false;
+  }
+
+  private onSuggestionClick(suggestion: string) {
+    this.value = suggestion;
+    emit(this, 'input');
+    emit(this, 'change');
+  }
+
+  private onTextFieldInput() {
+    this.value = this.textFieldRef.value!.value;
+    this.requestSuggestions(this.value);
+  }
+
+  /**
+   * 焦点在 text-field 上时：
+   *
+   * * 按下上下方向键，若下拉菜单已打开，则切换高亮的建议项，焦点仍保留在文本框中；否则获取建议项并打开下拉菜单
+   * * 按下回车键，若存在高亮的建议项，则选中该建议项
+   */
+  private onTextFieldKeyDown(event: KeyboardEvent) {
+    if (this.readonly || this.disabled) {
+      return;
+    }
+
+    const isOpen = this.dropdownRef.value!.open && !!this.suggestions.length;
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+
+      if (!isOpen) {
+        this.requestSuggestions(this.value);
+        return;
+      }
+
+      const length = this.suggestions.length;
+      this.activeIndex =
+        event.key === 'ArrowDown'
+          ? (this.activeIndex + 1) % length
+          : (this.activeIndex - 1 + length) % length;
+      this.getActiveOption()?.scrollIntoView({ block: 'nearest' });
+      return;
+    }
+
+    if (event.key === 'Enter' && isOpen && this.activeIndex > -1) {
+      event.preventDefault();
+      this.onSuggestionClick(this.suggestions[this.activeIndex]);
+      this.dropdownRef.value!.open = false;
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-autocomplete': Autocomplete;
+  }
+}
@@ -0,0 +1 @@
+export * from './bottom-sheet/index.js';
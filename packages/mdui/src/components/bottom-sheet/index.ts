@@ -0,0 +1,600 @@
+import { html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { when } from 'lit/directives/when.js';
+import { DefinedController } from '@mdui/shared/controllers/defined.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { Modal } from '@mdui/shared/helpers/modal.js';
+import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
+import { clamp } from '@mdui/shared/helpers/number.js';
+import { lockScreen, unlockScreen } from '@mdui/shared/helpers/scroll.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { style } from './style.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+type SnapPoint = 'collapsed' | 'half' | 'expanded';
+
+interface PointerState {
+  startY: number;
+  startHeight: number;
+  lastY: number;
+  lastTime: number;
+  // 最近一次移动的速度（单位为 px/ms），向下为正
+  velocity: number;
+  moved: boolean;
+}
+
+const snapPoints: SnapPoint[] = ['collapsed', 'half', 'expanded'];
+
+/**
+ * 完全展开时，底部面板顶部与视口顶部的距离（单位为 `px`）
+ */
+const EXPANDED_TOP_GAP = 72;
+
+/**
+ * 拖拽结束时的速度超过该值（单位为 px/ms）时，视为快速滑动，将切换到相邻的停靠位置
+ */
+const FLING_VELOCITY = 0.5;
+
+/**
+ * 指针移动距离小于该值（单位为 `px`）时，视为点击拖拽手柄
+ */
+const CLICK_THRESHOLD = 4;
+
+/**
+ * @summary 底部面板组件
+ *
+ * ```html
+ * <mdui-bottom-sheet>content</mdui-bottom-sheet>
+ * ```
+ *
+ * @event open - 在底部面板打开之前触发。可以通过调用 `event.preventDefault()` 阻止底部面板打开
+ * @event opened - 在底部面板打开之后触发
+ * @event close - 在底部面板关闭之前触发。可以通过调用 `event.preventDefault()` 阻止底部面板关闭
+ * @event closed - 在底部面板关闭之后触发
+ * @event overlay-click - 点击遮罩层时触发
+ * @event drag-start - 开始拖拽底部面板时触发。可以通过调用 `event.preventDefault()` 阻止拖拽
+ * @event drag-end - 拖拽底部面板结束时触发
+ * @event change - 通过拖拽或点击拖拽手柄改变停靠位置后触发
+ *
+ * @slot - 底部面板中的内容
+ *
+ * @csspart overlay - 遮罩层
+ * @csspart panel - 底部面板容器
+ * @csspart drag-handle - 拖拽手柄
+ * @csspart body - 底部面板的内容区域
+ *
+ * @cssprop --shape-corner - 组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ * @cssprop --z-index - 组件的 CSS 的 `z-index` 值
+ */
+@customElement('mdui-bottom-sheet')
+export class BottomSheet extends LitElement {
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 是否打开底部面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public open = false;
+
+  /**
+   * 是否为模态底部面板。为 `true` 时，打开后会显示遮罩层，并把焦点限制在底部面板内
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public modal = false;
+
+  /**
+   * 在模态底部面板中，是否在按下 ESC 键时，关闭底部面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+    attribute: 'close-on-esc',
+  })
+  public closeOnEsc = false;
+
+  /**
+   * 是否在点击遮罩时，关闭底部面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+    attribute: 'close-on-overlay-click',
+  })
+  public closeOnOverlayClick = false;
+
+  /**
+   * 是否禁止通过向下拖拽关闭底部面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+    attribute: 'disable-swipe-close',
+  })
+  public disableSwipeClose = false;
+
+  /**
+   * 底部面板的停靠位置。可选值为：
+   *
+   * * `collapsed`：折叠，高度为 `collapsed-height` 属性的值
+   * * `half`：半展开，高度为视口高度的一半
+   * * `expanded`：完全展开，顶部与视口顶部保留一定距离
+   */
+  @property({ reflect: true, attribute: 'snap-point' })
+  public snapPoint:
+    | /*折叠，高度为 `collapsed-height` 属性的值*/ 'collapsed'
+    | /*半展开，高度为视口高度的一半*/ 'half'
+    | /*完全展开，顶部与视口顶部保留一定距离*/ 'expanded' = 'half';
+
+  /**
+   * 停靠位置为 `collapsed` 时，底部面板的高度（单位为 `px`）
+   */
+  @property({ type: Number, reflect: true, attribute: 'collapsed-height' })
+  public collapsedHeight = 96;
+
+  // 用于在打开底部面板前，记录当前聚焦的元素；在关闭底部面板后，把焦点还原到该元素上
+  private originalTrigger!: HTMLElement;
+
+  private modalHelper!: Modal;
+
+  // 拖拽时，按下指针时的状态。未在拖拽时为 undefined
+  private pointerState?: PointerState;
+
+  private readonly overlayRef: Ref<HTMLElement> = createRef();
+  private readonly panelRef: Ref<HTMLElement> = createRef();
+  private readonly definedController = new DefinedController(this, {
+    needDomReady: true,
+  });
+
+  public constructor() {
+    super();
+
+    this.onDocumentPointerMove = this.onDocumentPointerMove.bind(this);
+    this.onDocumentPointerUp = this.onDocumentPointerUp.bind(this);
+  }
+
+  @watch('modal', true)
+  private onModalChange() {
+    if (!this.open) {
+      return;
+    }
+
+    if (this.modal) {
+      this.modalHelper.activate();
+      lockScreen(this);
+    } else {
+      this.modalHelper.deactivate();
+      unlockScreen(this);
+    }
+  }
+
+  @watch('open')
+  private async onOpenChange() {
+    const hasUpdated = this.hasUpdated;
+
+    // 默认为关闭状态。因此首次渲染时，且为关闭状态，不执行
+    if (!this.open && !hasUpdated) {
+      return;
+    }
+
+    await this.definedController.whenDefined();
+
+    if (!hasUpdated) {
+      await this.updateComplete;
+    }
+
+    const easingLinear = getEasing(this, 'linear');
+    const easingEmphasizedDecelerate = getEasing(this, 'emphasized-decelerate');
+    const easingEmphasizedAccelerate = getEasing(this, 'emphasized-accelerate');
+
+    const stopAnimation = () =>
+      Promise.all([
+        this.modal ? stopAnimations(this.overlayRef.value!) : Promise.resolve(),
+        stopAnimations(this.panelRef.value!),
+      ]);
+
+    // 打开
+    // 要区分是否首次渲染，首次渲染不触发事件，不执行动画；非首次渲染，触发事件，执行动画
+    if (this.open) {
+      if (hasUpdated) {
+        const requestOpen = emit(this, 'open', {
+          cancelable: true,
+        });
+        if (requestOpen.defaultPrevented) {
+          return;
+        }
+      }
+
+      this.style.display = 'block';
+
+      this.originalTrigger = document.activeElement as HTMLElement;
+      if (this.modal) {
+        this.modalHelper.activate();
+        lockScreen(this);
+      }
+
+      await stopAnimation();
+
+      // 设置聚焦。非模态底部面板不抢占页面焦点
+      if (this.modal) {
+        requestAnimationFrame(() => {
+          const autoFocusTarget = this.querySelector(
+            '[autofocus]',
+          ) as HTMLInputElement;
+          if (autoFocusTarget) {
+            autoFocusTarget.focus({ preventScroll: true });
+          } else {
+            this.panelRef.value!.focus({ preventScroll: true });
+          }
+        });
+      }
+
+      const duration = getDuration(this, 'medium4');
+      const animations = [
+        animateTo(
+          this.panelRef.value!,
+          [{ transform: 'translateY(100%)' }, { transform: 'translateY(0)' }],
+          {
+            duration: hasUpdated ? duration : 0,
+            easing: easingEmphasizedDecelerate,
+          },
+        ),
+      ];
+
+      if (this.modal) {
+        animations.push(
+          animateTo(
+            this.overlayRef.value!,
+            [{ opacity: 0 }, { opacity: 1, offset: 0.3 }, { opacity: 1 }],
+            {
+              duration: hasUpdated ? duration : 0,
+              easing: easingLinear,
+            },
+          ),
+        );
+      }
+
+      await Promise.all(animations);
+
+      if (hasUpdated) {
+        emit(this, 'opened');
+      }
+    } else {
+      const requestClose = emit(this, 'close', {
+        cancelable: true,
+      });
+      if (requestClose.defaultPrevented) {
+        // 向下拖拽关闭被阻止时，恢复到原有的停靠位置
+        this.panelRef.value!.style.removeProperty('height');
+        return;
+      }
+
+      if (this.modal) {
+        this.modalHelper.deactivate();
+      }
+
+      await stopAnimation();
+
+      const duration = getDuration(this, 'short4');
+      const animations = [
+        animateTo(
+          this.panelRef.value!,
+          [{ transform: 'translateY(0)' }, { transform: 'translateY(100%)' }],
+          { duration, easing: easingEmphasizedAccelerate },
+        ),
+      ];
+
+      if (this.modal) {
+        animations.push(
+          animateTo(this.overlayRef.value!, [{ opacity: 1 }, { opacity: 0 }], {
+            duration,
+            easing: easingLinear,
+          }),
+        );
+      }
+
+      await Promise.all(animations);
+
+      this.style.display = 'none';
+      this.panelRef.value!.style.removeProperty('height');
+      unlockScreen(this);
+
+      // 底部面板关闭后，恢复焦点到原有的元素上
+      const trigger = this.originalTrigger;
+      if (this.modal && typeof trigger?.focus === 'function') {
+        setTimeout(() => trigger.focus());
+      }
+
+      emit(this, 'closed');
+    }
+  }
+
+  public override connectedCallback(): void {
+    super.connectedCallback();
+    this.modalHelper = new Modal(this);
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.modalHelper.deactivate();
+    unlockScreen(this);
+    this.stopPointerTracking();
+  }
+
+  protected override firstUpdated(_changedProperties: PropertyValues) {
+    super.firstUpdated(_changedProperties);
+
+    this.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (
+        this.open &&
+        this.closeOnEsc &&
+        event.key === 'Escape' &&
+        this.modal
+      ) {
+        event.stopPropagation();
+        this.open = false;
+      }
+    });
+  }
+
+  protected override render(): TemplateResult {
+    return html`${when(
+        this.modal,
+        () =>
+          html`<div
+            ${ref(this.overlayRef)}
+            part="overlay"
+            class="overlay"
+            @click=${this.onOverlayClick}
+            tabindex="-1"
+          ></div>`,
+      )}
+      <div
+        ${ref(this.panelRef)}
+        part="panel"
+        class="panel ${classMap({ dragging: !!this.pointerState })}"
+        style=${styleMap({ '--snap-height': this.getSnapHeightStyle() })}
+        tabindex="0"
+      >
+        <div
+          part="drag-handle"
+          class="drag-handle"
+          role="button"
+          tabindex="0"
+          @pointerdown=${this.onDragHandlePointerDown}
+          @keydown=${this.onDragHandleKeyDown}
+        ></div>
+        <slot part="body" class="body"></slot>
+      </div>`;
+  }
+
+  /**
+   * 停靠位置对应的 CSS 高度值
+   */
+  private getSnapHeightStyle(): string {
+    if (this.snapPoint === 'expanded') {
+      return `calc(100% - ${EXPANDED_TOP_GAP}px)`;
+    }
+
+    if (this.snapPoint === 'half') {
+      return '50%';
+    }
+
+    return `${this.collapsedHeight}px`;
+  }
+
+  /**
+   * 各停靠位置对应的高度（单位为 `px`）
+   */
+  private getSnapHeights(): Record<SnapPoint, number> {
+    const viewportHeight = this.clientHeight;
+
+    return {
+      collapsed: Math.min(this.collapsedHeight, viewportHeight),
+      half: viewportHeight / 2,
+      expanded: Math.max(viewportHeight - EXPANDED_TOP_GAP, 0),
+    };
+  }
+
+  private onOverlayClick() {
+    emit(this, 'overlay-click');
+    if (!this.closeOnOverlayClick) {
+      return;
+    }
+
+    this.open = false;
+  }
+
+  /**
+   * 按下拖拽手柄时，开始拖拽底部面板
+   */
+  private onDragHandlePointerDown(event: PointerEvent) {
+    if (event.button !== 0) {
+      return;
+    }
+
+    const requestStart = emit(this, 'drag-start', {
+      cancelable: true,
+    });
+    if (requestStart.defaultPrevented) {
+      return;
+    }
+
+    // 阻止拖拽过程中选中文本
+    event.preventDefault();
+
+    this.pointerState = {
+      startY: event.clientY,
+      startHeight: this.panelRef.value!.offsetHeight,
+      lastY: event.clientY,
+      lastTime: event.timeStamp,
+      velocity: 0,
+      moved: false,
+    };
+    this.requestUpdate();
+
+    document.addEventListener('pointermove', this.onDocumentPointerMove);
+    document.addEventListener('pointerup', this.onDocumentPointerUp);
+    document.addEventListener('pointercancel', this.onDocumentPointerUp);
+  }
+
+  /**
+   * 在拖拽手柄上按下 Enter 或空格键时，切换到下一个停靠位置
+   */
+  private onDragHandleKeyDown(event: KeyboardEvent) {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.toggleSnapPoint();
+    }
+  }
+
+  private stopPointerTracking() {
+    document.removeEventListener('pointermove', this.onDocumentPointerMove);
+    document.removeEventListener('pointerup', this.onDocumentPointerUp);
+    document.removeEventListener('pointercancel', this.onDocumentPointerUp);
+  }
+
+  private onDocumentPointerMove(event: PointerEvent) {
+    const state = this.pointerState;
+    if (!state) {
+      return;
+    }
+
+    const deltaY = event.clientY - state.startY;
+    if (Math.abs(deltaY) >= CLICK_THRESHOLD) {
+      state.moved = true;
+    }
+
+    if (!state.moved) {
+      return;
+    }
+
+    const elapsed = event.timeStamp - state.lastTime;
+    if (elapsed > 0) {
+      state.velocity = (event.clientY - state.lastY) / elapsed;
+    }
+    state.lastY = event.clientY;
+    state.lastTime = event.timeStamp;
+
+    const height = clamp(
+      state.startHeight - deltaY,
+      0,
+      this.getSnapHeights().expanded,
+    );
+    this.panelRef.value!.style.height = `${height}px`;
+  }
+
+  private onDocumentPointerUp() {
+    const state = this.pointerState;
+    if (!state) {
+      return;
+    }
+
+    this.stopPointerTracking();
+    this.pointerState = undefined;
+    this.requestUpdate();
+
+    emit(this, 'drag-end');
+
+    // 未移动时，视为点击拖拽手柄
+    if (!state.moved) {
+      this.toggleSnapPoint();
+      return;
+    }
+
+    const target = this.getReleaseTarget(
+      this.panelRef.value!.offsetHeight,
+      state.velocity,
+    );
+
+    if (!target) {
+      this.open = false;
+      return;
+    }
+
+    // 移除拖拽时设置的高度，使底部面板以过渡动画停靠到目标位置
+    this.panelRef.value!.style.removeProperty('height');
+    this.setSnapPoint(target);
+  }
+
+  /**
+   * 根据拖拽结束时的高度和速度，获取需要停靠的位置。返回 undefined 时表示需要关闭底部面板
+   */
+  private getReleaseTarget(
+    height: number,
+    velocity: number,
+  ): SnapPoint | undefined {
+    const heights = this.getSnapHeights();
+    const canClose = !this.disableSwipeClose;
+
+    // 快速向下滑动，停靠到下方相邻的位置；下方没有停靠位置时，关闭底部面板
+    if (velocity > FLING_VELOCITY) {
+      const lower = [...snapPoints]
+        .reverse()
+        .find((snapPoint) => heights[snapPoint] < height);
+
+      return lower ?? (canClose ? undefined : 'collapsed');
+    }
+
+    // 快速向上滑动，停靠到上方相邻的位置
+    if (velocity < -FLING_VELOCITY) {
+      return (
+        snapPoints.find((snapPoint) => heights[snapPoint] > height) ??
+        'expanded'
+      );
+    }
+
+    // 低于折叠高度的一半时，关闭底部面板
+    if (canClose && height < heights.collapsed / 2) {
+      return undefined;
+    }
+
+    // 停靠到最近的位置
+    return snapPoints.reduce((nearest, snapPoint) =>
+      Math.abs(heights[snapPoint] - height) <
+      Math.abs(heights[nearest] - height)
+        ? snapPoint
+        : nearest,
+    );
+  }
+
+  /**
+   * 切换到下一个停靠位置。已完全展开时，切换到折叠位置
+   */
+  private toggleSnapPoint() {
+    const index = snapPoints.indexOf(this.snapPoint);
+    this.setSnapPoint(snapPoints[(index + 1) % snapPoints.length]);
+  }
+
+  private setSnapPoint(snapPoint: SnapPoint) {
+    if (snapPoint === this.snapPoint) {
+      return;
+    }
+
+    this.snapPoint = snapPoint;
+    emit(this, 'change');
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-bottom-sheet': BottomSheet;
+  }
+}
@@ -0,0 +1 @@
+export * from './carousel/carousel-item.js';
@@ -0,0 +1,88 @@
+import { html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { carouselItemStyle } from './carousel-item-style.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+
+/**
+ * @summary 轮播项组件。需与 `<mdui-carousel>` 组件配合使用
+ *
+ * ```html
+ * <mdui-carousel>
+ * ..<mdui-carousel-item><img src="..." /></mdui-carousel-item>
+ * ..<mdui-carousel-item><img src="..." /></mdui-carousel-item>
+ * </mdui-carousel>
+ * ```
+ *
+ * @slot - 轮播项的内容，通常为 `<img>` 元素
+ *
+ * @csspart mask - 轮播项的遮罩，轮播项滚动到边缘时，会缩小遮罩的宽度
+ * @csspart content - 轮播项的内容容器
+ *
+ * @cssprop --shape-corner - 组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ */
+@customElement('mdui-carousel-item')
+export class CarouselItem extends LitElement {
+  public static override styles: CSSResultGroup = [
+    componentStyle,
+    carouselItemStyle,
+  ];
+
+  /**
+   * 遮罩左侧和右侧裁剪的宽度（单位为 `px`），轮播项滚动到边缘时，会裁剪遮罩以缩小其宽度。由 `<mdui-carousel>` 组件控制该参数
+   */
+  @state()
+  protected maskInset: [number, number] = [0, 0];
+
+  private readonly localeController = new LocaleController(this);
+
+  public override connectedCallback(): void {
+    super.connectedCallback();
+
+    this.setAttribute('role', 'group');
+  }
+
+  protected override updated(_changedProperties: PropertyValues): void {
+    super.updated(_changedProperties);
+
+    this.setAttribute(
+      'aria-roledescription',
+      this.localeController.translate('slide'),
+    );
+  }
+
+  protected override render(): TemplateResult {
+    const [left, right] = this.maskInset;
+
+    // 内容始终在遮罩中居中，以实现视差效果
+    return html`<div
+      part="mask"
+      class="mask"
+      style=${styleMap({
+        clipPath:
+          left || right
+            ? `inset(0 ${right}px 0 ${left}px round var(--shape-corner))`
+            : null,
+      })}
+    >
+      <div
+        part="content"
+        class="content"
+        style=${styleMap({
+          transform:
+            left || right ? `translateX(${(left - right) / 2}px)` : null,
+        })}
+      >
+        <slot></slot>
+      </div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-carousel-item': CarouselItem;
+  }
+}
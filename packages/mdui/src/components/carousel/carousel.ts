@@ -0,0 +1,477 @@
+import { html, LitElement } from 'lit';
+import {
+  customElement,
+  property,
+  queryAssignedElements,
+} from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { isRtl } from '@mdui/shared/helpers/direction.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { clamp } from '@mdui/shared/helpers/number.js';
+import { observeResize } from '@mdui/shared/helpers/observeResize.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { carouselStyle } from './carousel-style.js';
+import type { CarouselItem as CarouselItemOriginal } from './carousel-item.js';
+import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+type CarouselItem = CarouselItemOriginal & {
+  maskInset: [number, number];
+};
+
+/**
+ * 轮播项缩小到最小时的宽度（单位为 `px`）
+ */
+const SMALL_ITEM_WIDTH = 56;
+
+/**
+ * 轮播项之间的间距（单位为 `px`）
+ */
+const ITEM_GAP = 8;
+
+/**
+ * 拖拽距离小于该值（单位为 `px`）时，视为点击，不阻止随后的 click 事件
+ */
+const CLICK_THRESHOLD = 4;
+
+/**
+ * @summary 轮播组件。需与 `<mdui-carousel-item>` 组件配合使用
+ *
+ * ```html
+ * <mdui-carousel>
+ * ..<mdui-carousel-item><img src="..." /></mdui-carousel-item>
+ * ..<mdui-carousel-item><img src="..." /></mdui-carousel-item>
+ * </mdui-carousel>
+ * ```
+ *
+ * @event change - 当前轮播项变更时触发
+ *
+ * @slot - `<mdui-carousel-item>` 元素
+ *
+ * @csspart scroller - 滚动容器
+ */
+@customElement('mdui-carousel')
+export class Carousel extends LitElement {
+  public static override styles: CSSResultGroup = [
+    componentStyle,
+    carouselStyle,
+  ];
+
+  /**
+   * 轮播的布局。可选值为：
+   *
+   * * `multi-browse`：同时显示大、中、小尺寸的轮播项，轮播项滚动到边缘时会逐渐缩小
+   * * `hero`：显示一个大尺寸的轮播项，及下一个轮播项的一小部分
+   * * `uncontained`：轮播项尺寸固定，滚动到边缘时直接被裁剪
+   * * `full-screen`：每个轮播项占满整个轮播容器
+   */
+  @property({ reflect: true })
+  public variant:
+    | /*同时显示大、中、小尺寸的轮播项，轮播项滚动到边缘时会逐渐缩小*/ 'multi-browse'
+    | /*显示一个大尺寸的轮播项，及下一个轮播项的一小部分*/ 'hero'
+    | /*轮播项尺寸固定，滚动到边缘时直接被裁剪*/ 'uncontained'
+    | /*每个轮播项占满整个轮播容器*/ 'full-screen' = 'multi-browse';
+
+  /**
+   * 轮播项的宽度（单位为 `px`）。仅在 `variant` 为 `multi-browse` 或 `uncontained` 时有效，默认为轮播容器宽度的 60%
+   */
+  @property({ type: Number, reflect: true, attribute: 'item-width' })
+  public itemWidth?: number;
+
+  /**
+   * 是否自动播放。鼠标悬浮在轮播上、或轮播获得焦点时，会暂停自动播放；用户在系统中开启了减弱动态效果时，不会自动播放
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public autoplay = false;
+
+  /**
+   * 自动播放时，切换轮播项的间隔时间（单位为毫秒）
+   */
+  @property({ type: Number, reflect: true })
+  public interval = 5000;
+
+  @queryAssignedElements({ selector: 'mdui-carousel-item', flatten: true })
+  private readonly items!: CarouselItem[];
+
+  // 当前轮播项的索引
+  private currentIndex = 0;
+
+  // 鼠标拖拽时，按下指针时的位置和滚动位置。未在拖拽时为 undefined
+  private dragState?: { startX: number; scrollLeft: number; moved: boolean };
+
+  // 拖拽结束后，是否需要阻止随后的 click 事件
+  private preventClick = false;
+
+  // 鼠标是否悬浮在轮播上，或轮播内的元素是否获得了焦点。此时暂停自动播放
+  private paused = false;
+
+  private autoplayTimer?: number;
+  private observeResize?: ObserveResize;
+  private readonly scrollerRef: Ref<HTMLElement> = createRef();
+  private readonly localeController = new LocaleController(this);
+
+  public constructor() {
+    super();
+
+    this.onDocumentPointerMove = this.onDocumentPointerMove.bind(this);
+    this.onDocumentPointerUp = this.onDocumentPointerUp.bind(this);
+  }
+
+  /**
+   * 当前轮播项的索引
+   */
+  public get activeIndex(): number {
+    return this.currentIndex;
+  }
+
+  private get reducedMotion(): boolean {
+    return window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  }
+
+  @watch('variant', true)
+  @watch('itemWidth', true)
+  private onLayoutChange() {
+    this.updateLayout();
+  }
+
+  @watch('autoplay')
+  @watch('interval', true)
+  private onAutoplayChange() {
+    this.restartAutoplay();
+  }
+
+  public override connectedCallback(): void {
+    super.connectedCallback();
+
+    this.setAttribute('role', 'region');
+
+    this.restartAutoplay();
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+
+    this.observeResize?.unobserve();
+    this.stopAutoplay();
+    this.stopPointerTracking();
+  }
+
+  /**
+   * 滚动到指定索引的轮播项
+   *
+   * @param index 轮播项的索引
+   */
+  public scrollToIndex(index: number): void {
+    const items = this.items;
+    if (!items.length) {
+      return;
+    }
+
+    index = clamp(index, 0, items.length - 1);
+
+    this.scrollerRef.value!.scrollTo({
+      left: this.getItemOffset(items[index]),
+      behavior: this.reducedMotion ? 'auto' : 'smooth',
+    });
+  }
+
+  /**
+   * 滚动到下一个轮播项
+   */
+  public next(): void {
+    this.scrollToIndex(this.currentIndex + 1);
+  }
+
+  /**
+   * 滚动到上一个轮播项
+   */
+  public prev(): void {
+    this.scrollToIndex(this.currentIndex - 1);
+  }
+
+  protected override firstUpdated(_changedProperties: PropertyValues): void {
+    super.firstUpdated(_changedProperties);
+
+    this.observeResize = observeResize(this.scrollerRef.value!, () => {
+      this.updateLayout();
+    });
+
+    this.addEventListener('mouseenter', () => this.setPaused(true));
+    this.addEventListener('mouseleave', () => this.setPaused(false));
+    this.addEventListener('focusin', () => this.setPaused(true));
+    this.addEventListener('focusout', () => this.setPaused(false));
+
+    // 在捕获阶段处理 click 事件，以便在轮播项上的 click 事件触发前阻止它
+    this.addEventListener('click', (event) => this.onClick(event), true);
+  }
+
+  protected override updated(_changedProperties: PropertyValues): void {
+    super.updated(_changedProperties);
+
+    this.setAttribute(
+      'aria-roledescription',
+      this.localeController.translate('carousel'),
+    );
+  }
+
+  protected override render(): TemplateResult {
+    return html`<div
+      ${ref(this.scrollerRef)}
+      part="scroller"
+      class="scroller ${classMap({ dragging: !!this.dragState?.moved })}"
+      tabindex="0"
+      @scroll=${this.onScroll}
+      @keydown=${this.onKeyDown}
+      @pointerdown=${this.onPointerDown}
+      @dragstart=${this.onDragStart}
+    >
+      <slot @slotchange=${this.updateLayout}></slot>
+    </div>`;
+  }
+
+  /**
+   * 根据布局和轮播容器的宽度，设置各个轮播项的宽度，并更新遮罩
+   */
+  private updateLayout() {
+    const scroller = this.scrollerRef.value;
+    if (!scroller) {
+      return;
+    }
+
+    const containerWidth = scroller.clientWidth;
+    let itemWidth: number;
+
+    switch (this.variant) {
+      case 'full-screen':
+        itemWidth = containerWidth;
+        break;
+      case 'hero':
+        itemWidth = containerWidth - SMALL_ITEM_WIDTH - ITEM_GAP;
+        break;
+      default:
+        itemWidth = this.itemWidth ?? Math.round(containerWidth * 0.6);
+    }
+
+    this.items.forEach((item) => {
+      item.style.width = `${Math.max(itemWidth, SMALL_ITEM_WIDTH)}px`;
+    });
+
+    this.updateMasks();
+  }
+
+  /**
+   * 获取轮播项的起始侧与滚动容器的起始侧对齐时，滚动容器的 `scrollLeft` 值。
+   * 从右到左布局时，滚动内容从右侧开始，`scrollLeft` 为 0 或负数
+   */
+  private getItemOffset(item: CarouselItem): number {
+    const scroller = this.scrollerRef.value!;
+    const itemRect = item.getBoundingClientRect();
+    const scrollerRect = scroller.getBoundingClientRect();
+
+    return isRtl(this)
+      ? itemRect.right - scrollerRect.right + scroller.scrollLeft
+      : itemRect.left - scrollerRect.left + scroller.scrollLeft;
+  }
+
+  /**
+   * 轮播项滚动到边缘时，裁剪其遮罩，使其逐渐缩小到 `SMALL_ITEM_WIDTH`
+   */
+  private updateMasks() {
+    const scroller = this.scrollerRef.value!;
+    const hasMask = this.variant === 'multi-browse' || this.variant === 'hero';
+    const scrollerRect = scroller.getBoundingClientRect();
+
+    this.items.forEach((item) => {
+      if (!hasMask) {
+        item.maskInset = [0, 0];
+        return;
+      }
+
+      const itemRect = item.getBoundingClientRect();
+      const width = item.offsetWidth;
+      const visibleWidth =
+        Math.min(itemRect.right, scrollerRect.right) -
+        Math.max(itemRect.left, scrollerRect.left);
+      const maskWidth = clamp(visibleWidth, SMALL_ITEM_WIDTH, width);
+      const inset = width - maskWidth;
+
+      // 从左侧滚出时，裁剪左侧；否则裁剪右侧
+      item.maskInset =
+        itemRect.left < scrollerRect.left ? [inset, 0] : [0, inset];
+    });
+  }
+
+  private onScroll() {
+    this.updateMasks();
+
+    const scroller = this.scrollerRef.value!;
+    const items = this.items;
+    if (!items.length) {
+      return;
+    }
+
+    // 滚动到最后时，当前轮播项为最后一项；否则为起始侧最接近滚动位置的一项
+    // 从右到左布局时 scrollLeft 为负数，所以取绝对值
+    const isEnd =
+      Math.abs(scroller.scrollLeft) + scroller.clientWidth >=
+      scroller.scrollWidth - 1;
+    const index = isEnd
+      ? items.length - 1
+      : items.reduce(
+          (nearest, item, index) =>
+            Math.abs(this.getItemOffset(item) - scroller.scrollLeft) <
+            Math.abs(this.getItemOffset(items[nearest]) - scroller.scrollLeft)
+              ? index
+              : nearest,
+          0,
+        );
+
+    if (index !== this.currentIndex) {
+      this.currentIndex = index;
+      emit(this, 'change');
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    // 从右到左布局时，下一项位于左侧，左右方向键的作用需要互换
+    const step = isRtl(this) ? -1 : 1;
+    const keyMap: Record<string, number> = {
+      ArrowLeft: this.currentIndex - step,
+      ArrowRight: this.currentIndex + step,
+      Home: 0,
+      End: this.items.length - 1,
+    };
+
+    const index = keyMap[event.key];
+    if (index === undefined) {
+      return;
+    }
+
+    event.preventDefault();
+    this.scrollToIndex(index);
+  }
+
+  /**
+   * 触摸时使用浏览器原生的滚动；使用鼠标时，通过拖拽滚动
+   */
+  private onPointerDown(event: PointerEvent) {
+    if (event.pointerType !== 'mouse' || event.button !== 0) {
+      return;
+    }
+
+    this.preventClick = false;
+    this.dragState = {
+      startX: event.clientX,
+      scrollLeft: this.scrollerRef.value!.scrollLeft,
+      moved: false,
+    };
+
+    document.addEventListener('pointermove', this.onDocumentPointerMove);
+    document.addEventListener('pointerup', this.onDocumentPointerUp);
+    document.addEventListener('pointercancel', this.onDocumentPointerUp);
+  }
+
+  private stopPointerTracking() {
+    document.removeEventListener('pointermove', this.onDocumentPointerMove);
+    document.removeEventListener('pointerup', this.onDocumentPointerUp);
+    document.removeEventListener('pointercancel', this.onDocumentPointerUp);
+  }
+
+  private onDocumentPointerMove(event: PointerEvent) {
+    const state = this.dragState;
+    if (!state) {
+      return;
+    }
+
+    const deltaX = event.clientX - state.startX;
+    if (!state.moved && Math.abs(deltaX) >= CLICK_THRESHOLD) {
+      // 拖拽时禁用滚动吸附，使滚动位置跟随指针
+      state.moved = true;
+      this.requestUpdate();
+    }
+
+    if (state.moved) {
+      // 阻止拖拽过程中选中文本或拖拽图片
+      event.preventDefault();
+      this.scrollerRef.value!.scrollLeft = state.scrollLeft - deltaX;
+    }
+  }
+
+  private async onDocumentPointerUp() {
+    const state = this.dragState;
+    if (!state) {
+      return;
+    }
+
+    this.stopPointerTracking();
+    this.dragState = undefined;
+
+    if (!state.moved) {
+      return;
+    }
+
+    this.preventClick = true;
+    this.requestUpdate();
+    await this.updateComplete;
+
+    // 拖拽结束后，吸附到最近的轮播项
+    this.scrollToIndex(this.currentIndex);
+  }
+
+  /**
+   * 阻止浏览器原生的拖拽图片、链接等行为，以便通过鼠标拖拽滚动
+   */
+  private onDragStart(event: DragEvent) {
+    event.preventDefault();
+  }
+
+  private onClick(event: MouseEvent) {
+    if (this.preventClick) {
+      this.preventClick = false;
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }
+
+  private setPaused(paused: boolean) {
+    this.paused = paused;
+    this.restartAutoplay();
+  }
+
+  private stopAutoplay() {
+    window.clearInterval(this.autoplayTimer);
+    this.autoplayTimer = undefined;
+  }
+
+  private restartAutoplay() {
+    this.stopAutoplay();
+
+    if (!this.autoplay || this.paused || this.reducedMotion) {
+      return;
+    }
+
+    this.autoplayTimer = window.setInterval(() => {
+      // 已到最后一项时，回到第一项
+      if (this.currentIndex >= this.items.length - 1) {
+        this.scrollToIndex(0);
+      } else {
+        this.next();
+      }
+    }, this.interval);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-carousel': Carousel;
+  }
+}
@@ -14,6 +14,7 @@ import '@mdui/shared/icons/check-box.js';
 import '@mdui/shared/icons/indeterminate-check-box.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
 import '../icon.js';
 import { RippleMixin } from '../ripple/ripple-mixin.js';
 import { style } from './style.js';
@@ -34,6 +35,8 @@ import type { Ref } from 'lit/directives/ref.js';
  * @event change - 选中状态变更时触发
  * @event input - 选中状态变更时触发
  * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  *
  * @slot - 文本
  * @slot unchecked-icon - 未选中状态图标
@@ -48,7 +51,7 @@ import type { Ref } from 'lit/directives/ref.js';
  */
 @customElement('mdui-checkbox')
 export class Checkbox
-  extends RippleMixin(FocusableMixin(LitElement))
+  extends ValidatorMixin(RippleMixin(FocusableMixin(LitElement)))
   implements FormControl
 {
   public static override styles: CSSResultGroup = [componentStyle, style];
@@ -147,6 +150,7 @@ export class Checkbox
   private readonly rippleRef: Ref<Ripple> = createRef();
   private readonly formController = new FormController(this, {
     value: (control) => (control.checked ? control.value : undefined),
+    validationValue: (control) => control.checked!,
     defaultValue: (control) => control.defaultChecked!,
     setValue: (control, checked) => (control.checked = checked as boolean),
   });
@@ -200,6 +204,7 @@ export class Checkbox
       formResets.get(form)!.delete(this);
     } else {
       this.invalid = !this.inputRef.value!.checkValidity();
+      this.formController.requestValidate();
     }
   }
 
@@ -245,12 +250,7 @@ export class Checkbox
     return !this.invalid;
   }
 
-  /**
-   * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
-   *
-   * @param message 自定义的提示文本
-   */
-  public setCustomValidity(message: string): void {
+  protected override applyCustomValidity(message: string): void {
     this.inputRef.value!.setCustomValidity(message);
     this.invalid = !this.inputRef.value!.checkValidity();
   }
@@ -0,0 +1 @@
+export * from './chip-input/index.js';
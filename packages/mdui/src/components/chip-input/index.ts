@@ -0,0 +1,659 @@
+import { html, LitElement, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { live } from 'lit/directives/live.js';
+import { map } from 'lit/directives/map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { FormController, formResets } from '@mdui/shared/controllers/form.js';
+import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { defaultValue } from '@mdui/shared/decorators/default-value.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { observeResize } from '@mdui/shared/helpers/observeResize.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
+import '../chip.js';
+import '../dropdown.js';
+import '../menu.js';
+import '../text-field.js';
+import { style } from './style.js';
+import type { Dropdown } from '../dropdown.js';
+import type { Menu } from '../menu/menu.js';
+import type { TextField } from '../text-field.js';
+import type { FormControl } from '@mdui/jq/shared/form.js';
+import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * @summary 纸片输入框组件。输入文本后按回车键或逗号，会把文本转换为纸片，用于输入多个值
+ *
+ * ```html
+ * <mdui-chip-input label="Tags"></mdui-chip-input>
+ * ```
+ *
+ * @event focus - 获得焦点时触发
+ * @event blur - 失去焦点时触发
+ * @event input - 添加或删除纸片时触发
+ * @event change - 添加或删除纸片时触发
+ * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
+ * @event clear - 在点击由 `clearable` 属性生成的清空按钮时触发。可以通过调用 `event.preventDefault()` 阻止清空
+ *
+ * @slot icon - 左侧图标
+ * @slot end-icon - 右侧图标
+ * @slot error-icon - 验证失败状态的右侧图标
+ * @slot clear-button - 清空按钮
+ * @slot clear-icon - 清空按钮中的图标
+ * @slot helper - 底部的帮助文本
+ *
+ * @csspart text-field - 文本框，即 [`<mdui-text-field>`](/docs/2/components/text-field) 元素
+ * @csspart chip - 纸片，即 [`<mdui-chip>`](/docs/2/components/chip) 元素
+ * @csspart input - 输入文本的 `<input>` 元素
+ * @csspart menu - 下拉菜单，即 [`<mdui-menu>`](/docs/2/components/menu) 元素
+ * @csspart suggestion - 建议项，即 [`<mdui-menu-item>`](/docs/2/components/menu#menu-item-api) 元素
+ */
+@customElement('mdui-chip-input')
+export class ChipInput
+  extends ValidatorMixin(FocusableMixin(LitElement))
+  implements FormControl
+{
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 文本框形状。可选值为：
+   *
+   * * `filled`：带背景色的文本框，视觉效果较强
+   * * `outlined`：带边框的文本框，视觉效果较弱
+   */
+  @property({ reflect: true })
+  public variant:
+    | /*带背景色的文本框，视觉效果较强*/ 'filled'
+    | /*带边框的文本框，视觉效果较弱*/ 'outlined' = 'filled';
+
+  /**
+   * 建议项。输入文本时，将在下拉菜单中显示包含输入文本（不区分大小写）的项
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public suggestions: string[] = [];
+
+  /**
+   * 是否禁止添加重复的值
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public unique = false;
+
+  /**
+   * 纸片输入框名称，将与表单数据一起提交
+   */
+  @property({ reflect: true })
+  public name = '';
+
+  /**
+   * 纸片输入框的值，为各个纸片的文本组成的数组，将与表单数据一起提交
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public value: string[] = [];
+
+  /**
+   * 默认值。在重置表单时，将重置为该默认值。该属性只能通过 JavaScript 属性设置
+   */
+  @defaultValue()
+  public defaultValue: string[] = [];
+
+  /**
+   * 标签文本
+   */
+  @property({ reflect: true })
+  public label?: string;
+
+  /**
+   * 提示文本
+   */
+  @property({ reflect: true })
+  public placeholder?: string;
+
+  /**
+   * 文本框底部的帮助文本。也可以通过 `slot="helper"` 设置
+   */
+  @property({ reflect: true })
+  public helper?: string;
+
+  /**
+   * 是否可清空所有纸片
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public clearable = false;
+
+  /**
+   * 可清空时，显示在文本框右侧的清空按钮的 Material Icons 图标名。也可以通过 `slot="clear-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'clear-icon' })
+  public clearIcon?: string;
+
+  /**
+   * 下拉菜单的方位。可选值为：
+   *
+   * * `auto`：自动判断方位
+   * * `bottom`：位于下方
+   * * `top`：位于上方
+   */
+  @property({ reflect: true })
+  public placement:
+    | /*自动判断方位*/ 'auto'
+    | /*位于下方*/ 'bottom'
+    | /*位于上方*/ 'top' = 'auto';
+
+  /**
+   * 文本框的前缀图标的 Material Icons 图标名。也可以通过 `slot="icon"` 设置
+   */
+  @property({ reflect: true })
+  public icon?: string;
+
+  /**
+   * 文本框的后缀图标的 Material Icons 图标名。也可以通过 `slot="end-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'end-icon' })
+  public endIcon?: string;
+
+  /**
+   * 表单字段验证失败时，显示在文本框右侧的 Material Icons 图标名。也可以通过 `slot="error-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'error-icon' })
+  public errorIcon?: string;
+
+  /**
+   * 关联的 `form` 元素。此属性值必须为同一页面中的一个 `<form>` 元素的 `id` 属性。
+   *
+   * 如果此属性未指定，则元素必须是 `form` 元素的后代。利用此属性，你可以将元素放置在页面中的任何位置，而不仅仅是作为 `form` 元素的后代。
+   */
+  @property({ reflect: true })
+  public form?: string;
+
+  /**
+   * 是否为只读
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public readonly = false;
+
+  /**
+   * 是否为禁用状态
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public disabled = false;
+
+  /**
+   * 提交表单时，是否必须至少包含一个纸片
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public required = false;
+
+  /**
+   * 是否验证未通过
+   *
+   * 该验证为浏览器原生验证 API，基于 `required` 属性的验证结果
+   */
+  @state()
+  private invalid = false;
+
+  /**
+   * 输入框中还未转换为纸片的文本
+   */
+  @state()
+  private inputValue = '';
+
+  /**
+   * 当前显示的建议项
+   */
+  @state()
+  private matchedSuggestions: string[] = [];
+
+  /**
+   * 下拉菜单是否已打开
+   */
+  @state()
+  private expanded = false;
+
+  private observeResize?: ObserveResize;
+  private readonly dropdownRef: Ref<Dropdown> = createRef();
+  private readonly menuRef: Ref<Menu> = createRef();
+  private readonly textFieldRef: Ref<TextField> = createRef();
+  private readonly inputRef: Ref<HTMLInputElement> = createRef();
+  private readonly hiddenInputRef: Ref<HTMLInputElement> = createRef();
+  private readonly formController = new FormController(this);
+  private readonly hasSlotController = new HasSlotController(
+    this,
+    'icon',
+    'end-icon',
+    'error-icon',
+    'clear-button',
+    'clear-icon',
+    'helper',
+  );
+
+  /**
+   * 表单验证状态对象
+   */
+  public get validity(): ValidityState {
+    return this.hiddenInputRef.value!.validity;
+  }
+
+  /**
+   * 表单验证的错误提示信息
+   */
+  public get validationMessage(): string {
+    return this.hiddenInputRef.value!.validationMessage;
+  }
+
+  protected override get focusElement(): HTMLElement {
+    return this.inputRef.value!;
+  }
+
+  protected override get focusDisabled(): boolean {
+    return this.disabled;
+  }
+
+  @watch('disabled', true)
+  private onDisabledChange() {
+    // 禁用状态始终为验证通过，所以 disabled 变更时需要重新校验
+    this.hiddenInputRef.value!.disabled = this.disabled;
+    this.invalid = !this.hiddenInputRef.value!.checkValidity();
+  }
+
+  @watch('value', true)
+  private async onValueChange() {
+    await this.updateComplete;
+
+    // reset 引起的值变更，不执行验证；直接修改值引起的变更，需要进行验证
+    const form = this.formController.getForm();
+    if (form && formResets.get(form)?.has(this)) {
+      this.invalid = false;
+      formResets.get(form)!.delete(this);
+    } else {
+      this.invalid = !this.hiddenInputRef.value!.checkValidity();
+      this.formController.requestValidate();
+    }
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.observeResize?.unobserve();
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`
+   */
+  public checkValidity(): boolean {
+    const valid = this.hiddenInputRef.value!.checkValidity();
+
+    if (!valid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+    }
+
+    return valid;
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`。
+   *
+   * 验证未通过时，还将在组件上显示未通过的提示。
+   */
+  public reportValidity(): boolean {
+    this.invalid = !this.hiddenInputRef.value!.reportValidity();
+
+    if (this.invalid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+
+      this.focus();
+    }
+
+    return !this.invalid;
+  }
+
+  protected override applyCustomValidity(message: string): void {
+    this.hiddenInputRef.value!.setCustomValidity(message);
+    this.invalid = !this.hiddenInputRef.value!.checkValidity();
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    this.observeResize = observeResize(this.textFieldRef.value!, () =>
+      this.resizeMenu(),
+    );
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    this.textFieldRef.value!.updateComplete.then(() =>
+      this.updateTextFieldInput(),
+    );
+  }
+
+  protected override render(): TemplateResult {
+    return html`<input
+        ${ref(this.hiddenInputRef)}
+        class="hidden-input"
+        .value=${live(this.value.join(','))}
+        .required=${this.required}
+        .disabled=${this.disabled}
+        tabindex="-1"
+      />
+      <mdui-dropdown
+        ${ref(this.dropdownRef)}
+        trigger="manual"
+        .disabled=${this.readonly || this.disabled}
+        .placement=${this.placement === 'top'
+          ? 'top-start'
+          : this.placement === 'bottom'
+          ? 'bottom-start'
+          : 'auto'}
+        @open=${this.onDropdownOpen}
+        @close=${this.onDropdownClose}
+      >
+        <mdui-text-field
+          ${ref(this.textFieldRef)}
+          slot="trigger"
+          part="text-field"
+          class="text-field"
+          .variant=${this.variant}
+          .value=${this.value.length || this.inputValue ? ' ' : ''}
+          .label=${this.label}
+          .helper=${this.helper}
+          .error=${this.hiddenInputRef.value?.validationMessage}
+          .clearable=${this.clearable && !this.readonly}
+          .clearIcon=${this.clearIcon}
+          .icon=${this.icon}
+          .endIcon=${this.endIcon}
+          .errorIcon=${this.errorIcon}
+          .form=${this.form}
+          .readonlyButClearable=${true}
+          .readonly=${true}
+          .disabled=${this.disabled}
+          .required=${this.required}
+          .invalidStyle=${this.invalid}
+          @clear=${this.onClear}
+          @change=${(e: Event) => e.stopPropagation()}
+          @click=${this.onTextFieldClick}
+        >
+          ${map(
+            [
+              'icon',
+              'end-icon',
+              'error-icon',
+              'clear-button',
+              'clear-icon',
+              'helper',
+            ],
+            (slotName) =>
+              this.hasSlotController.test(slotName)
+                ? html`<slot name=${slotName} slot=${slotName}></slot>`
+                : nothing,
+          )}
+          <div slot="input" class="chips">
+            ${map(
+              this.value,
+              (valueItem, index) =>
+                html`<mdui-chip
+                  part="chip"
+                  class="chip"
+                  variant="input"
+                  tabindex="-1"
+                  .deletable=${!this.readonly}
+                  .disabled=${this.disabled}
+                  @delete=${() => this.removeValue(index)}
+                >
+                  ${valueItem}
+                </mdui-chip>`,
+            )}
+            <input
+              ${ref(this.inputRef)}
+              part="input"
+              class="input"
+              autocomplete="off"
+              role="combobox"
+              aria-autocomplete="list"
+              aria-haspopup="listbox"
+              aria-expanded=${this.expanded ? 'true' : 'false'}
+              aria-label=${this.label ?? nothing}
+              placeholder=${(!this.value.length && this.placeholder) || nothing}
+              .value=${live(this.inputValue)}
+              .readOnly=${this.readonly}
+              .disabled=${this.disabled}
+              @input=${this.onInput}
+              @keydown=${this.onKeyDown}
+              @focus=${this.onInputFocus}
+              @blur=${this.onInputBlur}
+            />
+          </div>
+        </mdui-text-field>
+        <div class="menu-wrapper">
+          <mdui-menu ${ref(this.menuRef)} part="menu" role="listbox">
+            ${map(
+              this.matchedSuggestions,
+              (suggestion) =>
+                html`<mdui-menu-item
+                  part="suggestion"
+                  role="option"
+                  .value=${suggestion}
+                  .highlight=${this.inputValue}
+                  @click=${() => this.onSuggestionClick(suggestion)}
+                  >${suggestion}</mdui-menu-item
+                >`,
+            )}
+          </mdui-menu>
+        </div>
+      </mdui-dropdown>`;
+  }
+
+  private resizeMenu() {
+    this.menuRef.value!.style.width = `${
+      this.textFieldRef.value!.clientWidth
+    }px`;
+  }
+
+  /**
+   * 使用 input slot 后，text-field 中原有的 `<input>` 元素仍可聚焦，需要在渲染后将其从 Tab 键的焦点顺序中移除
+   */
+  private updateTextFieldInput() {
+    // @ts-ignore
+    const input: HTMLElement = this.textFieldRef.value!.focusElement;
+
+    input.tabIndex = -1;
+  }
+
+  /**
+   * 把文本添加为纸片。会忽略空文本；`unique` 为 `true` 时，还会忽略已存在的值
+   * @param items 需要添加的文本
+   */
+  private addValues(items: string[]) {
+    const value = [...this.value];
+
+    items
+      .map((item) => item.trim())
+      .forEach((item) => {
+        if (item && (!this.unique || !value.includes(item))) {
+          value.push(item);
+        }
+      });
+
+    if (value.length === this.value.length) {
+      return;
+    }
+
+    this.value = value;
+    emit(this, 'input');
+    emit(this, 'change');
+  }
+
+  private removeValue(index: number) {
+    this.value = this.value.filter((_, i) => i !== index);
+    emit(this, 'input');
+    emit(this, 'change');
+  }
+
+  /**
+   * 根据输入的文本，更新下拉菜单中的建议项
+   */
+  private updateSuggestions() {
+    const query = this.inputValue.trim().toLowerCase();
+
+    this.matchedSuggestions = query
+      ? this.suggestions.filter(
+          (suggestion) =>
+            suggestion.toLowerCase().includes(query) &&
+            !(this.unique && this.value.includes(suggestion)),
+        )
+      : [];
+
+    if (
+      this.matchedSuggestions.length &&
+      !this.readonly &&
+      !this.disabled &&
+      this.matches(':focus-within')
+    ) {
+      this.dropdownRef.value!.open = true;
+    } else {
+      this.dropdownRef.value!.open = false;
+    }
+  }
+
+  private onDropdownOpen(event: Event) {
+    // 事件可能来自下拉菜单中的其他组件
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    this.expanded = true;
+  }
+
+  private onDropdownClose(event: Event) {
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    this.expanded = false;
+  }
+
+  private onSuggestionClick(suggestion: string) {
+    this.addValues([suggestion]);
+    this.inputValue = '';
+    this.matchedSuggestions = [];
+    this.focus();
+  }
+
+  private onClear() {
+    this.value = [];
+    this.inputValue = '';
+  }
+
+  /**
+   * 点击文本框中纸片以外的区域时，聚焦到输入框
+   */
+  private onTextFieldClick() {
+    if (!this.disabled) {
+      this.focus();
+    }
+  }
+
+  /**
+   * 输入了逗号时（包括粘贴的文本中含逗号），把逗号前的文本转换为纸片
+   */
+  private onInput(event: Event) {
+    // 仅在添加或删除纸片时触发 input 事件
+    event.stopPropagation();
+
+    const parts = this.inputRef.value!.value.split(',');
+
+    this.inputValue = parts.pop()!;
+    this.addValues(parts);
+    this.updateSuggestions();
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if (this.readonly || this.disabled) {
+      return;
+    }
+
+    // 按下回车键时，把输入的文本转换为纸片
+    if (event.key === 'Enter' && !event.isComposing) {
+      event.preventDefault();
+
+      if (this.inputValue.trim()) {
+        this.addValues([this.inputValue]);
+        this.inputValue = '';
+        this.updateSuggestions();
+      }
+
+      return;
+    }
+
+    // 输入框为空时按下退格键，删除最后一个纸片
+    if (event.key === 'Backspace' && !this.inputValue && this.value.length) {
+      event.preventDefault();
+      this.removeValue(this.value.length - 1);
+      return;
+    }
+
+    // 下拉菜单已打开时，按下向下方向键，焦点移动到第一个建议项
+    if (
+      event.key === 'ArrowDown' &&
+      this.dropdownRef.value!.open &&
+      this.matchedSuggestions.length
+    ) {
+      event.preventDefault();
+      this.menuRef.value!.focus();
+    }
+  }
+
+  private onInputFocus() {
+    // @ts-ignore
+    this.textFieldRef.value!.focusedStyle = true;
+  }
+
+  private onInputBlur() {
+    // @ts-ignore
+    this.textFieldRef.value!.focusedStyle = false;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-chip-input': ChipInput;
+  }
+}
@@ -0,0 +1 @@
+export * from './data-table/index.js';
@@ -0,0 +1,492 @@
+import { html, LitElement, nothing } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { map } from 'lit/directives/map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { when } from 'lit/directives/when.js';
+import { isFunction, isNumber } from '@mdui/jq/shared/helper.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import '@mdui/shared/icons/arrow-upward.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import '../checkbox.js';
+import '../linear-progress.js';
+import '../pagination.js';
+import { style } from './style.js';
+import type { Pagination } from '../pagination.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+
+type Row = Record<string, unknown>;
+
+interface Column {
+  /**
+   * 列对应的行数据的字段名
+   */
+  key: string;
+
+  /**
+   * 表头中的文本
+   */
+  title: string;
+
+  /**
+   * 是否可以点击表头进行排序
+   */
+  sortable?: boolean;
+
+  /**
+   * 自定义排序时使用的比较函数，规则与 `Array.prototype.sort()` 的比较函数相同
+   */
+  sorter?: (a: Row, b: Row) => number;
+
+  /**
+   * 单元格中内容的对齐方式。默认数字为右对齐，其他为左对齐
+   */
+  align?: 'start' | 'center' | 'end';
+
+  /**
+   * 列宽，为 CSS 的 `width` 值
+   */
+  width?: string;
+
+  /**
+   * 自定义渲染单元格的函数。函数参数为行数据和行索引，返回 lit 模板、DOM 元素或字符串
+   */
+  render?: (row: Row, index: number) => unknown;
+}
+
+/**
+ * @summary 数据表格组件
+ *
+ * ```html
+ * <mdui-data-table></mdui-data-table>
+ * ```
+ *
+ * @event sort-change - 排序的列或排序方向变更时触发
+ * @event selection-change - 选中的行变更时触发
+ * @event page-change - 页码变更时触发
+ *
+ * @slot empty - 没有数据时显示的内容
+ *
+ * @csspart container - 表格的滚动容器
+ * @csspart table - `<table>` 元素
+ * @csspart header - 表头行
+ * @csspart header-cell - 表头单元格
+ * @csspart sort-icon - 表头中的排序图标
+ * @csspart row - 数据行
+ * @csspart cell - 数据单元格
+ * @csspart checkbox - 选择列中的复选框，即 [`<mdui-checkbox>`](/docs/2/components/checkbox) 元素
+ * @csspart progress - 加载状态时显示的进度条，即 [`<mdui-linear-progress>`](/docs/2/components/linear-progress) 元素
+ * @csspart empty - 没有数据时显示的内容
+ * @csspart footer - 底部分页栏，即 [`<mdui-pagination>`](/docs/2/components/pagination) 元素
+ */
+@customElement('mdui-data-table')
+export class DataTable extends LitElement {
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 列定义。数组中的每一项为 `{ key, title, sortable, sorter, align, width, render }` 格式的对象。该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public columns: Column[] = [];
+
+  /**
+   * 行数据。该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public rows: Row[] = [];
+
+  /**
+   * 行数据中，用于唯一标识一行的字段名
+   */
+  @property({ reflect: true, attribute: 'row-key' })
+  public rowKey = 'id';
+
+  /**
+   * 是否在第一列显示复选框，用于选择行
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public selectable = false;
+
+  /**
+   * 选中的行的 `row-key` 字段值组成的数组。该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public selectedKeys: unknown[] = [];
+
+  /**
+   * 当前排序的列的 `key`
+   */
+  @property({ reflect: true, attribute: 'sort-key' })
+  public sortKey?: string;
+
+  /**
+   * 排序方向。可选值为：
+   *
+   * * `asc`：升序
+   * * `desc`：降序
+   */
+  @property({ reflect: true, attribute: 'sort-order' })
+  public sortOrder: /*升序*/ 'asc' | /*降序*/ 'desc' = 'asc';
+
+  /**
+   * 是否由外部进行排序。设置该属性后，点击表头时只更新 `sort-key`、`sort-order` 并触发 `sort-change` 事件，不对 `rows` 进行排序
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+    attribute: 'manual-sort',
+  })
+  public manualSort = false;
+
+  /**
+   * 每页显示的行数。为 `0` 时不分页
+   */
+  @property({ type: Number, reflect: true, attribute: 'page-size' })
+  public pageSize = 0;
+
+  /**
+   * 当前页码，从 `1` 开始
+   */
+  @property({ type: Number, reflect: true })
+  public page = 1;
+
+  /**
+   * 数据总行数。设置该属性后，将由外部进行分页，`rows` 为当前页的数据，页码变更时触发 `page-change` 事件
+   */
+  @property({ type: Number, reflect: true })
+  public total?: number;
+
+  /**
+   * 是否使用紧凑模式
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public dense = false;
+
+  /**
+   * 是否为加载中状态
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public loading = false;
+
+  private readonly localeController = new LocaleController(this);
+
+  /**
+   * 分页时的总行数
+   */
+  private get totalRows(): number {
+    return isNumber(this.total) ? this.total : this.rows.length;
+  }
+
+  /**
+   * 总页数
+   */
+  private get pageCount(): number {
+    return this.pageSize
+      ? Math.max(Math.ceil(this.totalRows / this.pageSize), 1)
+      : 1;
+  }
+
+  /**
+   * 当前页中显示的行数据（已排序）
+   */
+  private get pageRows(): Row[] {
+    const rows = this.getSortedRows();
+
+    if (!this.pageSize || isNumber(this.total)) {
+      return rows;
+    }
+
+    const start = (this.page - 1) * this.pageSize;
+    return rows.slice(start, start + this.pageSize);
+  }
+
+  @watch('pageSize', true)
+  @watch('rows', true)
+  @watch('total', true)
+  private onPaginationChange() {
+    // 数据变少后，当前页码可能超出总页数
+    if (this.page > this.pageCount) {
+      this.page = this.pageCount;
+
+      // 由外部进行分页时，需要在 page-change 事件中更新当前页的数据
+      if (isNumber(this.total)) {
+        emit(this, 'page-change');
+      }
+    }
+  }
+
+  protected override render(): TemplateResult {
+    const rows = this.pageRows;
+    const pageKeys = rows.map((row) => row[this.rowKey]);
+    const selectedCount = pageKeys.filter((key) =>
+      this.selectedKeys.includes(key),
+    ).length;
+    const colspan = this.columns.length + (this.selectable ? 1 : 0);
+
+    return html`<div part="container" class="container">
+        <table part="table" class="table">
+          <thead>
+            <tr part="header" class="header">
+              ${when(
+                this.selectable,
+                () =>
+                  html`<th class="checkbox-cell">
+                    <mdui-checkbox
+                      part="checkbox"
+                      .checked=${!!rows.length && selectedCount === rows.length}
+                      .indeterminate=${!!selectedCount &&
+                      selectedCount < rows.length}
+                      .disabled=${!rows.length}
+                      @input=${this.onCheckboxInput}
+                      @change=${this.onSelectAllChange}
+                    ></mdui-checkbox>
+                  </th>`,
+              )}
+              ${map(this.columns, (column) => this.renderHeaderCell(column))}
+            </tr>
+            ${when(
+              this.loading,
+              () =>
+                html`<tr class="progress-row">
+                  <th colspan=${colspan}>
+                    <mdui-linear-progress
+                      part="progress"
+                      class="progress"
+                    ></mdui-linear-progress>
+                  </th>
+                </tr>`,
+            )}
+          </thead>
+          <tbody>
+            ${rows.length
+              ? map(rows, (row, index) => this.renderRow(row, index))
+              : html`<tr>
+                  <td colspan=${colspan}>
+                    <slot name="empty" part="empty" class="empty">
+                      ${this.localeController.translate(
+                        this.loading ? 'loading' : 'noData',
+                      )}
+                    </slot>
+                  </td>
+                </tr>`}
+          </tbody>
+        </table>
+      </div>
+      ${when(this.pageSize, () => this.renderFooter())}`;
+  }
+
+  /**
+   * 单元格的对齐方式。未指定时，数字为右对齐，其他为左对齐
+   */
+  private getAlign(column: Column): 'start' | 'center' | 'end' {
+    if (column.align) {
+      return column.align;
+    }
+
+    return this.rows.length && isNumber(this.rows[0][column.key])
+      ? 'end'
+      : 'start';
+  }
+
+  private getSortedRows(): Row[] {
+    const column = this.columns.find((column) => column.key === this.sortKey);
+
+    if (this.manualSort || !column?.sortable) {
+      return this.rows;
+    }
+
+    const compare =
+      column.sorter ??
+      ((a: Row, b: Row) => {
+        const valueA = a[column.key];
+        const valueB = b[column.key];
+
+        if (isNumber(valueA) && isNumber(valueB)) {
+          return valueA - valueB;
+        }
+
+        return String(valueA ?? '').localeCompare(String(valueB ?? ''));
+      });
+
+    const rows = [...this.rows].sort(compare);
+    return this.sortOrder === 'desc' ? rows.reverse() : rows;
+  }
+
+  private renderHeaderCell(column: Column): TemplateResult {
+    const isSorted = column.sortable && this.sortKey === column.key;
+    const align = this.getAlign(column);
+
+    return html`<th
+      part="header-cell"
+      class=${classMap({
+        'header-cell': true,
+        sortable: !!column.sortable,
+        sorted: !!isSorted,
+        [`align-${align}`]: true,
+      })}
+      style=${styleMap({ width: column.width })}
+      aria-sort=${isSorted
+        ? this.sortOrder === 'asc'
+          ? 'ascending'
+          : 'descending'
+        : nothing}
+      tabindex=${column.sortable ? '0' : nothing}
+      @click=${() => this.onHeaderClick(column)}
+      @keydown=${(event: KeyboardEvent) => this.onHeaderKeyDown(event, column)}
+    >
+      <div class="header-cell-inner">
+        ${when(
+          column.sortable,
+          () =>
+            html`<mdui-icon-arrow-upward
+              part="sort-icon"
+              class=${classMap({
+                'sort-icon': true,
+                desc: !!isSorted && this.sortOrder === 'desc',
+              })}
+            ></mdui-icon-arrow-upward>`,
+        )}
+        <span>${column.title}</span>
+      </div>
+    </th>`;
+  }
+
+  private renderRow(row: Row, index: number): TemplateResult {
+    const key = row[this.rowKey];
+    const selected = this.selectedKeys.includes(key);
+
+    return html`<tr
+      part="row"
+      class=${classMap({ row: true, selected })}
+      aria-selected=${this.selectable ? String(selected) : nothing}
+    >
+      ${when(
+        this.selectable,
+        () =>
+          html`<td class="checkbox-cell">
+            <mdui-checkbox
+              part="checkbox"
+              .checked=${selected}
+              @input=${this.onCheckboxInput}
+              @change=${(event: Event) => this.onRowSelectChange(event, key)}
+            ></mdui-checkbox>
+          </td>`,
+      )}
+      ${map(
+        this.columns,
+        (column) =>
+          html`<td
+            part="cell"
+            class=${classMap({
+              cell: true,
+              [`align-${this.getAlign(column)}`]: true,
+            })}
+          >
+            ${isFunction(column.render)
+              ? column.render(row, index)
+              : row[column.key] ?? ''}
+          </td>`,
+      )}
+    </tr>`;
+  }
+
+  private renderFooter(): TemplateResult {
+    return html`<mdui-pagination
+      part="footer"
+      class="footer"
+      variant="compact"
+      .total=${this.totalRows}
+      .pageSize=${this.pageSize}
+      .page=${this.page}
+      @change=${this.onPageChange}
+    ></mdui-pagination>`;
+  }
+
+  /**
+   * 选择列中的复选框的事件会冒泡到组件外，与表单字段的事件无法区分，因此阻止其冒泡，仅触发 selection-change 事件
+   */
+  private onCheckboxInput(event: Event) {
+    event.stopPropagation();
+  }
+
+  private onRowSelectChange(event: Event, key: unknown) {
+    event.stopPropagation();
+    this.selectedKeys = this.selectedKeys.includes(key)
+      ? this.selectedKeys.filter((selectedKey) => selectedKey !== key)
+      : [...this.selectedKeys, key];
+    emit(this, 'selection-change');
+  }
+
+  private onPageChange(event: Event) {
+    event.stopPropagation();
+    this.page = (event.target as Pagination).page;
+    emit(this, 'page-change');
+  }
+
+  /**
+   * 点击表头的复选框时，若当前页的行已全部选中，则取消选中当前页的行；否则选中当前页的所有行
+   */
+  private onSelectAllChange(event: Event) {
+    event.stopPropagation();
+
+    const pageKeys = this.pageRows.map((row) => row[this.rowKey]);
+    const allSelected = pageKeys.every((key) =>
+      this.selectedKeys.includes(key),
+    );
+
+    this.selectedKeys = allSelected
+      ? this.selectedKeys.filter((key) => !pageKeys.includes(key))
+      : [
+          ...this.selectedKeys,
+          ...pageKeys.filter((key) => !this.selectedKeys.includes(key)),
+        ];
+    emit(this, 'selection-change');
+  }
+
+  /**
+   * 点击可排序的表头时，依次切换为升序、降序
+   */
+  private onHeaderClick(column: Column) {
+    if (!column.sortable) {
+      return;
+    }
+
+    if (this.sortKey === column.key) {
+      this.sortOrder = this.sortOrder === 'asc' ? 'desc' : 'asc';
+    } else {
+      this.sortKey = column.key;
+      this.sortOrder = 'asc';
+    }
+
+    emit(this, 'sort-change');
+  }
+
+  private onHeaderKeyDown(event: KeyboardEvent, column: Column) {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.onHeaderClick(column);
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-data-table': DataTable;
+  }
+}
@@ -0,0 +1 @@
+export * from './date-picker/index.js';
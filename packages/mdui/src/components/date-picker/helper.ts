@@ -0,0 +1,159 @@
+/**
+ * 日期选择器中用到的日期处理函数
+ *
+ * 组件中的日期值统一使用 `YYYY-MM-DD` 格式的字符串，与 `<input type="date">` 的值格式一致
+ */
+
+/**
+ * 把 `YYYY-MM-DD` 格式的字符串解析为本地时区的 Date 对象。格式不正确时返回 null
+ * @param value
+ */
+export const parseDate = (value?: string | null): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const matches = /^(\d{4,})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!matches) {
+    return null;
+  }
+
+  const [, year, month, day] = matches.map((item) => parseInt(item, 10));
+  const date = new Date(year, month - 1, day);
+
+  // 排除 2023-02-30 这类不存在的日期
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+
+  date.setFullYear(year);
+
+  return date;
+};
+
+/**
+ * 把 Date 对象格式化为 `YYYY-MM-DD` 格式的字符串
+ * @param date
+ */
+export const formatDate = (date: Date): string => {
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, '0');
+
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate(),
+  )}`;
+};
+
+/**
+ * 获取仅包含年月日的 Date 对象（时分秒都为 0）
+ * @param date
+ */
+export const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * 比较两个日期（仅比较年月日）。a 在 b 之前返回负数；相同返回 0；a 在 b 之后返回正数
+ * @param a
+ * @param b
+ */
+export const compareDate = (a: Date, b: Date): number => {
+  return startOfDay(a).getTime() - startOfDay(b).getTime();
+};
+
+/**
+ * 判断两个日期是否为同一天
+ * @param a
+ * @param b
+ */
+export const isSameDay = (a?: Date | null, b?: Date | null): boolean => {
+  return !!a && !!b && compareDate(a, b) === 0;
+};
+
+/**
+ * 在指定日期上增加天数
+ * @param date
+ * @param days 可以为负数
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = startOfDay(date);
+  result.setDate(result.getDate() + days);
+
+  return result;
+};
+
+/**
+ * 在指定日期上增加月数。若目标月份中不存在该天（如 1 月 31 日加一个月），则取目标月份的最后一天
+ * @param date
+ * @param months 可以为负数
+ */
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = getDaysInMonth(result.getFullYear(), result.getMonth());
+  result.setDate(Math.min(date.getDate(), lastDay));
+
+  return result;
+};
+
+/**
+ * 获取指定月份的天数
+ * @param year
+ * @param month 从 0 开始
+ */
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+/**
+ * 获取日历中指定月份需要显示的所有日期，按周分组。每周包含 7 项，不属于该月份的日期为 null
+ * @param year
+ * @param month 从 0 开始
+ * @param firstDayOfWeek 每周的第一天，0 表示星期日，1 表示星期一，以此类推
+ */
+export const getCalendarWeeks = (
+  year: number,
+  month: number,
+  firstDayOfWeek: number,
+): (Date | null)[][] => {
+  const firstDay = new Date(year, month, 1);
+  const leading = (firstDay.getDay() - firstDayOfWeek + 7) % 7;
+  const daysInMonth = getDaysInMonth(year, month);
+
+  const days: (Date | null)[] = [
+    ...Array.from({ length: leading }, () => null),
+    ...Array.from(
+      { length: daysInMonth },
+      (_, index) => new Date(year, month, index + 1),
+    ),
+  ];
+
+  while (days.length % 7) {
+    days.push(null);
+  }
+
+  return Array.from({ length: days.length / 7 }, (_, index) =>
+    days.slice(index * 7, index * 7 + 7),
+  );
+};
+
+/**
+ * 把日期限制在指定范围内
+ * @param date
+ * @param min
+ * @param max
+ */
+export const clampDate = (
+  date: Date,
+  min?: Date | null,
+  max?: Date | null,
+): Date => {
+  if (min && compareDate(date, min) < 0) {
+    return startOfDay(min);
+  }
+
+  if (max && compareDate(date, max) > 0) {
+    return startOfDay(max);
+  }
+
+  return date;
+};
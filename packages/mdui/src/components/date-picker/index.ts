@@ -0,0 +1,1099 @@
+import { html, LitElement, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import { map } from 'lit/directives/map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { when } from 'lit/directives/when.js';
+import { isString } from '@mdui/jq/shared/helper.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
+import { FormController, formResets } from '@mdui/shared/controllers/form.js';
+import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { defaultValue } from '@mdui/shared/decorators/default-value.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import '@mdui/shared/icons/arrow-drop-down.js';
+import '@mdui/shared/icons/calendar-today--outlined.js';
+import '@mdui/shared/icons/chevron-left.js';
+import '@mdui/shared/icons/chevron-right.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
+import '../button-icon.js';
+import '../button.js';
+import '../dialog.js';
+import '../dropdown.js';
+import '../text-field.js';
+import {
+  addDays,
+  addMonths,
+  clampDate,
+  compareDate,
+  formatDate,
+  getCalendarWeeks,
+  getDaysInMonth,
+  isSameDay,
+  parseDate,
+  startOfDay,
+} from './helper.js';
+import { style } from './style.js';
+import type { TextField } from '../text-field.js';
+import type { FormControl } from '@mdui/jq/shared/form.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * @summary 日期选择器组件
+ *
+ * ```html
+ * <mdui-date-picker label="Date"></mdui-date-picker>
+ * ```
+ *
+ * @event focus - 获得焦点时触发
+ * @event blur - 失去焦点时触发
+ * @event change - 选中的日期变更时触发
+ * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
+ * @event clear - 在点击由 `clearable` 属性生成的清空按钮时触发。可以通过调用 `event.preventDefault()` 阻止清空
+ * @event open - 日期选择面板开始打开时触发。可以通过调用 `event.preventDefault()` 阻止打开
+ * @event opened - 日期选择面板打开动画完成时触发
+ * @event close - 日期选择面板开始关闭时触发。可以通过调用 `event.preventDefault()` 阻止关闭
+ * @event closed - 日期选择面板关闭动画完成时触发
+ *
+ * @slot icon - 左侧图标
+ * @slot end-icon - 右侧图标
+ * @slot error-icon - 验证失败状态的右侧图标
+ * @slot clear-button - 清空按钮
+ * @slot clear-icon - 清空按钮中的图标
+ * @slot helper - 底部的帮助文本
+ *
+ * @csspart text-field - 文本框，即 [`<mdui-text-field>`](/docs/2/components/text-field) 元素
+ * @csspart panel - 非模态日期选择器的下拉面板
+ * @csspart dialog - 模态日期选择器的对话框，即 [`<mdui-dialog>`](/docs/2/components/dialog) 元素
+ * @csspart headline - 模态日期选择器顶部的标题
+ * @csspart calendar - 日历容器
+ * @csspart calendar-header - 日历顶部的月份、年份切换区域
+ * @csspart weekday - 星期名称
+ * @csspart day - 日期按钮
+ * @csspart month - 月份按钮
+ * @csspart year - 年份按钮
+ * @csspart action - 底部操作按钮
+ */
+@customElement('mdui-date-picker')
+export class DatePicker
+  extends ValidatorMixin(FocusableMixin(LitElement))
+  implements FormControl
+{
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 文本框形状。可选值为：
+   *
+   * * `filled`：带背景色的文本框，视觉效果较强
+   * * `outlined`：带边框的文本框，视觉效果较弱
+   */
+  @property({ reflect: true })
+  public variant:
+    | /*带背景色的文本框，视觉效果较强*/ 'filled'
+    | /*带边框的文本框，视觉效果较弱*/ 'outlined' = 'filled';
+
+  /**
+   * 是否为模态日期选择器。默认在文本框下方的下拉面板中选择日期；设置该属性后，将在对话框中选择日期，且需要点击确认按钮后才会修改值
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public modal = false;
+
+  /**
+   * 是否选择日期范围。设置该属性后，`value` 为包含开始日期和结束日期的数组
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public range = false;
+
+  /**
+   * 是否打开日期选择面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public open = false;
+
+  /**
+   * 日期选择器名称，将与表单数据一起提交
+   */
+  @property({ reflect: true })
+  public name = '';
+
+  /**
+   * 日期选择器的值，格式为 `YYYY-MM-DD`，将与表单数据一起提交。
+   *
+   * 若未指定 `range` 属性，则该值为字符串；否则，该值为包含开始日期和结束日期的数组。
+   * HTML 属性只能设置字符串值，选择日期范围时可以使用 `YYYY-MM-DD/YYYY-MM-DD` 格式的字符串；也可以通过 JavaScript 设置数组值
+   */
+  @property()
+  public value: string | string[] = '';
+
+  /**
+   * 默认值。在重置表单时，将重置为该默认值。该属性只能通过 JavaScript 属性设置
+   */
+  @defaultValue()
+  public defaultValue: string | string[] = '';
+
+  /**
+   * 允许选择的最小日期，格式为 `YYYY-MM-DD`
+   */
+  @property({ reflect: true })
+  public min?: string;
+
+  /**
+   * 允许选择的最大日期，格式为 `YYYY-MM-DD`
+   */
+  @property({ reflect: true })
+  public max?: string;
+
+  /**
+   * 每周的第一天。`0` 表示星期日，`1` 表示星期一，以此类推。默认为 `0`
+   */
+  @property({ type: Number, reflect: true, attribute: 'first-day-of-week' })
+  public firstDayOfWeek = 0;
+
+  /**
+   * 用于判断指定日期是否禁止选择的函数。函数参数为日期对象，返回 `true` 表示禁止选择该日期
+   */
+  @property({ attribute: false })
+  public isDateDisabled?: (date: Date) => boolean;
+
+  /**
+   * 标签文本
+   */
+  @property({ reflect: true })
+  public label?: string;
+
+  /**
+   * 提示文本
+   */
+  @property({ reflect: true })
+  public placeholder?: string;
+
+  /**
+   * 底部的帮助文本。也可以通过 `slot="helper"` 设置
+   */
+  @property({ reflect: true })
+  public helper?: string;
+
+  /**
+   * 模态日期选择器顶部的标题文本。默认为“选择日期”，并使用当前语言的翻译
+   */
+  @property({ reflect: true })
+  public headline?: string;
+
+  /**
+   * 模态日期选择器中，确认按钮的文本。默认为“确定”，并使用当前语言的翻译
+   */
+  @property({ reflect: true, attribute: 'confirm-text' })
+  public confirmText?: string;
+
+  /**
+   * 模态日期选择器中，取消按钮的文本。默认为“取消”，并使用当前语言的翻译
+   */
+  @property({ reflect: true, attribute: 'cancel-text' })
+  public cancelText?: string;
+
+  /**
+   * 是否可清空
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public clearable = false;
+
+  /**
+   * 可清空时，显示在右侧的清空按钮的 Material Icons 图标名。也可以通过 `slot="clear-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'clear-icon' })
+  public clearIcon?: string;
+
+  /**
+   * 前缀图标的 Material Icons 图标名。也可以通过 `slot="icon"` 设置
+   */
+  @property({ reflect: true })
+  public icon?: string;
+
+  /**
+   * 后缀图标的 Material Icons 图标名。默认为日历图标。也可以通过 `slot="end-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'end-icon' })
+  public endIcon?: string;
+
+  /**
+   * 表单字段验证失败时，显示在右侧的 Material Icons 图标名。也可以通过 `slot="error-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'error-icon' })
+  public errorIcon?: string;
+
+  /**
+   * 关联的 `form` 元素。此属性值必须为同一页面中的一个 `<form>` 元素的 `id` 属性。
+   *
+   * 如果此属性未指定，则元素必须是 `form` 元素的后代。利用此属性，你可以将元素放置在页面中的任何位置，而不仅仅是作为 `form` 元素的后代。
+   */
+  @property({ reflect: true })
+  public form?: string;
+
+  /**
+   * 是否为只读
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public readonly = false;
+
+  /**
+   * 是否为禁用状态
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public disabled = false;
+
+  /**
+   * 提交表单时，是否必须填写该字段
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public required = false;
+
+  /**
+   * 是否验证未通过
+   *
+   * 该验证为浏览器原生验证 API，基于 `required`、`min`、`max` 属性的验证结果
+   */
+  @state()
+  private invalid = false;
+
+  /**
+   * 日历当前显示的视图：日期、月份、年份
+   */
+  @state()
+  private view: 'day' | 'month' | 'year' = 'day';
+
+  /**
+   * 日历中当前获得焦点的日期，日历显示的是该日期所在的月份
+   */
+  @state()
+  private focusedDate = startOfDay(new Date());
+
+  /**
+   * 在日历中已选中，但还未确认的日期
+   */
+  @state()
+  private pendingValue: string[] = [];
+
+  private readonly textFieldRef: Ref<TextField> = createRef();
+  private readonly hiddenInputRef: Ref<HTMLInputElement> = createRef();
+  private readonly hiddenEndInputRef: Ref<HTMLInputElement> = createRef();
+  private readonly calendarRef: Ref<HTMLElement> = createRef();
+  private readonly formController = new FormController(this);
+  private readonly localeController = new LocaleController(this);
+  private readonly directionController = new DirectionController(this);
+  private readonly hasSlotController = new HasSlotController(
+    this,
+    'icon',
+    'end-icon',
+    'error-icon',
+    'clear-button',
+    'clear-icon',
+    'helper',
+  );
+
+  /**
+   * 表单验证状态对象
+   */
+  public get validity(): ValidityState {
+    return this.getInvalidInput().validity;
+  }
+
+  /**
+   * 表单验证的错误提示信息
+   */
+  public get validationMessage(): string {
+    return this.getInvalidInput().validationMessage;
+  }
+
+  /**
+   * 获取当前值对应的 `Date` 对象。选择日期范围时，为开始日期对应的 `Date` 对象；未选择日期时，为 `null`
+   */
+  public get valueAsDate(): Date | null {
+    return parseDate(this.getValueArray()[0]);
+  }
+
+  protected override get focusElement(): HTMLElement {
+    return this.textFieldRef.value!;
+  }
+
+  protected override get focusDisabled(): boolean {
+    return this.disabled;
+  }
+
+  private get minDate(): Date | null {
+    return parseDate(this.min);
+  }
+
+  private get maxDate(): Date | null {
+    return parseDate(this.max);
+  }
+
+  private get hiddenInputs(): HTMLInputElement[] {
+    return [this.hiddenInputRef.value, this.hiddenEndInputRef.value].filter(
+      (input): input is HTMLInputElement => !!input,
+    );
+  }
+
+  @watch('disabled', true)
+  private onDisabledChange() {
+    // 禁用状态始终为验证通过，所以 disabled 变更时需要重新校验
+    this.hiddenInputs.forEach((input) => (input.disabled = this.disabled));
+    this.invalid = !this.hiddenInputs.every((input) => input.checkValidity());
+  }
+
+  @watch('value', true)
+  private async onValueChange() {
+    // 选择日期范围时，通过 HTML 属性设置的 `YYYY-MM-DD/YYYY-MM-DD` 格式的字符串需要转换为数组。转换后会再次触发该函数
+    if (this.range && isString(this.value)) {
+      this.value = this.splitRangeValue(this.value);
+      return;
+    }
+
+    await this.updateComplete;
+
+    // reset 引起的值变更，不执行验证；直接修改值引起的变更，需要进行验证
+    const form = this.formController.getForm();
+    if (form && formResets.get(form)?.has(this)) {
+      this.invalid = false;
+      formResets.get(form)!.delete(this);
+    } else {
+      this.invalid = !this.hiddenInputs.every((input) => input.checkValidity());
+      this.formController.requestValidate();
+    }
+  }
+
+  @watch('open')
+  private onOpenChange() {
+    if (!this.open) {
+      return;
+    }
+
+    // 每次打开时，日历都从已选中的日期开始显示
+    const selectedDate = this.valueAsDate;
+    this.pendingValue = this.getValueArray();
+    this.focusedDate = clampDate(
+      selectedDate ?? startOfDay(new Date()),
+      this.minDate,
+      this.maxDate,
+    );
+    this.view = 'day';
+  }
+
+  public override connectedCallback(): void {
+    super.connectedCallback();
+
+    if (this.range && isString(this.value)) {
+      this.value = this.splitRangeValue(this.value);
+    }
+
+    // defaultValue 为通过 value 属性设置的初始值，仅在选择日期范围时转换为数组
+    if (this.range && isString(this.defaultValue)) {
+      this.defaultValue = this.splitRangeValue(this.defaultValue);
+    }
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`
+   */
+  public checkValidity(): boolean {
+    const valid = this.hiddenInputs.every((input) => input.checkValidity());
+
+    if (!valid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+    }
+
+    return valid;
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`。
+   *
+   * 验证未通过时，还将在组件上显示未通过的提示。
+   */
+  public reportValidity(): boolean {
+    this.invalid = !this.hiddenInputs.every((input) => input.reportValidity());
+
+    if (this.invalid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+
+      this.focus();
+    }
+
+    return !this.invalid;
+  }
+
+  protected override applyCustomValidity(message: string): void {
+    this.hiddenInputRef.value!.setCustomValidity(message);
+    this.invalid = !this.hiddenInputs.every((input) => input.checkValidity());
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+
+    this.onOpenChange();
+  }
+
+  protected override render(): TemplateResult {
+    return html`${this.renderHiddenInputs()}
+    ${this.modal ? this.renderModal() : this.renderDocked()}`;
+  }
+
+  /**
+   * 获取值组成的数组。未选择日期时为空数组
+   */
+  private getValueArray(): string[] {
+    const value = Array.isArray(this.value)
+      ? this.value
+      : this.value
+      ? [this.value]
+      : [];
+
+    return value.filter((item) => !!item);
+  }
+
+  /**
+   * 把 `YYYY-MM-DD/YYYY-MM-DD` 格式的字符串转换为包含开始日期和结束日期的数组
+   * @param value
+   */
+  private splitRangeValue(value: string): string[] {
+    return value ? value.split('/') : [];
+  }
+
+  /**
+   * 获取第一个验证未通过的隐藏输入框。都验证通过时，返回第一个隐藏输入框
+   */
+  private getInvalidInput(): HTMLInputElement {
+    return (
+      this.hiddenInputs.find((input) => !input.validity.valid) ??
+      this.hiddenInputRef.value!
+    );
+  }
+
+  /**
+   * 日期是否禁止选择
+   */
+  private isDisabledDate(date: Date): boolean {
+    const minDate = this.minDate;
+    const maxDate = this.maxDate;
+
+    return (
+      (!!minDate && compareDate(date, minDate) < 0) ||
+      (!!maxDate && compareDate(date, maxDate) > 0) ||
+      !!this.isDateDisabled?.(date)
+    );
+  }
+
+  /**
+   * 已选择的日期是否完整。选择日期范围时，需要同时选择了开始日期和结束日期
+   */
+  private isPendingComplete(): boolean {
+    return this.pendingValue.length === (this.range ? 2 : 1);
+  }
+
+  private getDateFormat(options: Intl.DateTimeFormatOptions) {
+    return new Intl.DateTimeFormat(this.localeController.locale, options);
+  }
+
+  /**
+   * 获取文本框中显示的文本
+   */
+  private getDisplayValue(): string {
+    const value = this.getValueArray();
+
+    if (!this.range) {
+      return value[0] ?? '';
+    }
+
+    return value.length ? `${value[0]} – ${value[1] ?? ''}` : '';
+  }
+
+  /**
+   * 更新日历中获得焦点的日期，并把焦点移动到该日期上
+   */
+  private async moveFocusedDate(date: Date) {
+    this.focusedDate = clampDate(date, this.minDate, this.maxDate);
+    await this.updateComplete;
+    this.focusDay();
+  }
+
+  private focusDay() {
+    this.calendarRef.value
+      ?.querySelector<HTMLElement>('.day[tabindex="0"]')
+      ?.focus();
+  }
+
+  /**
+   * 把已选择的日期设为组件的值，并关闭日期选择面板
+   */
+  private commit() {
+    const pendingValue = [...this.pendingValue];
+
+    // 选择日期范围时，若仅选择了开始日期，则结束日期与开始日期相同
+    if (this.range && pendingValue.length === 1) {
+      pendingValue.push(pendingValue[0]);
+    }
+
+    const value = this.range ? pendingValue : pendingValue[0] ?? '';
+    const changed = this.range
+      ? (value as string[]).join('/') !== this.getValueArray().join('/')
+      : value !== this.value;
+
+    this.value = value;
+    this.open = false;
+
+    if (changed) {
+      emit(this, 'change');
+    }
+  }
+
+  private onTextFieldClick() {
+    if (this.modal && !this.readonly && !this.disabled) {
+      this.open = true;
+    }
+  }
+
+  /**
+   * 焦点在文本框上时，按下回车键或向下方向键，打开日期选择面板
+   */
+  private onTextFieldKeyDown(event: KeyboardEvent) {
+    if (this.readonly || this.disabled) {
+      return;
+    }
+
+    if (event.key === 'Enter' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.open = true;
+    }
+  }
+
+  private onClear() {
+    this.value = this.range ? [] : '';
+    this.pendingValue = [];
+    emit(this, 'change');
+  }
+
+  private onPanelOpen() {
+    this.open = true;
+  }
+
+  private onPanelOpened() {
+    this.focusDay();
+  }
+
+  private onPanelClose(event: Event) {
+    // 事件可能来自面板内的其他组件
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
+    this.open = false;
+
+    // 如果焦点在组件内的元素上，则焦点回到组件上
+    if (
+      this.contains(document.activeElement) ||
+      this.contains(document.activeElement?.assignedSlot ?? null)
+    ) {
+      setTimeout(() => {
+        this.focus();
+      });
+    }
+  }
+
+  private onDayClick(date: Date) {
+    const value = formatDate(date);
+    this.focusedDate = date;
+
+    if (!this.range) {
+      this.pendingValue = [value];
+    } else {
+      const [start, end] = this.pendingValue;
+
+      // 已选择了开始日期时，若点击的日期在开始日期之后，则作为结束日期；否则重新选择开始日期
+      this.pendingValue =
+        start && !end && value >= start ? [start, value] : [value];
+    }
+
+    if (!this.modal && this.isPendingComplete()) {
+      this.commit();
+    }
+  }
+
+  private onMonthClick(month: number) {
+    const year = this.focusedDate.getFullYear();
+    const day = Math.min(
+      this.focusedDate.getDate(),
+      getDaysInMonth(year, month),
+    );
+
+    this.view = 'day';
+    this.moveFocusedDate(new Date(year, month, day));
+  }
+
+  private onYearClick(year: number) {
+    const month = this.focusedDate.getMonth();
+    const day = Math.min(
+      this.focusedDate.getDate(),
+      getDaysInMonth(year, month),
+    );
+
+    this.view = 'day';
+    this.moveFocusedDate(new Date(year, month, day));
+  }
+
+  private async toggleView(view: 'month' | 'year') {
+    this.view = this.view === view ? 'day' : view;
+
+    if (this.view === 'year') {
+      // 把当前年份滚动到年份列表的中间
+      await this.updateComplete;
+      const years =
+        this.calendarRef.value!.querySelector<HTMLElement>('.years')!;
+      const current = years.querySelector<HTMLElement>('.year.current');
+      if (current) {
+        years.scrollTop =
+          current.offsetTop - years.offsetTop - years.clientHeight / 2;
+      }
+    }
+  }
+
+  private onCalendarKeyDown(event: KeyboardEvent) {
+    if (this.view !== 'day') {
+      return;
+    }
+
+    const date = this.focusedDate;
+    const dayOfWeek = (date.getDay() - this.firstDayOfWeek + 7) % 7;
+    // 从右到左布局时，日期从右往左排列，左右方向键的作用需要互换
+    const step = this.directionController.rtl ? -1 : 1;
+    const keyMap: Record<string, () => Date> = {
+      ArrowLeft: () => addDays(date, -step),
+      ArrowRight: () => addDays(date, step),
+      ArrowUp: () => addDays(date, -7),
+      ArrowDown: () => addDays(date, 7),
+      Home: () => addDays(date, -dayOfWeek),
+      End: () => addDays(date, 6 - dayOfWeek),
+      PageUp: () => addMonths(date, event.shiftKey ? -12 : -1),
+      PageDown: () => addMonths(date, event.shiftKey ? 12 : 1),
+    };
+
+    if (keyMap[event.key]) {
+      event.preventDefault();
+      this.moveFocusedDate(keyMap[event.key]());
+    }
+  }
+
+  private onConfirm() {
+    this.commit();
+  }
+
+  private onCancel() {
+    this.open = false;
+  }
+
+  private renderHiddenInputs(): TemplateResult {
+    const [start = '', end = ''] = this.getValueArray();
+
+    return html`<input
+        ${ref(this.hiddenInputRef)}
+        type="date"
+        class="hidden-input"
+        .value=${live(start)}
+        min=${ifDefined(this.min)}
+        max=${ifDefined(this.max)}
+        .required=${this.required}
+        .disabled=${this.disabled}
+        tabindex="-1"
+      />${when(
+        this.range,
+        () =>
+          html`<input
+            ${ref(this.hiddenEndInputRef)}
+            type="date"
+            class="hidden-input"
+            .value=${live(end)}
+            min=${ifDefined(start || this.min)}
+            max=${ifDefined(this.max)}
+            .required=${this.required}
+            .disabled=${this.disabled}
+            tabindex="-1"
+          />`,
+      )}`;
+  }
+
+  private renderTextField(slot?: string): TemplateResult {
+    const hasEndIcon =
+      !!this.endIcon || this.hasSlotController.test('end-icon');
+
+    return html`<mdui-text-field
+      ${ref(this.textFieldRef)}
+      slot=${ifDefined(slot)}
+      part="text-field"
+      class="text-field"
+      readonly
+      .readonlyButClearable=${true}
+      .variant=${this.variant}
+      .value=${this.getDisplayValue()}
+      .label=${this.label}
+      .placeholder=${this.placeholder}
+      .helper=${this.helper}
+      .error=${this.getInvalidInput()?.validationMessage}
+      .clearable=${this.clearable && !this.readonly}
+      .clearIcon=${this.clearIcon}
+      .icon=${this.icon}
+      .endIcon=${this.endIcon}
+      .errorIcon=${this.errorIcon}
+      .form=${this.form}
+      .disabled=${this.disabled}
+      .required=${this.required}
+      .invalidStyle=${this.invalid}
+      @clear=${this.onClear}
+      @change=${(e: Event) => e.stopPropagation()}
+      @click=${this.onTextFieldClick}
+      @keydown=${this.onTextFieldKeyDown}
+    >
+      ${map(
+        [
+          'icon',
+          'end-icon',
+          'error-icon',
+          'clear-button',
+          'clear-icon',
+          'helper',
+        ],
+        (slotName) =>
+          this.hasSlotController.test(slotName)
+            ? html`<slot name=${slotName} slot=${slotName}></slot>`
+            : nothing,
+      )}
+      ${when(
+        !hasEndIcon,
+        () =>
+          html`<mdui-icon-calendar-today--outlined
+            slot="end-icon"
+          ></mdui-icon-calendar-today--outlined>`,
+      )}
+    </mdui-text-field>`;
+  }
+
+  private renderDocked(): TemplateResult {
+    return html`<mdui-dropdown
+      .open=${this.open}
+      .disabled=${this.readonly || this.disabled}
+      @open=${this.onPanelOpen}
+      @opened=${this.onPanelOpened}
+      @close=${this.onPanelClose}
+    >
+      ${this.renderTextField('trigger')}
+      <div part="panel" class="panel">
+        ${this.renderCalendar()} ${when(this.range, () => this.renderActions())}
+      </div>
+    </mdui-dropdown>`;
+  }
+
+  private renderModal(): TemplateResult {
+    const formatter = this.getDateFormat({
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+    const headline = this.pendingValue
+      .map((value) => formatter.format(parseDate(value)!))
+      .join(' – ');
+
+    return html`${this.renderTextField()}
+      <mdui-dialog
+        part="dialog"
+        class="dialog"
+        .open=${this.open}
+        .closeOnEsc=${true}
+        .closeOnOverlayClick=${true}
+        @opened=${this.onPanelOpened}
+        @close=${this.onPanelClose}
+      >
+        <div slot="header" class="header">
+          <div class="supporting-text">
+            ${this.headline ?? this.localeController.translate('selectDate')}
+          </div>
+          <div part="headline" class="headline">${headline}</div>
+        </div>
+        ${this.renderCalendar()} ${this.renderActions('action')}
+      </mdui-dialog>`;
+  }
+
+  private renderActions(slot?: string): TemplateResult {
+    return html`<div slot=${ifDefined(slot)} part="action" class="action">
+      <mdui-button variant="text" @click=${this.onCancel}>
+        ${this.cancelText ?? this.localeController.translate('cancel')}
+      </mdui-button>
+      <mdui-button
+        variant="text"
+        .disabled=${!this.pendingValue.length}
+        @click=${this.onConfirm}
+      >
+        ${this.confirmText ?? this.localeController.translate('confirm')}
+      </mdui-button>
+    </div>`;
+  }
+
+  private renderCalendar(): TemplateResult {
+    const year = this.focusedDate.getFullYear();
+    const month = this.focusedDate.getMonth();
+    const minDate = this.minDate;
+    const maxDate = this.maxDate;
+    const hasPrev =
+      !minDate || compareDate(new Date(year, month, 0), minDate) >= 0;
+    const hasNext =
+      !maxDate || compareDate(new Date(year, month + 1, 1), maxDate) <= 0;
+    // 从右到左布局时，上一月、下一月按钮的图标需要左右互换
+    const rtl = this.directionController.rtl;
+
+    return html`<div
+      ${ref(this.calendarRef)}
+      part="calendar"
+      class="calendar"
+      @keydown=${this.onCalendarKeyDown}
+    >
+      <div part="calendar-header" class="calendar-header">
+        <mdui-button
+          variant="text"
+          class="view-button ${classMap({ active: this.view === 'month' })}"
+          @click=${() => this.toggleView('month')}
+        >
+          ${this.getDateFormat({ month: 'long' }).format(this.focusedDate)}
+          <mdui-icon-arrow-drop-down
+            slot="end-icon"
+          ></mdui-icon-arrow-drop-down>
+        </mdui-button>
+        <mdui-button
+          variant="text"
+          class="view-button ${classMap({ active: this.view === 'year' })}"
+          @click=${() => this.toggleView('year')}
+        >
+          ${this.getDateFormat({ year: 'numeric' }).format(this.focusedDate)}
+          <mdui-icon-arrow-drop-down
+            slot="end-icon"
+          ></mdui-icon-arrow-drop-down>
+        </mdui-button>
+        ${when(
+          this.view === 'day',
+          () =>
+            html`<div class="navigation">
+              <mdui-button-icon
+                aria-label=${this.localeController.translate('previousMonth')}
+                .disabled=${!hasPrev}
+                @click=${() =>
+                  (this.focusedDate = clampDate(
+                    addMonths(this.focusedDate, -1),
+                    minDate,
+                    maxDate,
+                  ))}
+              >
+                ${rtl
+                  ? html`<mdui-icon-chevron-right></mdui-icon-chevron-right>`
+                  : html`<mdui-icon-chevron-left></mdui-icon-chevron-left>`}
+              </mdui-button-icon>
+              <mdui-button-icon
+                aria-label=${this.localeController.translate('nextMonth')}
+                .disabled=${!hasNext}
+                @click=${() =>
+                  (this.focusedDate = clampDate(
+                    addMonths(this.focusedDate, 1),
+                    minDate,
+                    maxDate,
+                  ))}
+              >
+                ${rtl
+                  ? html`<mdui-icon-chevron-left></mdui-icon-chevron-left>`
+                  : html`<mdui-icon-chevron-right></mdui-icon-chevron-right>`}
+              </mdui-button-icon>
+            </div>`,
+        )}
+      </div>
+      ${this.view === 'month'
+        ? this.renderMonths()
+        : this.view === 'year'
+        ? this.renderYears()
+        : this.renderDays()}
+    </div>`;
+  }
+
+  private renderDays(): TemplateResult {
+    const year = this.focusedDate.getFullYear();
+    const month = this.focusedDate.getMonth();
+    const weekdayFormatter = this.getDateFormat({ weekday: 'narrow' });
+    const labelFormatter = this.getDateFormat({ dateStyle: 'full' });
+
+    // 2023-01-01 为星期日，用于获取星期名称
+    const weekdays = Array.from({ length: 7 }, (_, index) =>
+      weekdayFormatter.format(
+        new Date(2023, 0, 1 + ((this.firstDayOfWeek + index) % 7)),
+      ),
+    );
+
+    const [start, end] = this.pendingValue.map((value) => parseDate(value));
+    const today = new Date();
+
+    const renderDay = (date: Date) => {
+      const isStart = isSameDay(date, start);
+      const isEnd = isSameDay(date, end);
+      const selected = isStart || isEnd;
+      const inRange =
+        !!start &&
+        !!end &&
+        compareDate(date, start) > 0 &&
+        compareDate(date, end) < 0;
+
+      return html`<button
+        type="button"
+        role="gridcell"
+        part="day"
+        class="day ${classMap({
+          today: isSameDay(date, today),
+          selected,
+          'in-range': inRange,
+          'range-start': this.range && !!end && isStart,
+          'range-end': this.range && isEnd,
+        })}"
+        tabindex=${isSameDay(date, this.focusedDate) ? 0 : -1}
+        aria-selected=${selected || inRange ? 'true' : 'false'}
+        aria-label=${labelFormatter.format(date)}
+        ?disabled=${this.isDisabledDate(date)}
+        @click=${() => this.onDayClick(date)}
+      >
+        ${date.getDate()}
+      </button>`;
+    };
+
+    return html`<div class="weekdays" aria-hidden="true">
+        ${map(
+          weekdays,
+          (weekday) =>
+            html`<span part="weekday" class="weekday">${weekday}</span>`,
+        )}
+      </div>
+      <div
+        class="days"
+        role="grid"
+        aria-label=${this.getDateFormat({
+          year: 'numeric',
+          month: 'long',
+        }).format(this.focusedDate)}
+      >
+        ${map(
+          getCalendarWeeks(year, month, this.firstDayOfWeek),
+          (week) =>
+            html`<div class="week" role="row">
+              ${map(week, (date) =>
+                date
+                  ? renderDay(date)
+                  : html`<span class="day-placeholder" role="gridcell"></span>`,
+              )}
+            </div>`,
+        )}
+      </div>`;
+  }
+
+  private renderMonths(): TemplateResult {
+    const year = this.focusedDate.getFullYear();
+    const formatter = this.getDateFormat({ month: 'long' });
+    const minDate = this.minDate;
+    const maxDate = this.maxDate;
+
+    return html`<div class="months">
+      ${map(Array.from({ length: 12 }), (_, month) => {
+        const disabled =
+          (!!minDate &&
+            compareDate(new Date(year, month + 1, 0), minDate) < 0) ||
+          (!!maxDate && compareDate(new Date(year, month, 1), maxDate) > 0);
+
+        return html`<mdui-button
+          part="month"
+          class="month ${classMap({
+            current: month === this.focusedDate.getMonth(),
+          })}"
+          variant=${month === this.focusedDate.getMonth() ? 'filled' : 'text'}
+          .disabled=${disabled}
+          @click=${() => this.onMonthClick(month)}
+        >
+          ${formatter.format(new Date(year, month, 1))}
+        </mdui-button>`;
+      })}
+    </div>`;
+  }
+
+  private renderYears(): TemplateResult {
+    const currentYear = this.focusedDate.getFullYear();
+    const thisYear = new Date().getFullYear();
+    const minYear = this.minDate?.getFullYear() ?? thisYear - 100;
+    const maxYear = this.maxDate?.getFullYear() ?? thisYear + 100;
+    const years = Array.from(
+      { length: Math.max(maxYear - minYear + 1, 0) },
+      (_, index) => minYear + index,
+    );
+
+    return html`<div class="years">
+      ${map(
+        years,
+        (year) =>
+          html`<mdui-button
+            part="year"
+            class="year ${classMap({ current: year === currentYear })}"
+            variant=${year === currentYear ? 'filled' : 'text'}
+            @click=${() => this.onYearClick(year)}
+          >
+            ${year}
+          </mdui-button>`,
+      )}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-date-picker': DatePicker;
+  }
+}
@@ -5,6 +5,7 @@ import {
   queryAssignedElements,
 } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
+import { map } from 'lit/directives/map.js';
 import { createRef, ref } from 'lit/directives/ref.js';
 import { when } from 'lit/directives/when.js';
 import { DefinedController } from '@mdui/shared/controllers/defined.js';
@@ -15,6 +16,7 @@ import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { Modal } from '@mdui/shared/helpers/modal.js';
 import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
+import { clamp } from '@mdui/shared/helpers/number.js';
 import { lockScreen, unlockScreen } from '@mdui/shared/helpers/scroll.js';
 import { nothingTemplate } from '@mdui/shared/helpers/template.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
@@ -24,6 +26,45 @@ import type { TopAppBar } from '../top-app-bar/top-app-bar.js';
 import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
 import type { Ref } from 'lit/directives/ref.js';
 
+type ResizeDirection =
+  | 'top'
+  | 'right'
+  | 'bottom'
+  | 'left'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+interface PointerState {
+  type: 'drag' | 'resize';
+  direction?: ResizeDirection;
+  startX: number;
+  startY: number;
+  rect: DOMRect;
+  offsetX: number;
+  offsetY: number;
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+const resizeDirections: ResizeDirection[] = [
+  'top',
+  'right',
+  'bottom',
+  'left',
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+];
+
+// 在这些元素上按下指针时，不触发拖拽移动
+const interactiveSelector =
+  'a,button,input,select,textarea,[contenteditable],mdui-button,mdui-button-icon,mdui-fab,mdui-chip,mdui-text-field,mdui-select';
+
 /**
  * @summary 对话框组件
  *
@@ -36,6 +77,10 @@ import type { Ref } from 'lit/directives/ref.js';
  * @event close - 在对话框关闭之前触发。可以通过调用 `event.preventDefault()` 阻止对话框关闭
  * @event closed - 在对话框关闭之后触发
  * @event overlay-click - 点击遮罩层时触发
+ * @event drag-start - 开始拖拽移动对话框时触发。可以通过调用 `event.preventDefault()` 阻止拖拽
+ * @event drag-end - 拖拽移动对话框结束时触发
+ * @event resize-start - 开始拖拽改变对话框大小时触发。可以通过调用 `event.preventDefault()` 阻止改变大小
+ * @event resize-end - 拖拽改变对话框大小结束时触发
  *
  * @slot header - 顶部元素，默认包含 `icon` slot 和 `headline` slot
  * @slot icon - 顶部图标
@@ -52,6 +97,7 @@ import type { Ref } from 'lit/directives/ref.js';
  * @csspart body - 对话框的 body 部分
  * @csspart description - 副文本部分，位于 body 中
  * @csspart action - 底部操作按钮
+ * @csspart resize-handle - 用于拖拽改变对话框大小的边框和四角
  *
  * @cssprop --shape-corner - 组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
  * @cssprop --z-index - 组件的 CSS 的 `z-index` 值
@@ -132,26 +178,48 @@ export class Dialog extends LitElement {
   public stackedActions = false;
 
   /**
-   * 是否可拖拽移动位置
+   * 是否可拖拽移动位置。按住对话框的顶部区域即可拖拽移动对话框，对话框始终会被限制在视口内
    */
-  /* @property({
+  @property({
     type: Boolean,
     reflect: true,
-    converter: (value: string | null): boolean =>
-      value !== null && value !== 'false',
+    converter: booleanConverter,
   })
-  public draggable = false; */
+  public override draggable = false;
 
   /**
-   * 是否可拖拽改变大小
+   * 是否可拖拽改变大小。拖拽对话框的边框或四角即可改变对话框的大小
    */
-  /* @property({
+  @property({
     type: Boolean,
     reflect: true,
-    converter: (value: string | null): boolean =>
-      value !== null && value !== 'false',
+    converter: booleanConverter,
   })
-  public resizable = false; */
+  public resizable = false;
+
+  /**
+   * 可拖拽改变大小时，对话框的最小宽度（单位为 `px`）。默认为对话框 CSS 的 `min-width` 值
+   */
+  @property({ type: Number, reflect: true, attribute: 'min-width' })
+  public minWidth?: number;
+
+  /**
+   * 可拖拽改变大小时，对话框的最小高度（单位为 `px`）。默认为对话框除去主体内容后的高度
+   */
+  @property({ type: Number, reflect: true, attribute: 'min-height' })
+  public minHeight?: number;
+
+  /**
+   * 可拖拽改变大小时，对话框的最大宽度（单位为 `px`）。默认仅受视口宽度限制
+   */
+  @property({ type: Number, reflect: true, attribute: 'max-width' })
+  public maxWidth?: number;
+
+  /**
+   * 可拖拽改变大小时，对话框的最大高度（单位为 `px`）。默认仅受视口高度限制
+   */
+  @property({ type: Number, reflect: true, attribute: 'max-height' })
+  public maxHeight?: number;
 
   /**
    * dialog 组件内包含的 mdui-top-app-bar 组件
@@ -167,6 +235,14 @@ export class Dialog extends LitElement {
   private originalTrigger!: HTMLElement;
 
   private modalHelper!: Modal;
+
+  // 拖拽移动或改变大小时，按下指针时的状态。未在拖拽时为 undefined
+  private pointerState?: PointerState;
+
+  // 对话框相对于默认居中位置的偏移量
+  private offsetX = 0;
+  private offsetY = 0;
+
   private readonly overlayRef: Ref<HTMLElement> = createRef();
   private readonly panelRef: Ref<HTMLElement> = createRef();
   private readonly bodyRef: Ref<HTMLElement> = createRef();
@@ -183,6 +259,13 @@ export class Dialog extends LitElement {
     relatedElements: ['mdui-top-app-bar'],
   });
 
+  public constructor() {
+    super();
+
+    this.onDocumentPointerMove = this.onDocumentPointerMove.bind(this);
+    this.onDocumentPointerUp = this.onDocumentPointerUp.bind(this);
+  }
+
   @watch('open')
   private async onOpenChange() {
     const hasUpdated = this.hasUpdated;
@@ -230,6 +313,9 @@ export class Dialog extends LitElement {
 
       this.style.display = 'flex';
 
+      // 每次打开时，都恢复到默认的位置和大小
+      this.resetPanelBounding();
+
       // 包含 <mdui-top-app-bar slot="header"> 时
       const topAppBarElements = this.topAppBarElements ?? [];
       if (topAppBarElements.length) {
@@ -368,6 +454,7 @@ export class Dialog extends LitElement {
   public override disconnectedCallback(): void {
     super.disconnectedCallback();
     unlockScreen(this);
+    this.stopPointerTracking();
   }
 
   protected override firstUpdated(_changedProperties: PropertyValues) {
@@ -410,13 +497,20 @@ export class Dialog extends LitElement {
           'has-icon': hasIcon,
           'has-description': hasDescription,
           'has-default': hasDefaultSlot,
+          dragging: this.pointerState?.type === 'drag',
+          resizing: this.pointerState?.type === 'resize',
         })}"
         tabindex="0"
       >
         ${when(
           hasHeader,
           () =>
-            html`<slot name="header" part="header" class="header">
+            html`<slot
+              name="header"
+              part="header"
+              class="header"
+              @pointerdown=${this.onHeaderPointerDown}
+            >
               ${when(hasIcon, () => this.renderIcon())}
               ${when(hasHeadline, () => this.renderHeadline())}
             </slot>`,
@@ -433,6 +527,18 @@ export class Dialog extends LitElement {
           hasActionSlot,
           () => html`<slot name="action" part="action" class="action"></slot>`,
         )}
+        ${when(this.resizable && !this.fullscreen, () =>
+          map(
+            resizeDirections,
+            (direction) =>
+              html`<div
+                part="resize-handle"
+                class="resize-handle ${direction}"
+                @pointerdown=${(event: PointerEvent) =>
+                  this.onResizeHandlePointerDown(event, direction)}
+              ></div>`,
+          ),
+        )}
       </div>`;
   }
 
@@ -445,6 +551,198 @@ export class Dialog extends LitElement {
     this.open = false;
   }
 
+  /**
+   * 在顶部区域按下指针时，开始拖拽移动对话框
+   */
+  private onHeaderPointerDown(event: PointerEvent) {
+    if (!this.draggable || this.fullscreen || event.button !== 0) {
+      return;
+    }
+
+    // 在顶部区域中的按钮、输入框等元素上按下时，不触发拖拽
+    const header = event.currentTarget as HTMLElement;
+    const path = event.composedPath();
+    const isInteractive = path
+      .slice(0, path.indexOf(header))
+      .some(
+        (element) =>
+          element instanceof HTMLElement &&
+          element.matches(interactiveSelector),
+      );
+
+    if (isInteractive) {
+      return;
+    }
+
+    this.startPointerTracking(event, 'drag');
+  }
+
+  /**
+   * 在边框或四角上按下指针时，开始拖拽改变对话框大小
+   */
+  private onResizeHandlePointerDown(
+    event: PointerEvent,
+    direction: ResizeDirection,
+  ) {
+    if (!this.resizable || this.fullscreen || event.button !== 0) {
+      return;
+    }
+
+    this.startPointerTracking(event, 'resize', direction);
+  }
+
+  private startPointerTracking(
+    event: PointerEvent,
+    type: PointerState['type'],
+    direction?: ResizeDirection,
+  ) {
+    const requestStart = emit(this, `${type}-start`, {
+      cancelable: true,
+    });
+    if (requestStart.defaultPrevented) {
+      return;
+    }
+
+    // 阻止拖拽过程中选中文本
+    event.preventDefault();
+
+    const panel = this.panelRef.value!;
+    const computedStyle = window.getComputedStyle(panel);
+    const rect = panel.getBoundingClientRect();
+
+    this.pointerState = {
+      type,
+      direction,
+      startX: event.clientX,
+      startY: event.clientY,
+      rect,
+      offsetX: this.offsetX,
+      offsetY: this.offsetY,
+      minWidth: this.minWidth ?? (parseFloat(computedStyle.minWidth) || 0),
+      minHeight:
+        this.minHeight ?? rect.height - (this.bodyRef.value?.offsetHeight ?? 0),
+      maxWidth: this.maxWidth ?? Infinity,
+      maxHeight: this.maxHeight ?? Infinity,
+    };
+    this.requestUpdate();
+
+    document.addEventListener('pointermove', this.onDocumentPointerMove);
+    document.addEventListener('pointerup', this.onDocumentPointerUp);
+    document.addEventListener('pointercancel', this.onDocumentPointerUp);
+  }
+
+  private stopPointerTracking() {
+    document.removeEventListener('pointermove', this.onDocumentPointerMove);
+    document.removeEventListener('pointerup', this.onDocumentPointerUp);
+    document.removeEventListener('pointercancel', this.onDocumentPointerUp);
+  }
+
+  private onDocumentPointerMove(event: PointerEvent) {
+    const state = this.pointerState;
+    if (!state) {
+      return;
+    }
+
+    const { rect } = state;
+    const deltaX = event.clientX - state.startX;
+    const deltaY = event.clientY - state.startY;
+
+    if (state.type === 'drag') {
+      // 限制对话框不能超出视口
+      const x = clamp(deltaX, -rect.left, window.innerWidth - rect.right);
+      const y = clamp(deltaY, -rect.top, window.innerHeight - rect.bottom);
+
+      this.setPanelOffset(state.offsetX + x, state.offsetY + y);
+      return;
+    }
+
+    const direction = state.direction!;
+    let width = rect.width;
+    let height = rect.height;
+    let offsetX = state.offsetX;
+    let offsetY = state.offsetY;
+
+    // 对话框默认居中显示，尺寸变化时会向两侧同时扩展。
+    // 因此需要同时移动一半的尺寸变化量，使对侧的边框保持不动
+    if (direction.includes('right')) {
+      width = clamp(
+        rect.width + deltaX,
+        state.minWidth,
+        Math.min(state.maxWidth, window.innerWidth - rect.left),
+      );
+      offsetX += (width - rect.width) / 2;
+    } else if (direction.includes('left')) {
+      width = clamp(
+        rect.width - deltaX,
+        state.minWidth,
+        Math.min(state.maxWidth, rect.right),
+      );
+      offsetX -= (width - rect.width) / 2;
+    }
+
+    if (direction.includes('bottom')) {
+      height = clamp(
+        rect.height + deltaY,
+        state.minHeight,
+        Math.min(state.maxHeight, window.innerHeight - rect.top),
+      );
+      offsetY += (height - rect.height) / 2;
+    } else if (direction.includes('top')) {
+      height = clamp(
+        rect.height - deltaY,
+        state.minHeight,
+        Math.min(state.maxHeight, rect.bottom),
+      );
+      offsetY -= (height - rect.height) / 2;
+    }
+
+    const panel = this.panelRef.value!;
+    panel.style.maxWidth = 'none';
+    panel.style.maxHeight = 'none';
+    panel.style.width = `${width}px`;
+    panel.style.height = `${height}px`;
+    this.setPanelOffset(offsetX, offsetY);
+  }
+
+  private onDocumentPointerUp() {
+    const state = this.pointerState;
+    if (!state) {
+      return;
+    }
+
+    this.stopPointerTracking();
+    this.pointerState = undefined;
+    this.requestUpdate();
+
+    emit(this, `${state.type}-end`);
+  }
+
+  /**
+   * 设置对话框相对于默认居中位置的偏移量
+   */
+  private setPanelOffset(x: number, y: number) {
+    this.offsetX = x;
+    this.offsetY = y;
+    this.panelRef.value!.style.left = `${x}px`;
+    this.panelRef.value!.style.top = `${y}px`;
+  }
+
+  /**
+   * 恢复对话框的默认位置和大小
+   */
+  private resetPanelBounding() {
+    const panel = this.panelRef.value;
+    if (!panel) {
+      return;
+    }
+
+    this.offsetX = 0;
+    this.offsetY = 0;
+    ['left', 'top', 'width', 'height', 'max-width', 'max-height'].forEach(
+      (name) => panel.style.removeProperty(name),
+    );
+  }
+
   private renderIcon(): TemplateResult {
     return html`<slot name="icon" part="icon" class="icon">
       ${this.icon
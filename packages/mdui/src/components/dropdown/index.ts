@@ -14,6 +14,7 @@ import { DefinedController } from '@mdui/shared/controllers/defined.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { isRtl } from '@mdui/shared/helpers/direction.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
 import { observeResize } from '@mdui/shared/helpers/observeResize.js';
@@ -107,6 +108,8 @@ export class Dropdown extends LitElement {
    * * `right-start`：位于右侧，且顶部对齐
    * * `right`：位于右侧，且居中对齐
    * * `right-end`：位于右侧，且底部对齐
+   *
+   * 在从右到左布局中，位于上方或下方时，`start` 为右对齐，`end` 为左对齐
    */
   @property({ reflect: true })
   public placement:
@@ -550,15 +553,25 @@ export class Dropdown extends LitElement {
     let top: number;
     let left: number;
     let placement = this.placement;
+    const rtl = isRtl(this);
 
     // 自动判断 dropdown 的方位
-    // 优先级为 bottom>top>right>left，start>center>end
+    // 优先级为 bottom>top>right>left，start>center>end。从右到左布局时，left 优先于 right
     if (placement === 'auto') {
       const windowWidth = $window.width();
       const windowHeight = $window.height();
       let position: 'top' | 'bottom' | 'left' | 'right';
       let alignment: 'start' | 'end' | undefined;
 
+      const rightFits =
+        windowWidth - triggerRect.left - triggerRect.width >
+        panelRect.width + screenMargin;
+      const leftFits = triggerRect.left > panelRect.width + screenMargin;
+      const leftAlignFits =
+        windowWidth - triggerRect.left > panelRect.width + screenMargin;
+      const rightAlignFits =
+        triggerRect.left + triggerRect.width > panelRect.width + screenMargin;
+
       if (
         windowHeight - triggerRect.top - triggerRect.height >
         panelRect.height + screenMargin
@@ -568,23 +581,20 @@ export class Dropdown extends LitElement {
       } else if (triggerRect.top > panelRect.height + screenMargin) {
         // 上方放得下，放上方
         position = 'top';
-      } else if (
-        windowWidth - triggerRect.left - triggerRect.width >
-        panelRect.width + screenMargin
-      ) {
-        // 右侧放得下，放右侧
-        position = 'right';
-      } else if (triggerRect.left > panelRect.width + screenMargin) {
-        // 左侧放得下，放左侧
-        position = 'left';
+      } else if (rtl ? leftFits : rightFits) {
+        // 结束侧放得下，放结束侧（从左到右布局时为右侧，从右到左布局时为左侧）
+        position = rtl ? 'left' : 'right';
+      } else if (rtl ? rightFits : leftFits) {
+        // 起始侧放得下，放起始侧
+        position = rtl ? 'right' : 'left';
       } else {
         // 默认放下方
         position = 'bottom';
       }
 
       if (['top', 'bottom'].includes(position)) {
-        if (windowWidth - triggerRect.left > panelRect.width + screenMargin) {
-          // 左对齐放得下，左对齐
+        if (rtl ? rightAlignFits : leftAlignFits) {
+          // 起始侧对齐放得下，起始侧对齐
           alignment = 'start';
         } else if (
           triggerRect.left + triggerRect.width / 2 >
@@ -594,14 +604,11 @@ export class Dropdown extends LitElement {
         ) {
           // 居中对齐放得下，居中对齐
           alignment = undefined;
-        } else if (
-          triggerRect.left + triggerRect.width >
-          panelRect.width + screenMargin
-        ) {
-          // 右对齐放得下，右对齐
+        } else if (rtl ? leftAlignFits : rightAlignFits) {
+          // 结束侧对齐放得下，结束侧对齐
           alignment = 'end';
         } else {
-          // 默认左对齐
+          // 默认起始侧对齐
           alignment = 'start';
         }
       } else {
@@ -669,6 +676,10 @@ export class Dropdown extends LitElement {
         break;
     }
 
+    // 从右到左布局时，位于上方或下方的 start、end 对齐的左右位置互换
+    const alignmentX =
+      rtl && alignment ? (alignment === 'start' ? 'end' : 'start') : alignment;
+
     switch (position) {
       case 'left':
         transformOriginX = 'right';
@@ -680,7 +691,7 @@ export class Dropdown extends LitElement {
         break;
       default:
         transformOriginX = 'center';
-        switch (alignment) {
+        switch (alignmentX) {
           case 'start':
             left = triggerRect.left;
             break;
@@ -0,0 +1 @@
+export * from './file-upload/index.js';
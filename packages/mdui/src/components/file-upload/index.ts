@@ -0,0 +1,671 @@
+import { html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { map } from 'lit/directives/map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { when } from 'lit/directives/when.js';
+import { isUndefined } from '@mdui/jq/shared/helper.js';
+import { FormController, formResets } from '@mdui/shared/controllers/form.js';
+import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import '@mdui/shared/icons/clear.js';
+import '@mdui/shared/icons/cloud-upload--outlined.js';
+import '@mdui/shared/icons/error.js';
+import '@mdui/shared/icons/insert-drive-file--outlined.js';
+import '@mdui/shared/icons/upload.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
+import '../button-icon.js';
+import '../button.js';
+import '../icon.js';
+import '../linear-progress.js';
+import { style } from './style.js';
+import type { Button } from '../button/index.js';
+import type { FormControl } from '@mdui/jq/shared/form.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * @summary 文件上传组件
+ *
+ * ```html
+ * <mdui-file-upload></mdui-file-upload>
+ * ```
+ *
+ * @event focus - 获得焦点时触发
+ * @event blur - 失去焦点时触发
+ * @event change - 选择的文件变更时触发
+ * @event input - 选择的文件变更时触发
+ * @event invalid - 表单字段验证不通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
+ *
+ * @slot - 按钮或拖放区域中的文本
+ * @slot helper - 底部的帮助文本
+ *
+ * @csspart button - `variant="button"` 时的按钮
+ * @csspart dropzone - `variant="dropzone"` 时的拖放区域
+ * @csspart icon - 按钮或拖放区域中的图标
+ * @csspart label - 按钮或拖放区域中的文本
+ * @csspart list - 文件列表
+ * @csspart file - 文件列表中的每一项
+ * @csspart file-icon - 文件图标
+ * @csspart file-name - 文件名
+ * @csspart file-description - 文件大小，或文件验证未通过时的错误提示
+ * @csspart progress - 文件的上传进度条
+ * @csspart remove-button - 移除文件的按钮
+ * @csspart supporting - 底部辅助信息容器，包括 helper、error
+ * @csspart helper - 底部的帮助文本
+ * @csspart error - 底部的错误描述文本
+ *
+ * @cssprop --shape-corner - 拖放区域的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ */
+@customElement('mdui-file-upload')
+export class FileUpload
+  extends ValidatorMixin(FocusableMixin(LitElement))
+  implements FormControl
+{
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 文件上传组件的形状。可选值为：
+   *
+   * * `button`：按钮，点击后选择文件
+   * * `dropzone`：拖放区域，可以把文件拖放到该区域，也可以点击后选择文件
+   */
+  @property({ reflect: true })
+  public variant:
+    | /*按钮，点击后选择文件*/ 'button'
+    | /*拖放区域，可拖放或点击选择文件*/ 'dropzone' = 'button';
+
+  /**
+   * 按钮或拖放区域中的 Material Icons 图标名
+   */
+  @property({ reflect: true })
+  public icon?: string;
+
+  /**
+   * 是否允许选择多个文件
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public multiple = false;
+
+  /**
+   * 允许选择的文件类型，格式与 `<input type="file">` 的 `accept` 属性相同，如 `image/*,.pdf`
+   *
+   * 通过拖放添加的文件也会按该属性进行验证
+   */
+  @property({ reflect: true })
+  public accept?: string;
+
+  /**
+   * 单个文件的最大大小（单位为字节）
+   */
+  @property({ type: Number, reflect: true, attribute: 'max-size' })
+  public maxSize?: number;
+
+  /**
+   * 最多可选择的文件数量，仅在 `multiple` 时有效
+   */
+  @property({ type: Number, reflect: true, attribute: 'max-files' })
+  public maxFiles?: number;
+
+  /**
+   * 底部的帮助文本。也可以通过 `slot="helper"` 设置
+   */
+  @property({ reflect: true })
+  public helper?: string;
+
+  /**
+   * 是否为禁用状态
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public disabled = false;
+
+  /**
+   * 提交表单时，是否必须选择文件
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public required = false;
+
+  /**
+   * 关联的 `form` 元素。此属性值必须为同一页面中的一个 `<form>` 元素的 `id` 属性。
+   *
+   * 如果此属性未指定，则元素必须是 `form` 元素的后代。利用此属性，你可以将元素放置在页面中的任何位置，而不仅仅是作为 `form` 元素的后代。
+   */
+  @property({ reflect: true })
+  public form?: string;
+
+  /**
+   * 文件上传组件的名称，已选择的文件将与表单数据一起提交
+   */
+  @property({ reflect: true })
+  public name = '';
+
+  /**
+   * 已选择的文件
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public files: File[] = [];
+
+  /**
+   * 是否验证未通过
+   */
+  @state()
+  private invalid = false;
+
+  /**
+   * 是否有文件拖动到拖放区域上方
+   */
+  @state()
+  private dragging = false;
+
+  /**
+   * 各个文件的上传进度
+   */
+  private readonly progresses: Map<File, number> = new Map();
+
+  /**
+   * 拖动文件时，dragenter 和 dragleave 事件会在子元素上重复触发，需要计数来判断是否离开了拖放区域
+   */
+  private dragCounter = 0;
+
+  private readonly inputRef: Ref<HTMLInputElement> = createRef();
+  private readonly buttonRef: Ref<Button> = createRef();
+  private readonly dropzoneRef: Ref<HTMLElement> = createRef();
+  private readonly formController = new FormController(this, {
+    value: (control) => (control as FileUpload).files,
+    validationValue: (control) => (control as FileUpload).files,
+    defaultValue: () => [],
+    setValue: (control) => ((control as FileUpload).files = []),
+  });
+  private readonly hasSlotController = new HasSlotController(this, 'helper');
+  private readonly localeController = new LocaleController(this, () => {
+    // 语言变更时，更新文件验证的错误提示
+    if (this.hasUpdated) {
+      this.updateValidity();
+    }
+  });
+
+  /**
+   * 已选择的文件的文件名。该属性为只读属性，需通过 `files` 属性修改已选择的文件
+   */
+  public get value(): string[] {
+    return this.files.map((file) => file.name);
+  }
+
+  /**
+   * 表单验证状态对象
+   */
+  public get validity(): ValidityState {
+    return this.inputRef.value!.validity;
+  }
+
+  /**
+   * 表单验证的错误提示信息
+   */
+  public get validationMessage(): string {
+    return this.inputRef.value!.validationMessage;
+  }
+
+  protected override get focusElement(): HTMLElement | undefined {
+    return this.variant === 'dropzone'
+      ? this.dropzoneRef.value
+      : this.buttonRef.value;
+  }
+
+  protected override get focusDisabled(): boolean {
+    return this.disabled;
+  }
+
+  @watch('disabled', true)
+  @watch('required', true)
+  @watch('multiple', true)
+  @watch('accept', true)
+  @watch('maxSize', true)
+  @watch('maxFiles', true)
+  private async onDisabledChange() {
+    await this.updateComplete;
+    this.updateValidity();
+    this.invalid = !this.inputRef.value!.checkValidity();
+  }
+
+  @watch('files', true)
+  private async onFilesChange() {
+    // 移除已不存在的文件的上传进度
+    this.progresses.forEach((_, file) => {
+      if (!this.files.includes(file)) {
+        this.progresses.delete(file);
+      }
+    });
+
+    await this.updateComplete;
+    this.updateValidity();
+
+    // reset 引起的值变更，不执行验证；直接修改值引起的变更，需要进行验证
+    const form = this.formController.getForm();
+    if (form && formResets.get(form)?.has(this)) {
+      this.invalid = false;
+      formResets.get(form)!.delete(this);
+    } else {
+      this.invalid = !this.inputRef.value!.checkValidity();
+      this.formController.requestValidate();
+    }
+  }
+
+  /**
+   * 设置文件的上传进度，取值范围为 0 到 1。传入 `undefined` 时，将移除该文件的进度条
+   *
+   * @param file 已选择的文件
+   * @param progress 上传进度
+   */
+  public setProgress(file: File, progress?: number): void {
+    if (isUndefined(progress)) {
+      this.progresses.delete(file);
+    } else {
+      this.progresses.set(file, progress);
+    }
+
+    this.requestUpdate();
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`
+   */
+  public checkValidity(): boolean {
+    const valid = this.inputRef.value!.checkValidity();
+
+    if (!valid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+    }
+
+    return valid;
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`。
+   *
+   * 验证未通过时，还将在组件上显示未通过的提示。
+   */
+  public reportValidity(): boolean {
+    this.invalid = !this.inputRef.value!.checkValidity();
+
+    if (this.invalid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+
+      this.focus();
+    }
+
+    return !this.invalid;
+  }
+
+  protected override getInternalValidityMessage(): string {
+    if (this.multiple && this.maxFiles && this.files.length > this.maxFiles) {
+      return this.localeController.translate('tooManyFiles', {
+        count: this.maxFiles,
+      });
+    }
+
+    const file = this.files.find((file) => this.getFileError(file));
+    return file ? `${file.name}：${this.getFileError(file)}` : '';
+  }
+
+  protected override applyCustomValidity(message: string): void {
+    this.inputRef.value!.setCustomValidity(message);
+    this.invalid = !this.inputRef.value!.checkValidity();
+  }
+
+  protected override firstUpdated(changedProperties: PropertyValues): void {
+    super.firstUpdated(changedProperties);
+    this.updateValidity();
+  }
+
+  protected override render(): TemplateResult {
+    const hasHelper = !!this.helper || this.hasSlotController.test('helper');
+
+    return html`<input
+        ${ref(this.inputRef)}
+        type="file"
+        class="input"
+        tabindex="-1"
+        aria-hidden="true"
+        accept=${ifDefined(this.accept)}
+        .multiple=${this.multiple}
+        .disabled=${this.disabled}
+        .required=${this.required}
+        @input=${this.onInput}
+        @change=${this.onChange}
+      />${this.variant === 'dropzone'
+        ? this.renderDropzone()
+        : this.renderButton()}${when(this.files.length, () =>
+        this.renderFiles(),
+      )}${when(
+        this.invalid || hasHelper,
+        () =>
+          html`<div
+            part="supporting"
+            class=${classMap({ supporting: true, invalid: this.invalid })}
+          >
+            ${this.invalid
+              ? html`<div part="error" class="error">
+                  ${this.inputRef.value!.validationMessage}
+                </div>`
+              : html`<slot name="helper" part="helper" class="helper">
+                  ${this.helper}
+                </slot>`}
+          </div>`,
+      )}`;
+  }
+
+  /**
+   * 格式化文件大小
+   * @param size 文件大小（单位为字节）
+   */
+  private formatSize(size: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let index = 0;
+
+    while (size >= 1024 && index < units.length - 1) {
+      size /= 1024;
+      index++;
+    }
+
+    return `${index ? parseFloat(size.toFixed(1)) : size} ${units[index]}`;
+  }
+
+  /**
+   * 文件类型是否符合 `accept` 属性
+   * @param file
+   */
+  private isAccepted(file: File): boolean {
+    if (!this.accept) {
+      return true;
+    }
+
+    const name = file.name.toLowerCase();
+    const type = file.type.toLowerCase();
+
+    return this.accept
+      .split(',')
+      .map((token) => token.trim().toLowerCase())
+      .filter((token) => token)
+      .some((token) => {
+        if (token.startsWith('.')) {
+          return name.endsWith(token);
+        }
+
+        if (token.endsWith('/*')) {
+          return type.startsWith(token.slice(0, -1));
+        }
+
+        return type === token;
+      });
+  }
+
+  /**
+   * 获取文件未通过 `accept`、`max-size` 验证时的错误提示，验证通过时返回空字符串
+   * @param file
+   */
+  private getFileError(file: File): string {
+    if (!this.isAccepted(file)) {
+      return this.localeController.translate('fileTypeNotAllowed');
+    }
+
+    if (this.maxSize && file.size > this.maxSize) {
+      return this.localeController.translate('fileTooLarge', {
+        size: this.formatSize(this.maxSize),
+      });
+    }
+
+    return '';
+  }
+
+  /**
+   * 把已选择的文件同步到 input 元素中，并设置错误提示
+   */
+  private updateValidity() {
+    const input = this.inputRef.value!;
+    const dataTransfer = new DataTransfer();
+    this.files.forEach((file) => dataTransfer.items.add(file));
+    input.files = dataTransfer.files;
+    input.setCustomValidity(this.getCustomValidityMessage());
+  }
+
+  /**
+   * 添加文件。`multiple` 时，添加到已选择的文件之后，并忽略已选择的相同文件；否则替换已选择的文件
+   * @param files
+   */
+  private addFiles(files: File[]) {
+    if (!files.length) {
+      return;
+    }
+
+    if (!this.multiple) {
+      this.files = files.slice(0, 1);
+      return;
+    }
+
+    const isSameFile = (a: File, b: File) =>
+      a.name === b.name &&
+      a.size === b.size &&
+      a.lastModified === b.lastModified;
+
+    this.files = [
+      ...this.files,
+      ...files.filter(
+        (file) => !this.files.some((selected) => isSameFile(selected, file)),
+      ),
+    ];
+  }
+
+  private removeFile(file: File) {
+    this.files = this.files.filter((selected) => selected !== file);
+    emit(this, 'input');
+    emit(this, 'change');
+
+    // 移除按钮会从 DOM 中删除，把焦点移到组件上
+    this.focus();
+  }
+
+  private openPicker() {
+    if (!this.disabled) {
+      this.inputRef.value!.click();
+    }
+  }
+
+  /**
+   * input[type="file"] 的 input 事件可以冒泡越过 shadow dom，不需要再次触发
+   */
+  private onInput() {
+    this.addFiles([...this.inputRef.value!.files!]);
+  }
+
+  /**
+   * input[type="file"] 的 change 事件无法冒泡越过 shadow dom
+   */
+  private onChange() {
+    emit(this, 'change');
+  }
+
+  private onDropzoneKeyDown(event: KeyboardEvent) {
+    if (['Enter', ' '].includes(event.key)) {
+      event.preventDefault();
+      this.openPicker();
+    }
+  }
+
+  private onDragEnter(event: DragEvent) {
+    event.preventDefault();
+
+    if (!this.disabled) {
+      this.dragCounter++;
+      this.dragging = true;
+    }
+  }
+
+  private onDragOver(event: DragEvent) {
+    event.preventDefault();
+
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = this.disabled ? 'none' : 'copy';
+    }
+  }
+
+  private onDragLeave() {
+    if (this.dragCounter && !--this.dragCounter) {
+      this.dragging = false;
+    }
+  }
+
+  private onDrop(event: DragEvent) {
+    event.preventDefault();
+    this.dragCounter = 0;
+    this.dragging = false;
+
+    if (this.disabled || !event.dataTransfer) {
+      return;
+    }
+
+    const files = [...event.dataTransfer.files];
+    if (!files.length) {
+      return;
+    }
+
+    this.addFiles(files);
+    emit(this, 'input');
+    emit(this, 'change');
+  }
+
+  private renderIcon(): TemplateResult {
+    return this.icon
+      ? html`<mdui-icon name=${this.icon} class="i"></mdui-icon>`
+      : this.variant === 'dropzone'
+      ? html`<mdui-icon-cloud-upload--outlined
+          class="i"
+        ></mdui-icon-cloud-upload--outlined>`
+      : html`<mdui-icon-upload class="i"></mdui-icon-upload>`;
+  }
+
+  private renderButton(): TemplateResult {
+    return html`<mdui-button
+      ${ref(this.buttonRef)}
+      part="button"
+      class="button"
+      variant="tonal"
+      .disabled=${this.disabled}
+      @click=${this.openPicker}
+    >
+      <span slot="icon" part="icon" class="icon">${this.renderIcon()}</span>
+      <slot part="label" class="label">
+        ${this.localeController.translate('selectFile')}
+      </slot>
+    </mdui-button>`;
+  }
+
+  private renderDropzone(): TemplateResult {
+    return html`<div
+      ${ref(this.dropzoneRef)}
+      part="dropzone"
+      class=${classMap({
+        dropzone: true,
+        dragging: this.dragging,
+        invalid: this.invalid,
+      })}
+      role="button"
+      tabindex=${this.disabled ? -1 : 0}
+      aria-disabled=${this.disabled ? 'true' : 'false'}
+      @click=${this.openPicker}
+      @keydown=${this.onDropzoneKeyDown}
+      @dragenter=${this.onDragEnter}
+      @dragover=${this.onDragOver}
+      @dragleave=${this.onDragLeave}
+      @drop=${this.onDrop}
+    >
+      <span part="icon" class="icon">${this.renderIcon()}</span>
+      <slot part="label" class="label">
+        ${this.localeController.translate('dropFiles')}
+      </slot>
+    </div>`;
+  }
+
+  private renderFiles(): TemplateResult {
+    return html`<ul part="list" class="list">
+      ${map(this.files, (file) => {
+        const error = this.getFileError(file);
+        const progress = this.progresses.get(file);
+
+        return html`<li
+          part="file"
+          class=${classMap({ file: true, invalid: !!error })}
+        >
+          <span part="file-icon" class="file-icon">
+            ${error
+              ? html`<mdui-icon-error class="i"></mdui-icon-error>`
+              : html`<mdui-icon-insert-drive-file--outlined
+                  class="i"
+                ></mdui-icon-insert-drive-file--outlined>`}
+          </span>
+          <div class="file-info">
+            <div part="file-name" class="file-name">${file.name}</div>
+            <div part="file-description" class="file-description">
+              ${error || this.formatSize(file.size)}
+            </div>
+            ${when(
+              !isUndefined(progress),
+              () =>
+                html`<mdui-linear-progress
+                  part="progress"
+                  class="progress"
+                  .value=${progress}
+                ></mdui-linear-progress>`,
+            )}
+          </div>
+          <mdui-button-icon
+            part="remove-button"
+            class="remove-button"
+            aria-label=${this.localeController.translate('removeFile', {
+              name: file.name,
+            })}
+            .disabled=${this.disabled}
+            @click=${() => this.removeFile(file)}
+          >
+            <mdui-icon-clear class="i"></mdui-icon-clear>
+          </mdui-button-icon>
+        </li>`;
+      })}
+    </ul>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-file-upload': FileUpload;
+  }
+}
@@ -7,6 +7,7 @@ import { observeResize } from '@mdui/shared/helpers/observeResize.js';
 import type { LayoutItemBase } from './layout-item-base.js';
 import type { LayoutMain } from './layout-main.js';
 import type { Layout } from './layout.js';
+import type { SideSheet } from '../side-sheet/index.js';
 import type { JQ } from '@mdui/jq/shared/core.js';
 import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
 
@@ -276,6 +277,10 @@ export class LayoutManager {
    * mdui-navigation-drawer 较为特殊，在为模态化时，占据的宽度为 0
    */
   private isNoWidth(state: LayoutItemState) {
+    if (isNodeName(state.element, 'mdui-side-sheet')) {
+      return (state.element as SideSheet).modal;
+    }
+
     return (
       isNodeName(state.element, 'mdui-navigation-drawer') &&
       // @ts-ignore
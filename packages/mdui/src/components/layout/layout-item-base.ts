@@ -1,6 +1,7 @@
 import { LitElement } from 'lit';
 import { property } from 'lit/decorators.js';
 import { isNodeName } from '@mdui/jq/shared/helper.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { getLayout } from './helper.js';
 import type { LayoutManager, LayoutPlacement } from './helper.js';
@@ -18,6 +19,11 @@ export class LayoutItemBase extends LitElement {
   // 父元素是否是 `mdui-layout`
   protected isParentLayout = false;
 
+  // 文本方向变更时，`start`、`end` 对应的左右位置会变更，需要重新调整布局
+  protected readonly directionController = new DirectionController(this, () =>
+    this.onDirectionChange(),
+  );
+
   /**
    * 当前布局组件所处的位置，父类必须实现该 getter
    */
@@ -50,4 +56,11 @@ export class LayoutItemBase extends LitElement {
       this.layoutManager.unregisterItem(this);
     }
   }
+
+  /**
+   * 文本方向变更时执行。仅在读取过文本方向（即 `placement` 为 `start`、`end`）后才会执行
+   */
+  protected onDirectionChange(): void {
+    this.layoutManager?.updateLayout(this);
+  }
 }
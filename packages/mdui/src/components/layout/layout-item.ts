@@ -1,6 +1,7 @@
 import { CSSResultGroup, html } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
+import { getPhysicalPlacement } from '@mdui/shared/helpers/direction.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { LayoutItemBase } from './layout-item-base.js';
 import { layoutItemStyle } from './layout-item-style.js';
@@ -32,6 +33,8 @@ export class LayoutItem extends LayoutItemBase {
    *
    * * `top`：位于上方
    * * `bottom`：位于下方
+   * * `start`：位于起始侧，从左到右布局时为左侧，从右到左布局时为右侧
+   * * `end`：位于结束侧，从左到右布局时为右侧，从右到左布局时为左侧
    * * `left`：位于左侧
    * * `right`：位于右侧
    */
@@ -39,11 +42,20 @@ export class LayoutItem extends LayoutItemBase {
   public placement:
     | /*位于上方*/ 'top'
     | /*位于下方*/ 'bottom'
+    | /*位于起始侧*/ 'start'
+    | /*位于结束侧*/ 'end'
     | /*位于左侧*/ 'left'
     | /*位于右侧*/ 'right' = 'top';
 
   protected override get layoutPlacement(): LayoutPlacement {
-    return this.placement;
+    if (this.placement === 'top' || this.placement === 'bottom') {
+      return this.placement;
+    }
+
+    return getPhysicalPlacement(
+      this.placement,
+      () => this.directionController.rtl,
+    );
   }
 
   // placement 变更时，需要重新调整布局
@@ -1,8 +1,26 @@
-import { html, LitElement } from 'lit';
-import { customElement } from 'lit/decorators.js';
+import { html, LitElement, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { repeat } from 'lit/directives/repeat.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { observeResize } from '@mdui/shared/helpers/observeResize.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { listStyle } from './list-style.js';
-import type { CSSResultGroup, TemplateResult } from 'lit';
+import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * 虚拟滚动时，未指定 `itemHeight` 且列表项还未渲染过时，使用的预估高度
+ */
+const ESTIMATED_ITEM_HEIGHT = 56;
+
+/**
+ * 虚拟滚动时，在可视区域上下额外渲染的列表项数量
+ */
+const OVERSCAN = 4;
 
 /**
  * @summary 列表组件。需与 `<mdui-list-item>` 组件配合使用
@@ -21,8 +39,387 @@ import type { CSSResultGroup, TemplateResult } from 'lit';
 export class List extends LitElement {
   public static override styles: CSSResultGroup = [componentStyle, listStyle];
 
+  /**
+   * 是否启用虚拟滚动。启用后，将根据 `items` 和 `renderItem` 渲染列表项，且只渲染可视区域内的列表项，此时需要为列表指定高度
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public virtual = false;
+
+  /**
+   * 虚拟滚动时，列表项的数据。该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public items: unknown[] = [];
+
+  /**
+   * 虚拟滚动时，渲染列表项的函数。函数参数为列表项的数据和索引，返回 lit 模板或 DOM 元素。该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public renderItem?: (item: unknown, index: number) => unknown;
+
+  /**
+   * 虚拟滚动时，列表项的固定高度（单位为 `px`）。未指定时，将在列表项渲染后测量其实际高度
+   */
+  @property({ type: Number, reflect: true, attribute: 'item-height' })
+  public itemHeight?: number;
+
+  /**
+   * 虚拟滚动时，滚动容器的 `scrollTop` 值
+   */
+  @state()
+  private scrollPosition = 0;
+
+  /**
+   * 虚拟滚动时，滚动容器的高度
+   */
+  @state()
+  private viewportHeight = 0;
+
+  /**
+   * 虚拟滚动时，获得焦点的列表项的索引。该列表项即使滚动到可视区域外，也不会被移除，以保持焦点
+   */
+  @state()
+  private focusedIndex?: number;
+
+  // 已测量的列表项高度，键为列表项的索引
+  private measuredHeights: Map<number, number> = new Map();
+  // 各列表项顶部的位置，最后一项为列表总高度。为 undefined 时表示需要重新计算
+  private offsetsCache?: number[];
+  private observeResize?: ObserveResize;
+  private readonly scrollerRef: Ref<HTMLElement> = createRef();
+
+  private get offsets(): number[] {
+    if (!this.offsetsCache) {
+      const offsets = [0];
+
+      this.items.forEach((_, index) => {
+        offsets.push(offsets[index] + this.getItemHeight(index));
+      });
+
+      this.offsetsCache = offsets;
+    }
+
+    return this.offsetsCache;
+  }
+
+  /**
+   * 仅丢弃数据发生变化的索引对应的高度。如在末尾追加列表项时，已测量的高度仍然有效，可避免滚动位置跳动
+   */
+  @watch('items')
+  private onItemsChange(oldItems?: unknown[]) {
+    this.measuredHeights.forEach((_, index) => {
+      if (!oldItems || oldItems[index] !== this.items[index]) {
+        this.measuredHeights.delete(index);
+      }
+    });
+    this.offsetsCache = undefined;
+  }
+
+  @watch('itemHeight')
+  private onItemHeightChange() {
+    this.measuredHeights.clear();
+    this.offsetsCache = undefined;
+  }
+
+  @watch('virtual')
+  private async onVirtualChange() {
+    this.observeResize?.unobserve();
+
+    if (!this.virtual) {
+      return;
+    }
+
+    await this.updateComplete;
+
+    // 等待更新期间，可能已取消了虚拟滚动
+    const scroller = this.scrollerRef.value;
+    if (!this.virtual || !scroller) {
+      return;
+    }
+
+    this.observeResize = observeResize(scroller, () => {
+      this.viewportHeight = scroller.clientHeight;
+    });
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.observeResize?.unobserve();
+  }
+
+  /**
+   * 虚拟滚动时，滚动到指定索引的列表项
+   *
+   * @param index 列表项的索引
+   * @param align 列表项与可视区域的对齐方式。`start` 为顶部对齐；`center` 为居中对齐；`end` 为底部对齐；`nearest` 为滚动最小的距离，使列表项完全可见。默认为 `nearest`
+   */
+  public async scrollToIndex(
+    index: number,
+    align: 'start' | 'center' | 'end' | 'nearest' = 'nearest',
+  ): Promise<void> {
+    if (!this.virtual || !this.items.length) {
+      return;
+    }
+
+    await this.updateComplete;
+
+    // 等待更新期间，可能已取消了虚拟滚动
+    let scroller = this.scrollerRef.value;
+    if (!this.virtual || !scroller) {
+      return;
+    }
+
+    index = Math.min(Math.max(index, 0), this.items.length - 1);
+    scroller.scrollTop = this.getScrollTopForIndex(scroller, index, align);
+
+    // 未指定固定高度时，滚动后新渲染的列表项高度可能与预估高度不同，需要在测量后再修正一次位置
+    if (!this.itemHeight) {
+      this.onScroll();
+      await this.updateComplete;
+
+      scroller = this.scrollerRef.value;
+      if (!this.virtual || !scroller || index >= this.items.length) {
+        return;
+      }
+
+      scroller.scrollTop = this.getScrollTopForIndex(scroller, index, align);
+    }
+  }
+
+  protected override updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+
+    if (this.virtual && !this.itemHeight) {
+      this.measureItems();
+    }
+  }
+
   protected override render(): TemplateResult {
-    return html`<slot></slot>`;
+    if (!this.virtual) {
+      return html`<slot></slot>`;
+    }
+
+    const offsets = this.offsets;
+
+    return html`<div
+      ${ref(this.scrollerRef)}
+      part="scroller"
+      class="scroller"
+      @scroll=${this.onScroll}
+      @focusin=${this.onFocusIn}
+      @focusout=${this.onFocusOut}
+      @keydown=${this.onKeyDown}
+    >
+      <div
+        class="virtual-container"
+        style=${styleMap({ height: `${offsets[this.items.length]}px` })}
+      >
+        ${repeat(
+          this.getRenderedIndexes(),
+          (index) => index,
+          (index) =>
+            html`<div
+              class="virtual-item"
+              data-index=${index}
+              style=${styleMap({ top: `${offsets[index]}px` })}
+            >
+              ${this.renderItem
+                ? this.renderItem(this.items[index], index)
+                : nothing}
+            </div>`,
+        )}
+      </div>
+    </div>`;
+  }
+
+  private getItemHeight(index: number): number {
+    return (
+      this.itemHeight ||
+      this.measuredHeights.get(index) ||
+      ESTIMATED_ITEM_HEIGHT
+    );
+  }
+
+  /**
+   * 获取需要渲染的列表项的索引。包括可视区域内的列表项，及获得焦点的列表项
+   */
+  private getRenderedIndexes(): number[] {
+    const offsets = this.offsets;
+    const count = this.items.length;
+
+    if (!count) {
+      return [];
+    }
+
+    // 二分查找可视区域顶部的列表项
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high + 1) / 2);
+      if (offsets[middle] <= this.scrollPosition) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const bottom = this.scrollPosition + this.viewportHeight;
+    let end = low;
+    while (end < count - 1 && offsets[end + 1] < bottom) {
+      end++;
+    }
+
+    const start = Math.max(low - OVERSCAN, 0);
+    end = Math.min(end + OVERSCAN, count - 1);
+
+    const indexes = Array.from(
+      { length: end - start + 1 },
+      (_, i) => start + i,
+    );
+
+    if (
+      this.focusedIndex !== undefined &&
+      this.focusedIndex < count &&
+      !indexes.includes(this.focusedIndex)
+    ) {
+      indexes.push(this.focusedIndex);
+    }
+
+    return indexes;
+  }
+
+  private getScrollTopForIndex(
+    scroller: HTMLElement,
+    index: number,
+    align: 'start' | 'center' | 'end' | 'nearest',
+  ): number {
+    const top = this.offsets[index];
+    const height = this.getItemHeight(index);
+    const viewportHeight = scroller.clientHeight;
+
+    if (align === 'start') {
+      return top;
+    }
+
+    if (align === 'center') {
+      return top - (viewportHeight - height) / 2;
+    }
+
+    if (align === 'end') {
+      return top + height - viewportHeight;
+    }
+
+    if (top < scroller.scrollTop) {
+      return top;
+    }
+
+    if (top + height > scroller.scrollTop + viewportHeight) {
+      return top + height - viewportHeight;
+    }
+
+    return scroller.scrollTop;
+  }
+
+  /**
+   * 测量已渲染的列表项的高度。高度有变化时，重新计算位置并更新
+   */
+  private measureItems() {
+    let changed = false;
+
+    this.renderRoot
+      .querySelectorAll<HTMLElement>('.virtual-item')
+      .forEach((element) => {
+        const index = Number(element.dataset.index);
+        const height = element.offsetHeight;
+
+        if (height && this.measuredHeights.get(index) !== height) {
+          this.measuredHeights.set(index, height);
+          changed = true;
+        }
+      });
+
+    if (changed) {
+      this.offsetsCache = undefined;
+      this.requestUpdate();
+    }
+  }
+
+  /**
+   * 获取事件来源的列表项的索引
+   */
+  private getEventIndex(event: Event): number | undefined {
+    const element = event
+      .composedPath()
+      .find(
+        (target) =>
+          target instanceof HTMLElement &&
+          target.classList.contains('virtual-item'),
+      ) as HTMLElement | undefined;
+
+    return element ? Number(element.dataset.index) : undefined;
+  }
+
+  private onScroll() {
+    const scroller = this.scrollerRef.value;
+    if (!scroller) {
+      return;
+    }
+
+    this.scrollPosition = scroller.scrollTop;
+    this.viewportHeight = scroller.clientHeight;
+  }
+
+  private onFocusIn(event: FocusEvent) {
+    this.focusedIndex = this.getEventIndex(event);
+  }
+
+  private onFocusOut() {
+    // 若焦点移动到了其他列表项，会在随后的 focusin 事件中重新设置
+    this.focusedIndex = undefined;
+  }
+
+  /**
+   * 焦点在列表项上时，按下方向键、Home、End 键，把焦点移动到对应的列表项上，并滚动到该列表项
+   */
+  private async onKeyDown(event: KeyboardEvent) {
+    const index = this.getEventIndex(event);
+
+    if (index === undefined) {
+      return;
+    }
+
+    const keyMap: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: this.items.length - 1,
+    };
+
+    const targetIndex = keyMap[event.key];
+    if (
+      targetIndex === undefined ||
+      targetIndex < 0 ||
+      targetIndex >= this.items.length
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+
+    await this.scrollToIndex(targetIndex);
+
+    // 重新渲染后，目标列表项已在可视区域内
+    this.onScroll();
+    await this.updateComplete;
+
+    const item = this.renderRoot.querySelector<HTMLElement>(
+      `.virtual-item[data-index="${targetIndex}"]`,
+    )?.firstElementChild as HTMLElement | null;
+    item?.focus();
   }
 }
 
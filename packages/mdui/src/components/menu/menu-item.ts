@@ -12,6 +12,7 @@ import '@mdui/jq/methods/width.js';
 import { isUndefined } from '@mdui/jq/shared/helper.js';
 import '@mdui/jq/static/contains.js';
 import { DefinedController } from '@mdui/shared/controllers/defined.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
 import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
@@ -20,6 +21,7 @@ import { emit } from '@mdui/shared/helpers/event.js';
 import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
 import { nothingTemplate } from '@mdui/shared/helpers/template.js';
 import { uniqueId } from '@mdui/shared/helpers/uniqueId.js';
+import '@mdui/shared/icons/arrow-left.js';
 import '@mdui/shared/icons/arrow-right.js';
 import '@mdui/shared/icons/check.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
@@ -60,6 +62,7 @@ import type { Ref } from 'lit/directives/ref.js';
  * @csspart container - 菜单项的容器
  * @csspart icon - 左侧的图标
  * @csspart label - 文本内容
+ * @csspart highlight - 文本中高亮显示的关键词
  * @csspart end-icon - 右侧的图标
  * @csspart end-text - 右侧的文本
  * @csspart selected-icon - 选中状态的图标
@@ -139,6 +142,10 @@ export class MenuItem extends AnchorMixin(
   @state()
   protected dense = false;
 
+  // 需要在文本中高亮显示的关键词。由 <mdui-select> 控制该参数
+  @state()
+  protected highlight = '';
+
   // 可选中状态。由 <mdui-menu> 控制该参数
   @state()
   protected selects?: 'single' | 'multiple';
@@ -179,6 +186,7 @@ export class MenuItem extends AnchorMixin(
   private readonly definedController = new DefinedController(this, {
     relatedElements: [''],
   });
+  private readonly directionController = new DirectionController(this);
 
   public constructor() {
     super();
@@ -386,6 +394,22 @@ export class MenuItem extends AnchorMixin(
       )}`;
   }
 
+  /**
+   * 获取默认 slot 中的文本。由 <mdui-select> 在筛选时调用
+   */
+  protected getLabelText(): string {
+    return Array.from(this.childNodes)
+      .filter(
+        (node) =>
+          node.nodeType === Node.TEXT_NODE ||
+          (node.nodeType === Node.ELEMENT_NODE &&
+            !(node as Element).hasAttribute('slot')),
+      )
+      .map((node) => node.textContent)
+      .join('')
+      .trim();
+  }
+
   /**
    * 点击子菜单外面的区域，关闭子菜单
    */
@@ -512,8 +536,9 @@ export class MenuItem extends AnchorMixin(
     const submenuHeight = $submenu.innerHeight();
     const screenMargin = 8; // 子菜单与屏幕界至少保留 8px 间距
 
+    const rtl = this.directionController.rtl;
     let placementX: 'top' | 'bottom' = 'bottom';
-    let placementY: 'left' | 'right' = 'right';
+    let placementY: 'left' | 'right' = rtl ? 'left' : 'right';
 
     // 判断子菜单上下位置
     if ($window.height() - itemRect.top > submenuHeight + screenMargin) {
@@ -522,14 +547,16 @@ export class MenuItem extends AnchorMixin(
       placementX = 'top';
     }
 
-    // 判断子菜单左右位置
-    if (
+    // 判断子菜单左右位置。从左到右布局时优先放在右侧，从右到左布局时优先放在左侧
+    const hasRightSpace =
       $window.width() - itemRect.left - itemRect.width >
-      submenuWidth + screenMargin
-    ) {
-      placementY = 'right';
-    } else if (itemRect.left > submenuWidth + screenMargin) {
-      placementY = 'left';
+      submenuWidth + screenMargin;
+    const hasLeftSpace = itemRect.left > submenuWidth + screenMargin;
+
+    if (rtl ? hasLeftSpace : hasRightSpace) {
+      placementY = rtl ? 'left' : 'right';
+    } else if (rtl ? hasRightSpace : hasLeftSpace) {
+      placementY = rtl ? 'right' : 'left';
     }
 
     $(this.submenuRef.value!).css({
@@ -542,6 +569,49 @@ export class MenuItem extends AnchorMixin(
     });
   }
 
+  /**
+   * 默认 slot 中是否仅包含纯文本
+   */
+  private isPlainLabel(): boolean {
+    return Array.from(this.childNodes).every(
+      (node) =>
+        node.nodeType !== Node.ELEMENT_NODE ||
+        (node as Element).hasAttribute('slot'),
+    );
+  }
+
+  /**
+   * 渲染文本。存在需要高亮的关键词，且文本为纯文本时，把文本中匹配的部分用 `<mark>` 元素包裹。
+   * 文本中包含 HTML 元素时不做高亮，以保留原有的内容
+   */
+  private renderLabel(): TemplateResult {
+    const text = this.getLabelText();
+    const lowerText = text.toLowerCase();
+    const keyword = this.highlight.toLowerCase();
+
+    if (!keyword || !lowerText.includes(keyword) || !this.isPlainLabel()) {
+      return html`<slot part="label" class="label"></slot>`;
+    }
+
+    const parts: (string | TemplateResult)[] = [];
+    let start = 0;
+    let index = lowerText.indexOf(keyword);
+
+    while (index !== -1) {
+      parts.push(text.slice(start, index));
+      parts.push(
+        html`<mark part="highlight" class="highlight"
+          >${text.slice(index, index + keyword.length)}</mark
+        >`,
+      );
+      start = index + keyword.length;
+      index = lowerText.indexOf(keyword, start);
+    }
+    parts.push(text.slice(start));
+
+    return html`<div part="label" class="label">${parts}</div>`;
+  }
+
   private renderInner(
     useDefaultEndIcon: boolean,
     hasIcon: boolean,
@@ -565,17 +635,20 @@ export class MenuItem extends AnchorMixin(
               ? html`<mdui-icon name=${this.icon} class="i"></mdui-icon>`
               : nothingTemplate}
           </slot>`}
-      <div class="label-container">
-        <slot part="label" class="label"></slot>
-      </div>
+      <div class="label-container">${this.renderLabel()}</div>
       <slot name="end-text" part="end-text" class="end-text">
         ${this.endText}
       </slot>
       ${useDefaultEndIcon
-        ? html`<mdui-icon-arrow-right
-            part="end-icon"
-            class="end-icon arrow-right"
-          ></mdui-icon-arrow-right>`
+        ? this.directionController.rtl
+          ? html`<mdui-icon-arrow-left
+              part="end-icon"
+              class="end-icon arrow-right"
+            ></mdui-icon-arrow-left>`
+          : html`<mdui-icon-arrow-right
+              part="end-icon"
+              class="end-icon arrow-right"
+            ></mdui-icon-arrow-right>`
         : html`<slot name="end-icon" part="end-icon" class="end-icon">
             ${this.endIcon
               ? html`<mdui-icon name=${this.endIcon}></mdui-icon>`
@@ -279,9 +279,23 @@ export class Menu extends LitElement {
    * 将焦点设置在当前元素上
    */
   public focus(options?: FocusOptions): void {
-    if (this.lastActiveItem) {
-      this.focusOne(this.lastActiveItem, options);
+    // 最后交互过的菜单项已被隐藏或移除时（如在 <mdui-select> 中筛选了菜单项，或 <mdui-autocomplete> 更新了建议项），焦点放在第一个可见的菜单项上
+    if (
+      !this.lastActiveItem ||
+      this.lastActiveItem.hidden ||
+      !this.items.includes(this.lastActiveItem)
+    ) {
+      const item = this.itemsEnabled.find((item) => !item.hidden);
+
+      if (item) {
+        this.lastActiveItem = item;
+        this.focusableOne(item).then(() => this.focusOne(item, options));
+      }
+
+      return;
     }
+
+    this.focusOne(this.lastActiveItem, options);
   }
 
   /**
@@ -355,12 +369,16 @@ export class Menu extends LitElement {
     }
   }
 
-  // 获取和指定菜单项同级的所有菜单项
+  // 获取和指定菜单项同级的所有菜单项（不包含已隐藏的菜单项）
+  // 直接子元素可能位于不同的父元素中（如 <mdui-select> 中通过 slot 传入的选项和根据数据渲染的选项），因此直接子元素从 childrenItems 中获取
   private getSiblingsItems(item: MenuItem, onlyEnabled = false): MenuItem[] {
-    return $(item)
-      .parent()
-      .children(`mdui-menu-item${onlyEnabled ? ':not([disabled])' : ''}`)
-      .get();
+    const items = this.childrenItems.includes(item)
+      ? this.childrenItems
+      : ($(item).parent().children('mdui-menu-item').get() as MenuItem[]);
+
+    return items.filter(
+      (item) => !item.hidden && (!onlyEnabled || !item.disabled),
+    );
   }
 
   // 更新 menu-item 的可聚焦状态
@@ -11,6 +11,7 @@ import { watch } from '@mdui/shared/decorators/watch.js';
 import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
 import { breakpoint } from '@mdui/shared/helpers/breakpoint.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { getPhysicalPlacement } from '@mdui/shared/helpers/direction.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { Modal } from '@mdui/shared/helpers/modal.js';
 import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
@@ -19,7 +20,6 @@ import { lockScreen, unlockScreen } from '@mdui/shared/helpers/scroll.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { LayoutItemBase } from '../layout/layout-item-base.js';
 import { style } from './style.js';
-import type { LayoutPlacement } from '../layout/helper.js';
 import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
 import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
 import type { Ref } from 'lit/directives/ref.js';
@@ -100,12 +100,15 @@ export class NavigationDrawer extends LayoutItemBase {
    *
    * * `left`：显示在左侧
    * * `right`：显示在右侧
+   * * `start`：显示在起始侧，从左到右布局时为左侧，从右到左布局时为右侧
+   * * `end`：显示在结束侧，从左到右布局时为右侧，从右到左布局时为左侧
    */
   @property({ reflect: true })
-  // eslint-disable-next-line prettier/prettier
   public placement:
     | /*显示在左侧*/ 'left'
-    | /*显示在右侧*/ 'right' = 'left';
+    | /*显示在右侧*/ 'right'
+    | /*显示在起始侧*/ 'start'
+    | /*显示在结束侧*/ 'end' = 'left';
 
   /**
    * 默认抽屉导航相对于 `body` 元素显示，该参数设置为 `true` 时，抽屉导航将相对于它的父元素显示
@@ -139,8 +142,11 @@ export class NavigationDrawer extends LayoutItemBase {
     needDomReady: true,
   });
 
-  protected override get layoutPlacement(): LayoutPlacement {
-    return this.placement;
+  protected override get layoutPlacement(): 'left' | 'right' {
+    return getPhysicalPlacement(
+      this.placement,
+      () => this.directionController.rtl,
+    );
   }
 
   private get lockTarget() {
@@ -205,7 +211,7 @@ export class NavigationDrawer extends LayoutItemBase {
   private async onOpenChange() {
     let panel = this.panelRef.value!;
     let overlay = this.overlayRef.value!;
-    const isRight = this.placement === 'right';
+    const isRight = this.layoutPlacement === 'right';
     const easingLinear = getEasing(this, 'linear');
     const easingEmphasized = getEasing(this, 'emphasized');
 
@@ -459,7 +465,7 @@ export class NavigationDrawer extends LayoutItemBase {
 
   private getLockTargetAnimate(open: boolean, duration: number) {
     const paddingName =
-      this.placement === 'right' ? 'paddingRight' : 'paddingLeft';
+      this.layoutPlacement === 'right' ? 'paddingRight' : 'paddingLeft';
     const panelWidth = $(this.panelRef.value!).innerWidth() + 'px';
 
     return animateTo(
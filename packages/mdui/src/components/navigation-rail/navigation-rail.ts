@@ -13,12 +13,12 @@ import { DefinedController } from '@mdui/shared/controllers/defined.js';
 import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { getPhysicalPlacement } from '@mdui/shared/helpers/direction.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { LayoutItemBase } from '../layout/layout-item-base.js';
 import { navigationRailStyle } from './navigation-rail-style.js';
 import type { NavigationRailItem as NavigationRailItemOriginal } from './navigation-rail-item.js';
-import type { LayoutPlacement } from '../layout/helper.js';
 import type { CSSResultGroup, TemplateResult } from 'lit';
 
 type NavigationRailItem = NavigationRailItemOriginal & {
@@ -70,12 +70,15 @@ export class NavigationRail extends LayoutItemBase {
    *
    * * `left`：显示在左侧
    * * `right`：显示在右侧
+   * * `start`：显示在起始侧，从左到右布局时为左侧，从右到左布局时为右侧
+   * * `end`：显示在结束侧，从左到右布局时为右侧，从右到左布局时为左侧
    */
   @property({ reflect: true })
-  // eslint-disable-next-line prettier/prettier
   public placement:
     | /*显示在左侧*/ 'left'
-    | /*显示在右侧*/ 'right' = 'left';
+    | /*显示在右侧*/ 'right'
+    | /*显示在起始侧*/ 'start'
+    | /*显示在结束侧*/ 'end' = 'left';
 
   /**
    * 导航栏中的 `<mdui-navigation-rail-item>` 元素的对齐方式。可选值为：
@@ -135,8 +138,11 @@ export class NavigationRail extends LayoutItemBase {
   // 是否是初始状态，初始状态不触发事件，不执行动画
   private isInitial = true;
 
-  protected override get layoutPlacement(): LayoutPlacement {
-    return this.placement;
+  protected override get layoutPlacement(): 'left' | 'right' {
+    return getPhysicalPlacement(
+      this.placement,
+      () => this.directionController.rtl,
+    );
   }
 
   private get parentTarget() {
@@ -146,7 +152,7 @@ export class NavigationRail extends LayoutItemBase {
   }
 
   private get isRight() {
-    return this.placement === 'right';
+    return this.layoutPlacement === 'right';
   }
 
   private get paddingValue(): number | undefined {
@@ -204,7 +210,7 @@ export class NavigationRail extends LayoutItemBase {
     this.layoutManager?.updateLayout(this);
 
     this.items.forEach((item) => {
-      item.placement = this.placement;
+      item.placement = this.layoutPlacement;
     });
 
     if (!this.isParentLayout) {
@@ -239,6 +245,11 @@ export class NavigationRail extends LayoutItemBase {
     }
   }
 
+  // 文本方向变更也会导致 `start`、`end` 对应的左右位置变更
+  protected override onDirectionChange(): void {
+    this.onPlacementChange();
+  }
+
   protected override render(): TemplateResult {
     const hasTopSlot = this.hasSlotController.test('top');
     const hasBottomSlot = this.hasSlotController.test('bottom');
@@ -281,7 +292,7 @@ export class NavigationRail extends LayoutItemBase {
   private updateItems() {
     this.items.forEach((item) => {
       item.active = this.activeKey === item.key;
-      item.placement = this.placement;
+      item.placement = this.layoutPlacement;
       item.isInitial = this.isInitial;
     });
   }
@@ -0,0 +1 @@
+export * from './pagination/index.js';
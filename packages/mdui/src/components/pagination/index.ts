@@ -0,0 +1,225 @@
+import { html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { map } from 'lit/directives/map.js';
+import { when } from 'lit/directives/when.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { clamp } from '@mdui/shared/helpers/number.js';
+import '@mdui/shared/icons/chevron-left.js';
+import '@mdui/shared/icons/chevron-right.js';
+import '@mdui/shared/icons/first-page.js';
+import '@mdui/shared/icons/last-page.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import '../button-icon.js';
+import '../menu-item.js';
+import '../select.js';
+import { style } from './style.js';
+import type { Select } from '../select.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+
+/**
+ * @summary 分页组件
+ *
+ * ```html
+ * <mdui-pagination total="100"></mdui-pagination>
+ * ```
+ *
+ * @event change - 页码或每页条数变更时触发
+ *
+ * @csspart page-size - 每页条数的容器
+ * @csspart page-size-label - 每页条数的文本
+ * @csspart page-size-select - 每页条数的下拉选择，即 [`<mdui-select>`](/docs/2/components/select) 元素
+ * @csspart range - 当前页的数据范围文本
+ * @csspart first-button - 第一页按钮，即 [`<mdui-button-icon>`](/docs/2/components/button-icon) 元素
+ * @csspart prev-button - 上一页按钮，即 [`<mdui-button-icon>`](/docs/2/components/button-icon) 元素
+ * @csspart next-button - 下一页按钮，即 [`<mdui-button-icon>`](/docs/2/components/button-icon) 元素
+ * @csspart last-button - 最后一页按钮，即 [`<mdui-button-icon>`](/docs/2/components/button-icon) 元素
+ */
+@customElement('mdui-pagination')
+export class Pagination extends LitElement {
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 分页组件的形式。可选值为：
+   *
+   * * `full`：包含每页条数选择、数据范围、第一页、上一页、下一页、最后一页按钮
+   * * `compact`：仅包含数据范围、上一页、下一页按钮
+   */
+  @property({ reflect: true })
+  public variant:
+    | /*包含每页条数选择、数据范围、第一页、上一页、下一页、最后一页按钮*/ 'full'
+    | /*仅包含数据范围、上一页、下一页按钮*/ 'compact' = 'full';
+
+  /**
+   * 数据总条数
+   */
+  @property({ type: Number, reflect: true })
+  public total = 0;
+
+  /**
+   * 每页条数
+   */
+  @property({ type: Number, reflect: true, attribute: 'page-size' })
+  public pageSize = 10;
+
+  /**
+   * 当前页码，从 `1` 开始
+   */
+  @property({ type: Number, reflect: true })
+  public page = 1;
+
+  /**
+   * 可选择的每页条数。该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public pageSizes: number[] = [10, 20, 50, 100];
+
+  /**
+   * 每页条数的文本。默认使用当前语言的翻译
+   */
+  @property({ reflect: true, attribute: 'page-size-label' })
+  public pageSizeLabel?: string;
+
+  private readonly localeController = new LocaleController(this);
+  private readonly directionController = new DirectionController(this);
+
+  /**
+   * 总页数
+   */
+  public get pageCount(): number {
+    return this.pageSize > 0
+      ? Math.max(Math.ceil(this.total / this.pageSize), 1)
+      : 1;
+  }
+
+  @watch('page')
+  @watch('total')
+  @watch('pageSize')
+  private onPageCountChange() {
+    // 从外部设置页码，或总条数、每页条数变更后，当前页码可能超出总页数
+    const page = clamp(this.page || 1, 1, this.pageCount);
+
+    if (page !== this.page) {
+      this.page = page;
+    }
+  }
+
+  protected override render(): TemplateResult {
+    const isFull = this.variant === 'full';
+    const hasPrev = this.page > 1;
+    const hasNext = this.page < this.pageCount;
+    const start = this.total ? (this.page - 1) * this.pageSize + 1 : 0;
+    const end = Math.min(this.page * this.pageSize, this.total);
+    // 从右到左布局时，翻页按钮的图标需要左右互换
+    const rtl = this.directionController.rtl;
+
+    return html`${when(
+        isFull,
+        () =>
+          html`<div part="page-size" class="page-size">
+            <span part="page-size-label" class="page-size-label"
+              >${this.pageSizeLabel ??
+              this.localeController.translate('rowsPerPage')}</span
+            >
+            <mdui-select
+              part="page-size-select"
+              class="page-size-select"
+              variant="outlined"
+              .value=${String(this.pageSize)}
+              @change=${this.onPageSizeChange}
+            >
+              ${map(
+                this.pageSizes,
+                (pageSize) =>
+                  html`<mdui-menu-item value=${String(pageSize)}
+                    >${pageSize}</mdui-menu-item
+                  >`,
+              )}
+            </mdui-select>
+          </div>`,
+      )}
+      <span part="range" class="range">${start}-${end} / ${this.total}</span>
+      ${when(
+        isFull,
+        () =>
+          html`<mdui-button-icon
+            part="first-button"
+            aria-label=${this.localeController.translate('firstPage')}
+            .disabled=${!hasPrev}
+            @click=${() => this.setPage(1)}
+          >
+            ${rtl
+              ? html`<mdui-icon-last-page></mdui-icon-last-page>`
+              : html`<mdui-icon-first-page></mdui-icon-first-page>`}
+          </mdui-button-icon>`,
+      )}
+      <mdui-button-icon
+        part="prev-button"
+        aria-label=${this.localeController.translate('previousPage')}
+        .disabled=${!hasPrev}
+        @click=${() => this.setPage(this.page - 1)}
+      >
+        ${rtl
+          ? html`<mdui-icon-chevron-right></mdui-icon-chevron-right>`
+          : html`<mdui-icon-chevron-left></mdui-icon-chevron-left>`}
+      </mdui-button-icon>
+      <mdui-button-icon
+        part="next-button"
+        aria-label=${this.localeController.translate('nextPage')}
+        .disabled=${!hasNext}
+        @click=${() => this.setPage(this.page + 1)}
+      >
+        ${rtl
+          ? html`<mdui-icon-chevron-left></mdui-icon-chevron-left>`
+          : html`<mdui-icon-chevron-right></mdui-icon-chevron-right>`}
+      </mdui-button-icon>
+      ${when(
+        isFull,
+        () =>
+          html`<mdui-button-icon
+            part="last-button"
+            aria-label=${this.localeController.translate('lastPage')}
+            .disabled=${!hasNext}
+            @click=${() => this.setPage(this.pageCount)}
+          >
+            ${rtl
+              ? html`<mdui-icon-first-page></mdui-icon-first-page>`
+              : html`<mdui-icon-last-page></mdui-icon-last-page>`}
+          </mdui-button-icon>`,
+      )}`;
+  }
+
+  private setPage(page: number) {
+    page = clamp(page, 1, this.pageCount);
+
+    if (page !== this.page) {
+      this.page = page;
+      emit(this, 'change');
+    }
+  }
+
+  /**
+   * 每页条数变更后，保持当前页的第一条数据仍在新的当前页中
+   */
+  private onPageSizeChange(event: Event) {
+    event.stopPropagation();
+
+    const pageSize = Number((event.target as Select).value);
+    if (!pageSize || pageSize === this.pageSize) {
+      return;
+    }
+
+    const firstIndex = (this.page - 1) * this.pageSize;
+    this.pageSize = pageSize;
+    this.page = Math.floor(firstIndex / pageSize) + 1;
+    emit(this, 'change');
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-pagination': Pagination;
+  }
+}
@@ -12,8 +12,10 @@ import { FormController, formResets } from '@mdui/shared/controllers/form.js';
 import { defaultValue } from '@mdui/shared/decorators/default-value.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { isRtl } from '@mdui/shared/helpers/direction.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
 import { radioGroupStyle } from './radio-group-style.js';
 import type { Radio as RadioOriginal } from './radio.js';
 import type { FormControl } from '@mdui/jq/shared/form.js';
@@ -40,11 +42,16 @@ type Radio = RadioOriginal & {
  * @event change - 选中值变化时触发
  * @event input - 选中值变化时触发
  * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  *
  * @slot - `<mdui-radio>` 元素
  */
 @customElement('mdui-radio-group')
-export class RadioGroup extends LitElement implements FormControl {
+export class RadioGroup
+  extends ValidatorMixin(LitElement)
+  implements FormControl
+{
   public static override styles: CSSResultGroup = [
     componentStyle,
     radioGroupStyle,
@@ -155,6 +162,7 @@ export class RadioGroup extends LitElement implements FormControl {
       formResets.get(form)!.delete(this);
     } else {
       this.invalid = !this.inputRef.value!.checkValidity();
+      this.formController.requestValidate();
     }
   }
 
@@ -208,12 +216,7 @@ export class RadioGroup extends LitElement implements FormControl {
     return !this.invalid;
   }
 
-  /**
-   * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
-   *
-   * @param message 自定义的提示文本
-   */
-  public setCustomValidity(message: string): void {
+  protected override applyCustomValidity(message: string): void {
     this.inputRef.value!.setCustomValidity(message);
     this.invalid = !this.inputRef.value!.checkValidity();
   }
@@ -294,12 +297,11 @@ export class RadioGroup extends LitElement implements FormControl {
 
     const items = this.itemsEnabled;
     const itemChecked = items.find((item) => item.checked) ?? items[0];
-    const incr =
-      event.key === ' '
-        ? 0
-        : ['ArrowUp', 'ArrowLeft'].includes(event.key)
-        ? -1
-        : 1;
+    // 从右到左布局时，ArrowLeft 切换到下一项，ArrowRight 切换到上一项
+    const prevKeys = isRtl(this)
+      ? ['ArrowUp', 'ArrowRight']
+      : ['ArrowUp', 'ArrowLeft'];
+    const incr = event.key === ' ' ? 0 : prevKeys.includes(event.key) ? -1 : 1;
     let index = items.indexOf(itemChecked) + incr;
     if (index < 0) {
       index = items.length - 1;
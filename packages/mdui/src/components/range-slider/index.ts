@@ -7,6 +7,7 @@ import { styleMap } from 'lit/directives/style-map.js';
 import { when } from 'lit/directives/when.js';
 import { $ } from '@mdui/jq/$.js';
 import '@mdui/jq/methods/css.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
 import { FormController, formResets } from '@mdui/shared/controllers/form.js';
 import { defaultValue } from '@mdui/shared/decorators/default-value.js';
 import { SliderBase } from '../slider/slider-base.js';
@@ -27,6 +28,8 @@ import type { Ref } from 'lit/directives/ref.js';
  * @event change - 在值发生了变更，且失去了焦点时，将触发该事件
  * @event input - 值变更时触发
  * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  *
  * @csspart track-inactive - 未激活状态的轨道
  * @csspart track-active - 已激活状态的轨道
@@ -58,6 +61,11 @@ export class RangeSlider extends SliderBase implements FormControl {
   private readonly handleStartRef: Ref<HTMLElement> = createRef();
   private readonly handleEndRef: Ref<HTMLElement> = createRef();
   private readonly formController = new FormController(this);
+  // 从右到左布局时，滑块从右往左滑动，文本方向变更时需要重新计算位置
+  private readonly directionController = new DirectionController(
+    this,
+    () => this.hasUpdated && this.updateStyle(),
+  );
   private _value: number[] = [];
 
   /**
@@ -85,6 +93,7 @@ export class RangeSlider extends SliderBase implements FormControl {
         formResets.get(form)!.delete(this);
       } else {
         this.invalid = !this.inputRef.value!.checkValidity();
+        this.formController.requestValidate();
       }
     });
   }
@@ -116,9 +125,13 @@ export class RangeSlider extends SliderBase implements FormControl {
       // 计算出鼠标悬浮位置的值，<mdui-range-slider> 元素的左右两侧有内边距，计算时要去除内边距
       const paddingLeft = parseFloat($this.css('padding-left'));
       const paddingRight = parseFloat($this.css('padding-right'));
-      const percent =
+      const offsetPercent =
         (event.offsetX - paddingLeft) /
         (this.clientWidth - paddingLeft - paddingRight);
+      // 从右到左布局时，最小值位于右侧
+      const percent = this.directionController.rtl
+        ? 1 - offsetPercent
+        : offsetPercent;
       const pointerValue = (this.max - this.min) * percent + this.min;
 
       // 计算 this.value 两个值中间位置的值
@@ -224,7 +237,9 @@ export class RangeSlider extends SliderBase implements FormControl {
                 active: value > this.value[0] && value < this.value[1],
               })}"
               style="${styleMap({
-                left: `${((value - this.min) / this.max) * 100}%`,
+                left: `${this.getPosition(
+                  ((value - this.min) / this.max) * 100,
+                )}%`,
                 display:
                   value === this.value[0] || value === this.value[1]
                     ? 'none'
@@ -243,6 +258,13 @@ export class RangeSlider extends SliderBase implements FormControl {
     return this.currentHandle === 'start' ? 0 : 1;
   };
 
+  /**
+   * 把百分比转换为距离左侧的百分比。从右到左布局时，百分比从右侧开始计算
+   */
+  private getPosition(percent: number): number {
+    return this.directionController.rtl ? 100 - percent : percent;
+  }
+
   private updateStyle() {
     const getPercent = (value: number) =>
       ((value - this.min) / (this.max - this.min)) * 100;
@@ -251,9 +273,14 @@ export class RangeSlider extends SliderBase implements FormControl {
     const endPercent = getPercent(this.value[1]);
 
     this.trackActiveRef.value!.style.width = `${endPercent - startPercent}%`;
-    this.trackActiveRef.value!.style.left = `${startPercent}%`;
-    this.handleStartRef.value!.style.left = `${startPercent}%`;
-    this.handleEndRef.value!.style.left = `${endPercent}%`;
+    this.trackActiveRef.value!.style.left = `${Math.min(
+      this.getPosition(startPercent),
+      this.getPosition(endPercent),
+    )}%`;
+    this.handleStartRef.value!.style.left = `${this.getPosition(
+      startPercent,
+    )}%`;
+    this.handleEndRef.value!.style.left = `${this.getPosition(endPercent)}%`;
   }
 
   private onInput() {
@@ -0,0 +1 @@
+export * from './search-bar/search-bar.js';
@@ -0,0 +1,186 @@
+import { html, LitElement } from 'lit';
+import {
+  customElement,
+  property,
+  queryAssignedElements,
+} from 'lit/decorators.js';
+import { live } from 'lit/directives/live.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import '@mdui/shared/icons/search.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import '../icon.js';
+import { searchBarStyle } from './search-bar-style.js';
+import type { SearchView } from './search-view.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * 包含 [`<mdui-search-view>`](/docs/2/components/search-bar#search-view-api) 元素时，点击搜索栏会打开搜索视图，并在搜索视图中输入；否则可直接在搜索栏中输入
+ *
+ * @summary 搜索栏组件
+ *
+ * ```html
+ * <mdui-search-bar placeholder="Search">
+ * ..<mdui-search-view></mdui-search-view>
+ * </mdui-search-bar>
+ * ```
+ *
+ * @event input - 输入框的值变更时触发
+ * @event search - 未包含 `<mdui-search-view>` 元素时，在输入框中按下 Enter 键时触发
+ *
+ * @slot icon - 左侧的图标
+ * @slot end-icon - 右侧的元素，如头像、图标按钮等
+ * @slot - `<mdui-search-view>` 元素
+ *
+ * @csspart container - 搜索栏容器
+ * @csspart icon - 左侧的图标
+ * @csspart input - 输入框
+ * @csspart end-icon - 右侧的元素
+ *
+ * @cssprop --shape-corner - 组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ */
+@customElement('mdui-search-bar')
+export class SearchBar extends LitElement {
+  public static override styles: CSSResultGroup = [
+    componentStyle,
+    searchBarStyle,
+  ];
+
+  /**
+   * 输入框的值。包含 `<mdui-search-view>` 元素时，会与搜索视图中输入框的值保持同步
+   */
+  @property()
+  public value = '';
+
+  /**
+   * 输入框的占位文本。包含 `<mdui-search-view>` 元素，且该元素未设置 `placeholder` 属性时，也会作为搜索视图的占位文本
+   */
+  @property({ reflect: true })
+  public placeholder?: string;
+
+  /**
+   * 左侧的 Material Icons 图标名。也可以通过 `slot="icon"` 设置
+   */
+  @property({ reflect: true })
+  public icon?: string;
+
+  @queryAssignedElements({ selector: 'mdui-search-view', flatten: true })
+  private readonly searchViews!: SearchView[];
+
+  private readonly inputRef: Ref<HTMLInputElement> = createRef();
+
+  private get searchView(): SearchView | undefined {
+    return this.searchViews[0];
+  }
+
+  /**
+   * 将焦点设置在输入框上
+   */
+  public override focus(options?: FocusOptions): void {
+    this.inputRef.value?.focus(options);
+  }
+
+  /**
+   * 从输入框移除焦点
+   */
+  public override blur(): void {
+    this.inputRef.value?.blur();
+  }
+
+  protected override render(): TemplateResult {
+    return html`<div part="container" class="container" @click=${this.onClick}>
+        <slot name="icon" part="icon" class="icon">
+          ${this.icon
+            ? html`<mdui-icon name=${this.icon} class="i"></mdui-icon>`
+            : html`<mdui-icon-search class="i"></mdui-icon-search>`}
+        </slot>
+        <input
+          ${ref(this.inputRef)}
+          part="input"
+          class="input"
+          type="text"
+          enterkeyhint="search"
+          autocomplete="off"
+          placeholder=${this.placeholder ?? ''}
+          ?readonly=${!!this.searchView}
+          .value=${live(this.value)}
+          @input=${this.onInput}
+          @keydown=${this.onKeyDown}
+        />
+        <slot name="end-icon" part="end-icon" class="end-icon"></slot>
+      </div>
+      <slot
+        @slotchange=${this.onSlotChange}
+        @input=${this.onSearchViewInput}
+      ></slot>`;
+  }
+
+  /**
+   * 打开搜索视图，并把当前的值同步到搜索视图中
+   */
+  private openSearchView() {
+    const searchView = this.searchView!;
+
+    searchView.value = this.value;
+    if (!searchView.placeholder) {
+      searchView.placeholder = this.placeholder;
+    }
+    searchView.open = true;
+  }
+
+  /**
+   * 点击搜索栏（右侧的元素除外）时，打开搜索视图
+   */
+  private onClick(event: MouseEvent) {
+    if (!this.searchView || this.searchView.open) {
+      return;
+    }
+
+    const endIcon = this.renderRoot.querySelector('.end-icon')!;
+    if (event.composedPath().includes(endIcon)) {
+      return;
+    }
+
+    this.openSearchView();
+  }
+
+  private onInput() {
+    this.value = this.inputRef.value!.value;
+    emit(this, 'input');
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if (event.key !== 'Enter' || event.isComposing) {
+      return;
+    }
+
+    event.preventDefault();
+
+    if (this.searchView) {
+      this.openSearchView();
+    } else {
+      emit(this, 'search');
+    }
+  }
+
+  // 添加或移除 `<mdui-search-view>` 元素后，需要更新输入框的 readonly 状态
+  private onSlotChange() {
+    this.requestUpdate();
+  }
+
+  /**
+   * 搜索视图中的值变更时，同步到搜索栏
+   */
+  private onSearchViewInput(event: Event) {
+    if (event.target === this.searchView) {
+      this.value = this.searchView!.value;
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-search-bar': SearchBar;
+  }
+}
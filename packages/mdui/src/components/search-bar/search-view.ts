@@ -0,0 +1,420 @@
+import { html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { live } from 'lit/directives/live.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { when } from 'lit/directives/when.js';
+import { DefinedController } from '@mdui/shared/controllers/defined.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
+import { breakpoint } from '@mdui/shared/helpers/breakpoint.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { Modal } from '@mdui/shared/helpers/modal.js';
+import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
+import { observeResize } from '@mdui/shared/helpers/observeResize.js';
+import { lockScreen, unlockScreen } from '@mdui/shared/helpers/scroll.js';
+import '@mdui/shared/icons/arrow-back.js';
+import '@mdui/shared/icons/arrow-forward.js';
+import '@mdui/shared/icons/clear.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import '../button-icon.js';
+import '../icon.js';
+import { searchViewStyle } from './search-view-style.js';
+import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * 在手机端（宽度小于 [`--mdui-breakpoint-md`](/docs/2/styles/design-tokens#breakpoint) 时）全屏显示；大于手机端时，停靠在搜索栏位置显示
+ *
+ * 输入框为空时，显示 `history` slot 中的内容；输入框不为空时，显示 `suggestion` slot 中的内容
+ *
+ * @summary 搜索视图组件。通常放在 [`<mdui-search-bar>`](/docs/2/components/search-bar) 组件中使用
+ *
+ * ```html
+ * <mdui-search-bar>
+ * ..<mdui-search-view>
+ * ....<mdui-list-item slot="suggestion">Suggestion</mdui-list-item>
+ * ....<mdui-list-item slot="history">History</mdui-list-item>
+ * ..</mdui-search-view>
+ * </mdui-search-bar>
+ * ```
+ *
+ * @event open - 在搜索视图打开之前触发。可以通过调用 `event.preventDefault()` 阻止搜索视图打开
+ * @event opened - 在搜索视图打开之后触发
+ * @event close - 在搜索视图关闭之前触发。可以通过调用 `event.preventDefault()` 阻止搜索视图关闭
+ * @event closed - 在搜索视图关闭之后触发
+ * @event input - 输入框的值变更时触发
+ * @event clear - 点击清空按钮时触发
+ * @event search - 在输入框中按下 Enter 键时触发。若未调用 `event.preventDefault()`，则随后会关闭搜索视图
+ *
+ * @slot back-button - 左侧的返回按钮
+ * @slot back-icon - 左侧的返回按钮中的图标
+ * @slot end-icon - 输入框右侧的元素
+ * @slot suggestion - 输入框不为空时显示的搜索建议
+ * @slot history - 输入框为空时显示的搜索历史
+ *
+ * @csspart container - 搜索视图容器
+ * @csspart header - 顶部区域，包含返回按钮、输入框、清空按钮和 `end-icon` slot
+ * @csspart back-button - 返回按钮
+ * @csspart back-icon - 返回按钮中的图标
+ * @csspart input - 输入框
+ * @csspart clear-button - 清空按钮
+ * @csspart end-icon - 输入框右侧的元素
+ * @csspart divider - 顶部区域和内容区域之间的分割线
+ * @csspart body - 内容区域
+ * @csspart suggestion - 搜索建议
+ * @csspart history - 搜索历史
+ *
+ * @cssprop --shape-corner - 停靠显示时，组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ * @cssprop --z-index - 组件的 CSS 的 `z-index` 值
+ */
+@customElement('mdui-search-view')
+export class SearchView extends LitElement {
+  public static override styles: CSSResultGroup = [
+    componentStyle,
+    searchViewStyle,
+  ];
+
+  /**
+   * 是否打开搜索视图
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public open = false;
+
+  /**
+   * 输入框的值
+   */
+  @property()
+  public value = '';
+
+  /**
+   * 输入框的占位文本
+   */
+  @property({ reflect: true })
+  public placeholder?: string;
+
+  /**
+   * 返回按钮中的 Material Icons 图标名。也可以通过 `slot="back-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'back-icon' })
+  public backIcon?: string;
+
+  // 断点为 mobile 时为 `true`，此时全屏显示
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  private mobile = false;
+
+  // 用于在打开搜索视图前，记录当前聚焦的元素；在关闭搜索视图后，把焦点还原到该元素上
+  private originalTrigger!: HTMLElement;
+
+  private observeResize?: ObserveResize;
+  private modalHelper!: Modal;
+  private readonly containerRef: Ref<HTMLElement> = createRef();
+  private readonly inputRef: Ref<HTMLInputElement> = createRef();
+  private readonly definedController = new DefinedController(this, {
+    needDomReady: true,
+  });
+  private readonly localeController = new LocaleController(this);
+  private readonly directionController = new DirectionController(this);
+
+  public constructor() {
+    super();
+
+    this.onDocumentClick = this.onDocumentClick.bind(this);
+  }
+
+  @watch('mobile', true)
+  private onMobileChange() {
+    if (!this.open) {
+      return;
+    }
+
+    // 全屏显示时，才锁定页面滚动
+    if (this.mobile) {
+      this.modalHelper.activate();
+      lockScreen(this);
+    } else {
+      this.modalHelper.deactivate();
+      unlockScreen(this);
+    }
+  }
+
+  @watch('open')
+  private async onOpenChange() {
+    const hasUpdated = this.hasUpdated;
+
+    // 默认为关闭状态。因此首次渲染时，且为关闭状态，不执行
+    if (!this.open && !hasUpdated) {
+      return;
+    }
+
+    await this.definedController.whenDefined();
+
+    if (!hasUpdated) {
+      await this.updateComplete;
+    }
+
+    const container = this.containerRef.value!;
+    const easingLinear = getEasing(this, 'linear');
+    const easingEmphasizedDecelerate = getEasing(this, 'emphasized-decelerate');
+    const easingEmphasizedAccelerate = getEasing(this, 'emphasized-accelerate');
+
+    // 打开
+    // 要区分是否首次渲染，首次渲染不触发事件，不执行动画；非首次渲染，触发事件，执行动画
+    if (this.open) {
+      if (hasUpdated) {
+        const requestOpen = emit(this, 'open', {
+          cancelable: true,
+        });
+        if (requestOpen.defaultPrevented) {
+          return;
+        }
+      }
+
+      this.style.display = 'block';
+
+      this.originalTrigger = document.activeElement as HTMLElement;
+      if (this.mobile) {
+        this.modalHelper.activate();
+        lockScreen(this);
+      }
+
+      await stopAnimations(container);
+
+      requestAnimationFrame(() => {
+        this.inputRef.value!.focus({ preventScroll: true });
+      });
+
+      const duration = getDuration(this, 'medium4');
+
+      await Promise.all([
+        animateTo(
+          container,
+          [{ transform: 'scaleY(0.4)' }, { transform: 'scaleY(1)' }],
+          {
+            duration: hasUpdated ? duration : 0,
+            easing: easingEmphasizedDecelerate,
+          },
+        ),
+        animateTo(
+          container,
+          [{ opacity: 0 }, { opacity: 1, offset: 0.2 }, { opacity: 1 }],
+          {
+            duration: hasUpdated ? duration : 0,
+            easing: easingLinear,
+          },
+        ),
+      ]);
+
+      if (hasUpdated) {
+        emit(this, 'opened');
+      }
+    } else {
+      const requestClose = emit(this, 'close', {
+        cancelable: true,
+      });
+      if (requestClose.defaultPrevented) {
+        return;
+      }
+
+      this.modalHelper.deactivate();
+      await stopAnimations(container);
+
+      const duration = getDuration(this, 'short4');
+
+      await Promise.all([
+        animateTo(
+          container,
+          [{ transform: 'scaleY(1)' }, { transform: 'scaleY(0.4)' }],
+          { duration, easing: easingEmphasizedAccelerate },
+        ),
+        animateTo(
+          container,
+          [{ opacity: 1 }, { opacity: 1, offset: 0.5 }, { opacity: 0 }],
+          { duration, easing: easingLinear },
+        ),
+      ]);
+
+      this.style.display = 'none';
+      unlockScreen(this);
+
+      // 搜索视图关闭后，恢复焦点到原有的元素上
+      const trigger = this.originalTrigger;
+      if (typeof trigger?.focus === 'function') {
+        setTimeout(() => trigger.focus());
+      }
+
+      emit(this, 'closed');
+    }
+  }
+
+  public override connectedCallback(): void {
+    super.connectedCallback();
+
+    this.modalHelper = new Modal(this);
+
+    this.definedController.whenDefined().then(() => {
+      document.addEventListener('pointerdown', this.onDocumentClick);
+
+      this.observeResize = observeResize(document.body, () => {
+        this.mobile = breakpoint().down('md');
+      });
+    });
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+
+    document.removeEventListener('pointerdown', this.onDocumentClick);
+    this.modalHelper.deactivate();
+    unlockScreen(this);
+    this.observeResize?.unobserve();
+  }
+
+  /**
+   * 将焦点设置在输入框上
+   */
+  public override focus(options?: FocusOptions): void {
+    this.inputRef.value?.focus(options);
+  }
+
+  /**
+   * 从输入框移除焦点
+   */
+  public override blur(): void {
+    this.inputRef.value?.blur();
+  }
+
+  protected override render(): TemplateResult {
+    const hasValue = !!this.value;
+
+    return html`<div
+      ${ref(this.containerRef)}
+      part="container"
+      class="container"
+    >
+      <div part="header" class="header">
+        <slot
+          name="back-button"
+          part="back-button"
+          class="back-button"
+          @click=${this.onBackClick}
+        >
+          <mdui-button-icon
+            aria-label=${this.localeController.translate('back')}
+          >
+            <slot name="back-icon" part="back-icon">
+              ${this.backIcon
+                ? html`<mdui-icon name=${this.backIcon} class="i"></mdui-icon>`
+                : this.directionController.rtl
+                ? html`<mdui-icon-arrow-forward
+                    class="i"
+                  ></mdui-icon-arrow-forward>`
+                : html`<mdui-icon-arrow-back class="i"></mdui-icon-arrow-back>`}
+            </slot>
+          </mdui-button-icon>
+        </slot>
+        <input
+          ${ref(this.inputRef)}
+          part="input"
+          class="input"
+          type="text"
+          enterkeyhint="search"
+          autocomplete="off"
+          placeholder=${this.placeholder ?? ''}
+          .value=${live(this.value)}
+          @input=${this.onInput}
+          @keydown=${this.onKeyDown}
+        />
+        ${when(
+          hasValue,
+          () =>
+            html`<mdui-button-icon
+              part="clear-button"
+              class="clear-button"
+              aria-label=${this.localeController.translate('clear')}
+              @click=${this.onClear}
+            >
+              <mdui-icon-clear class="i"></mdui-icon-clear>
+            </mdui-button-icon>`,
+        )}
+        <slot name="end-icon" part="end-icon" class="end-icon"></slot>
+      </div>
+      <div part="divider" class="divider"></div>
+      <div part="body" class="body">
+        ${hasValue
+          ? html`<slot
+              name="suggestion"
+              part="suggestion"
+              class="suggestion"
+            ></slot>`
+          : html`<slot name="history" part="history" class="history"></slot>`}
+      </div>
+    </div>`;
+  }
+
+  /**
+   * 停靠显示时，点击搜索视图外部区域，关闭搜索视图
+   */
+  private onDocumentClick(event: MouseEvent) {
+    if (!this.open || this.mobile) {
+      return;
+    }
+
+    const path = event.composedPath();
+    const searchBar = this.closest('mdui-search-bar');
+    if (!path.includes(this) && (!searchBar || !path.includes(searchBar))) {
+      this.open = false;
+    }
+  }
+
+  private onBackClick() {
+    this.open = false;
+  }
+
+  private onInput() {
+    this.value = this.inputRef.value!.value;
+    emit(this, 'input');
+  }
+
+  private onClear(event: MouseEvent) {
+    event.stopPropagation();
+    this.value = '';
+    emit(this, 'clear');
+    emit(this, 'input');
+    this.focus();
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      this.open = false;
+      return;
+    }
+
+    if (event.key === 'Enter' && !event.isComposing) {
+      event.preventDefault();
+
+      const requestSearch = emit(this, 'search', { cancelable: true });
+      if (!requestSearch.defaultPrevented) {
+        this.open = false;
+      }
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-search-view': SearchView;
+  }
+}
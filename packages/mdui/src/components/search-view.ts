@@ -0,0 +1 @@
+export * from './search-bar/search-view.js';
@@ -16,6 +16,7 @@ import { arraysEqualIgnoreOrder } from '@mdui/shared/helpers/array.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
 import { segmentedButtonGroupStyle } from './segmented-button-group-style.js';
 import type { SegmentedButton as SegmentedButtonOriginal } from './segmented-button.js';
 import type { FormControl } from '@mdui/jq/shared/form.js';
@@ -42,13 +43,18 @@ type SegmentedButton = SegmentedButtonOriginal & {
  *
  * @event change - 选中的值变更时触发
  * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  *
  * @slot - `<mdui-segmented-button>` 组件
  *
  * @cssprop --shape-corner - 组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
  */
 @customElement('mdui-segmented-button-group')
-export class SegmentedButtonGroup extends LitElement implements FormControl {
+export class SegmentedButtonGroup
+  extends ValidatorMixin(LitElement)
+  implements FormControl
+{
   public static override styles: CSSResultGroup = [
     componentStyle,
     segmentedButtonGroupStyle,
@@ -265,6 +271,7 @@ export class SegmentedButtonGroup extends LitElement implements FormControl {
         formResets.get(form)!.delete(this);
       } else {
         this.invalid = !this.inputRef.value!.checkValidity();
+        this.formController.requestValidate();
       }
     }
   }
@@ -331,12 +338,7 @@ export class SegmentedButtonGroup extends LitElement implements FormControl {
     return !this.invalid;
   }
 
-  /**
-   * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
-   *
-   * @param message 自定义的提示文本
-   */
-  public setCustomValidity(message: string): void {
+  protected override applyCustomValidity(message: string): void {
     this.inputRef.value!.setCustomValidity(message);
     this.invalid = !this.inputRef.value!.checkValidity();
   }
@@ -2,6 +2,7 @@ import { html, LitElement, nothing, PropertyValues } from 'lit';
 import {
   customElement,
   property,
+  queryAll,
   queryAssignedElements,
   state,
 } from 'lit/decorators.js';
@@ -9,21 +10,27 @@ import { ifDefined } from 'lit/directives/if-defined.js';
 import { map } from 'lit/directives/map.js';
 import { createRef, ref } from 'lit/directives/ref.js';
 import { when } from 'lit/directives/when.js';
-import { isString } from '@mdui/jq/shared/helper.js';
+import { isString, isUndefined } from '@mdui/jq/shared/helper.js';
 import { DefinedController } from '@mdui/shared/controllers/defined.js';
 import { FormController, formResets } from '@mdui/shared/controllers/form.js';
 import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
 import { defaultValue } from '@mdui/shared/decorators/default-value.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { observeResize } from '@mdui/shared/helpers/observeResize.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
 import '../chip.js';
+import '../circular-progress.js';
 import '../dropdown.js';
+import '../list-subheader.js';
 import '../menu.js';
 import '../text-field.js';
 import { style } from './style.js';
+import type { Dropdown } from '../dropdown.js';
 import type { MenuItem } from '../menu/menu-item.js';
 import type { Menu } from '../menu/menu.js';
 import type { TextField } from '../text-field.js';
@@ -32,6 +39,40 @@ import type { ObserveResize } from '@mdui/shared/helpers/observeResize.js';
 import type { CSSResultGroup, TemplateResult } from 'lit';
 import type { Ref } from 'lit/directives/ref.js';
 
+interface SelectOption {
+  /**
+   * 选项的值
+   */
+  value: string;
+
+  /**
+   * 选项的文本
+   */
+  label: string;
+
+  /**
+   * 选项左侧的 Material Icons 图标名
+   */
+  icon?: string;
+
+  /**
+   * 是否禁用该选项
+   */
+  disabled?: boolean;
+}
+
+interface SelectOptionGroup {
+  /**
+   * 分组的标题
+   */
+  label: string;
+
+  /**
+   * 分组中的选项
+   */
+  options: SelectOption[];
+}
+
 /**
  * @summary 选择框组件。需与 `<mdui-menu-item>` 组件配合使用
  *
@@ -46,9 +87,12 @@ import type { Ref } from 'lit/directives/ref.js';
  * @event blur - 失去焦点时触发
  * @event change - 选中的值变更时触发
  * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  * @event clear - 在点击由 `clearable` 属性生成的清空按钮时触发。可以通过调用 `event.preventDefault()` 阻止清空下拉框
+ * @event load-error - 在 `loadOptions` 加载选项失败时触发。可以通过 `event.detail.error` 获取错误对象
  *
- * @slot - `<mdui-menu-item>` 元素
+ * @slot - `<mdui-menu-item>` 元素。可在其中添加 `<mdui-list-subheader>` 元素作为分组标题
  * @slot icon - 左侧图标
  * @slot end-icon - 右侧图标
  * @slot error-icon - 验证失败状态的右侧图标
@@ -57,12 +101,23 @@ import type { Ref } from 'lit/directives/ref.js';
  * @slot clear-button - 清空按钮
  * @slot clear-icon - 清空按钮中的图标
  * @slot helper - 底部的帮助文本
+ * @slot no-results - 可筛选时，没有匹配的选项时显示的内容
+ * @slot loading - 通过 `loadOptions` 加载选项时显示的内容
+ * @slot load-error - 通过 `loadOptions` 加载选项失败时显示的内容
  *
  * @csspart text-field - 文本框，即 [`<mdui-text-field>`](/docs/2/components/text-field) 元素
  * @csspart menu - 下拉菜单，即 [`<mdui-menu>`](/docs/2/components/menu) 元素
+ * @csspart no-results - 可筛选时，没有匹配的选项时显示的内容
+ * @csspart option - 根据 `options` 渲染的选项，即 [`<mdui-menu-item>`](/docs/2/components/menu#menu-item-api) 元素
+ * @csspart group-label - 根据 `options` 渲染的分组标题，即 [`<mdui-list-subheader>`](/docs/2/components/list#list-subheader-api) 元素
+ * @csspart loading - 通过 `loadOptions` 加载选项时显示的内容
+ * @csspart load-error - 通过 `loadOptions` 加载选项失败时显示的内容
  */
 @customElement('mdui-select')
-export class Select extends FocusableMixin(LitElement) implements FormControl {
+export class Select
+  extends ValidatorMixin(FocusableMixin(LitElement))
+  implements FormControl
+{
   public static override styles: CSSResultGroup = [componentStyle, style];
 
   /**
@@ -86,6 +141,40 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
   })
   public multiple = false;
 
+  /**
+   * 是否可筛选。可筛选时，可以在下拉框中输入文本，下拉菜单中将只显示匹配的选项
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public filterable = false;
+
+  /**
+   * 可筛选时，用于判断选项是否匹配输入文本的函数。函数参数为 `<mdui-menu-item>` 元素和输入的文本，返回 `true` 表示匹配。
+   *
+   * 默认匹配选项文本中包含输入文本（不区分大小写）的选项。选项文本不包括 `icon`、`end-text` 等其他 slot 中的内容
+   */
+  @property({ attribute: false })
+  public filter?: (item: MenuItem, query: string) => boolean;
+
+  /**
+   * 通过数据渲染的选项，将显示在 `<mdui-menu-item>` 子元素之后。数组中的每一项可以是选项对象 `{ value, label, icon, disabled }`，也可以是分组对象 `{ label, options }`。
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public options: (SelectOption | SelectOptionGroup)[] = [];
+
+  /**
+   * 用于异步加载选项的函数，返回值为 `options` 格式的数组的 Promise。
+   *
+   * 将在首次打开下拉菜单时调用该函数，加载完成后，结果将赋值给 `options` 属性。加载失败时，会触发 `load-error` 事件并在下拉菜单中显示加载失败，在下次打开下拉菜单时重新加载
+   */
+  @property({ attribute: false })
+  public loadOptions?: () => Promise<(SelectOption | SelectOptionGroup)[]>;
+
   /**
    * 下拉框名称，将与表单数据一起提交
    */
@@ -241,14 +330,55 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
   @state()
   private invalid = false;
 
+  /**
+   * 是否正在筛选。可筛选时，在下拉菜单打开期间为筛选状态
+   */
+  @state()
+  private isFiltering = false;
+
+  /**
+   * 筛选时输入的文本
+   */
+  @state()
+  private query = '';
+
+  /**
+   * 筛选后是否没有匹配的选项
+   */
+  @state()
+  private noResults = false;
+
+  /**
+   * 是否正在通过 `loadOptions` 加载选项
+   */
+  @state()
+  private loading = false;
+
+  /**
+   * 最近一次通过 `loadOptions` 加载选项是否失败
+   */
+  @state()
+  private loadFailed = false;
+
   @queryAssignedElements({ flatten: true, selector: 'mdui-menu-item' })
   private readonly menuItems!: MenuItem[];
 
+  @queryAll('mdui-menu > mdui-menu-item')
+  private readonly optionItems!: NodeListOf<MenuItem>;
+
+  // 是否已通过 `loadOptions` 加载完选项
+  private optionsLoaded = false;
+
+  // 因筛选而被隐藏的元素
+  private readonly filterHiddenElements = new WeakSet<HTMLElement>();
+
   private observeResize?: ObserveResize;
+  private readonly dropdownRef: Ref<Dropdown> = createRef();
   private readonly menuRef: Ref<Menu> = createRef();
   private readonly textFieldRef: Ref<TextField> = createRef();
   private readonly hiddenInputRef: Ref<HTMLInputElement> = createRef();
   private readonly formController = new FormController(this);
+  private readonly localeController = new LocaleController(this);
   private readonly hasSlotController = new HasSlotController(
     this,
     'icon',
@@ -259,6 +389,7 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
     'clear-button',
     'clear-icon',
     'helper',
+    'no-results',
   );
   private readonly definedController = new DefinedController(this, {
     relatedElements: ['mdui-menu-item'],
@@ -286,6 +417,28 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
     return this.disabled;
   }
 
+  /**
+   * 所有的 `<mdui-menu-item>` 元素，包括子元素，及根据 `options` 渲染的元素
+   */
+  private get allMenuItems(): MenuItem[] {
+    return [...this.menuItems, ...Array.from(this.optionItems ?? [])];
+  }
+
+  /**
+   * `options` 中的所有选项（展开分组）
+   */
+  private get flatOptions(): SelectOption[] {
+    return this.options.flatMap((option) =>
+      this.isOptionGroup(option) ? option.options : [option],
+    );
+  }
+
+  @watch('loadOptions')
+  private onLoadOptionsChange() {
+    this.optionsLoaded = false;
+    this.loadFailed = false;
+  }
+
   public override connectedCallback(): void {
     super.connectedCallback();
 
@@ -347,12 +500,7 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
     return !this.invalid;
   }
 
-  /**
-   * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
-   *
-   * @param message 自定义的提示文本
-   */
-  public setCustomValidity(message: string): void {
+  protected override applyCustomValidity(message: string): void {
     this.hiddenInputRef.value!.setCustomValidity(message);
     this.invalid = !this.hiddenInputRef.value!.checkValidity();
   }
@@ -367,6 +515,43 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
 
   protected override render(): TemplateResult {
     const hasSelection = this.multiple ? !!this.value.length : !!this.value;
+    const menu = html`<mdui-menu
+      ${ref(this.menuRef)}
+      part="menu"
+      .selects=${this.multiple ? 'multiple' : 'single'}
+      .value=${this.value}
+      @change=${this.onValueChange}
+    >
+      <slot></slot>
+      ${map(this.options, (option) =>
+        this.isOptionGroup(option)
+          ? html`<mdui-list-subheader part="group-label" class="group-label"
+                >${option.label}</mdui-list-subheader
+              >${map(option.options, (option) => this.renderOption(option))}`
+          : this.renderOption(option),
+      )}
+      ${when(
+        this.loading,
+        () =>
+          html`<slot name="loading" part="loading" class="loading">
+            <mdui-circular-progress></mdui-circular-progress>
+          </slot>`,
+      )}
+      ${when(
+        this.loadFailed,
+        () =>
+          html`<slot name="load-error" part="load-error" class="load-error">
+            ${this.localeController.translate('loadFailed')}
+          </slot>`,
+      )}
+      ${when(
+        this.noResults,
+        () =>
+          html`<slot name="no-results" part="no-results" class="no-results">
+            ${this.localeController.translate('noResults')}
+          </slot>`,
+      )}
+    </mdui-menu>`;
 
     return html`${this.multiple
         ? html`<select
@@ -396,7 +581,9 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
             tabindex="-1"
           />`}
       <mdui-dropdown
+        ${ref(this.dropdownRef)}
         .stayOpenOnClick=${this.multiple}
+        .trigger=${this.filterable ? 'manual' : 'click'}
         .disabled=${this.readonly || this.disabled}
         .placement=${this.placement === 'top'
           ? 'top-start'
@@ -411,17 +598,21 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
           slot="trigger"
           part="text-field"
           class="text-field"
-          readonly
+          .readonly=${!this.filterable || this.readonly}
           .readonlyButClearable=${true}
           .variant=${this.variant}
           .name=${this.name}
-          .value=${this.multiple
+          .value=${this.isFiltering
+            ? this.query
+            : this.multiple
             ? this.value.length
               ? ' '
               : ''
             : this.getMenuItemLabelByValue(this.value as string)}
           .label=${this.label}
-          .placeholder=${this.placeholder}
+          .placeholder=${this.isFiltering && !this.multiple && this.value
+            ? this.getMenuItemLabelByValue(this.value as string)
+            : this.placeholder}
           .helper=${this.helper}
           .error=${this.hiddenInputRef.value?.validationMessage}
           .clearable=${this.clearable}
@@ -438,6 +629,8 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
           .invalidStyle=${this.invalid}
           @clear=${this.onClear}
           @change=${(e: Event) => e.stopPropagation()}
+          @input=${this.onTextFieldInput}
+          @click=${this.onTextFieldClick}
           @keydown=${this.onTextFieldKeyDown}
         >
           ${map(
@@ -457,7 +650,7 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
                 : nothing,
           )}
           ${when(
-            this.multiple && this.value.length,
+            this.multiple && this.value.length && !this.isFiltering,
             () =>
               html`<div slot="input" class="chips">
                 ${map(
@@ -476,19 +669,37 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
               </div>`,
           )}
         </mdui-text-field>
-        <mdui-menu
-          ${ref(this.menuRef)}
-          part="menu"
-          .selects=${this.multiple ? 'multiple' : 'single'}
-          .value=${this.value}
-          @change=${this.onValueChange}
-        >
-          <slot></slot>
-        </mdui-menu>
+        ${this.filterable
+          ? // dropdown 打开时会把焦点放到面板中，筛选时焦点需要保留在文本框中，因此用不可聚焦的元素包裹菜单
+            html`<div class="menu-wrapper">${menu}</div>`
+          : menu}
       </mdui-dropdown>`;
   }
 
+  private renderOption(option: SelectOption): TemplateResult {
+    return html`<mdui-menu-item
+      part="option"
+      value=${option.value}
+      icon=${ifDefined(option.icon)}
+      ?disabled=${option.disabled}
+      >${option.label}</mdui-menu-item
+    >`;
+  }
+
+  private isOptionGroup(
+    option: SelectOption | SelectOptionGroup,
+  ): option is SelectOptionGroup {
+    return !isUndefined((option as SelectOptionGroup).options);
+  }
+
   private getMenuItemLabelByValue(valueItem: string) {
+    const option = this.flatOptions.find(
+      (option) => option.value === valueItem,
+    );
+    if (option) {
+      return option.label;
+    }
+
     if (!this.menuItems.length) {
       return valueItem;
     }
@@ -505,15 +716,138 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
     }px`;
   }
 
-  private async onDropdownOpen() {
+  /**
+   * 根据输入的文本筛选选项。不匹配的选项将被隐藏，匹配的选项中高亮显示输入的文本
+   */
+  private filterMenuItems() {
+    const query = this.query.trim();
+    const isMatch =
+      this.filter ??
+      ((item: MenuItem, query: string) =>
+        // @ts-ignore
+        (item.getLabelText() as string)
+          .toLowerCase()
+          .includes(query.toLowerCase()));
+
+    const items = this.allMenuItems;
+
+    items.forEach((item) => {
+      this.setFilterHidden(item, !!query && !isMatch(item, query));
+      // @ts-ignore
+      item.highlight = query;
+    });
+
+    this.updateGroupLabels(!!query);
+    this.noResults =
+      !!query && items.every((item) => item.hidden || item.disabled);
+  }
+
+  /**
+   * 设置元素是否因筛选而隐藏。仅恢复因筛选而隐藏的元素，不影响原本就隐藏的元素
+   */
+  private setFilterHidden(element: HTMLElement, hidden: boolean) {
+    if (hidden) {
+      if (!element.hidden) {
+        element.hidden = true;
+        this.filterHiddenElements.add(element);
+      }
+    } else if (this.filterHiddenElements.has(element)) {
+      element.hidden = false;
+      this.filterHiddenElements.delete(element);
+    }
+  }
+
+  /**
+   * 筛选时，隐藏其后没有可见选项的分组标题。分组标题之后、下一个分组标题之前的选项，为该分组中的选项
+   */
+  private updateGroupLabels(filtering: boolean) {
+    const labels = [
+      ...Array.from(this.querySelectorAll(':scope > mdui-list-subheader')),
+      ...Array.from(
+        this.menuRef.value!.querySelectorAll(':scope > mdui-list-subheader'),
+      ),
+    ] as HTMLElement[];
+
+    labels.forEach((label) => {
+      let sibling = label.nextElementSibling;
+      let hasVisibleItem = false;
+
+      while (sibling && sibling.tagName !== 'MDUI-LIST-SUBHEADER') {
+        if (
+          sibling.tagName === 'MDUI-MENU-ITEM' &&
+          !(sibling as MenuItem).hidden
+        ) {
+          hasVisibleItem = true;
+          break;
+        }
+
+        sibling = sibling.nextElementSibling;
+      }
+
+      this.setFilterHidden(label, filtering && !hasVisibleItem);
+    });
+  }
+
+  /**
+   * 通过 `loadOptions` 加载选项。已加载完成，或正在加载时，不重复加载
+   */
+  private async loadOptionsIfNeeded() {
+    if (!this.loadOptions || this.optionsLoaded || this.loading) {
+      return;
+    }
+
+    this.loading = true;
+    this.loadFailed = false;
+
+    try {
+      this.options = await this.loadOptions();
+      this.optionsLoaded = true;
+    } catch (error) {
+      // 加载失败时，在下次打开下拉菜单时重新加载
+      this.loadFailed = true;
+      emit(this, 'load-error', { detail: { error } });
+    } finally {
+      this.loading = false;
+    }
+
+    await this.updateComplete;
+
+    // 加载期间已输入了筛选文本，需要对新加载的选项进行筛选
+    if (this.isFiltering) {
+      this.filterMenuItems();
+    }
+  }
+
+  private async onDropdownOpen(event: Event) {
+    // 事件可能来自下拉菜单中的其他组件
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
     // @ts-ignore
     this.textFieldRef.value!.focusedStyle = true;
+
+    if (this.filterable) {
+      this.isFiltering = true;
+    }
+
+    this.loadOptionsIfNeeded();
   }
 
-  private onDropdownClose() {
+  private onDropdownClose(event: Event) {
+    if (event.target !== event.currentTarget) {
+      return;
+    }
+
     // @ts-ignore
     this.textFieldRef.value!.focusedStyle = false;
 
+    if (this.isFiltering) {
+      this.isFiltering = false;
+      this.query = '';
+      this.filterMenuItems();
+    }
+
     // 如果焦点在 <mdui-select> 组件内的元素上，则焦点回到 <mdui-select> 上
     if (
       this.contains(document.activeElement) ||
@@ -540,6 +874,7 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
       formResets.get(form)!.delete(this);
     } else {
       this.invalid = !this.hiddenInputRef.value!.checkValidity();
+      this.formController.requestValidate();
     }
   }
 
@@ -560,13 +895,82 @@ export class Select extends FocusableMixin(LitElement) implements FormControl {
     this.value = this.multiple ? [] : '';
   }
 
+  /**
+   * 可筛选时，点击 text-field 打开下拉选项。在筛选期间点击文本框不会关闭下拉选项
+   */
+  private onTextFieldClick() {
+    if (this.filterable && !this.readonly && !this.disabled) {
+      this.dropdownRef.value!.open = true;
+    }
+  }
+
+  private onTextFieldInput() {
+    if (!this.filterable) {
+      return;
+    }
+
+    this.isFiltering = true;
+    this.query = this.textFieldRef.value!.value;
+    this.dropdownRef.value!.open = true;
+    this.filterMenuItems();
+  }
+
   /**
    * 焦点在 text-field 上时，按下回车键，打开下拉选项
+   *
+   * 可筛选时，按下回车键选中第一个匹配的选项；按下向下方向键，焦点移动到第一个匹配的选项
    */
   private onTextFieldKeyDown(event: KeyboardEvent) {
+    if (!this.filterable) {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        this.textFieldRef.value!.click();
+      }
+
+      return;
+    }
+
+    if (this.readonly || this.disabled) {
+      return;
+    }
+
+    const dropdown = this.dropdownRef.value!;
+
+    // 开始输入时进入筛选状态，此时文本框中的值会被清空
+    if (
+      !this.isFiltering &&
+      (event.key.length === 1 || event.key === 'Backspace') &&
+      !event.ctrlKey &&
+      !event.metaKey &&
+      !event.altKey
+    ) {
+      this.isFiltering = true;
+      dropdown.open = true;
+      return;
+    }
+
     if (event.key === 'Enter') {
       event.preventDefault();
-      this.textFieldRef.value!.click();
+
+      const item = this.allMenuItems.find(
+        (item) => !item.hidden && !item.disabled,
+      );
+      if (dropdown.open && this.query && item) {
+        // menu-item 不可聚焦时，其 click() 方法无效，因此直接触发原生 click 事件
+        HTMLElement.prototype.click.call(item);
+      } else {
+        dropdown.open = true;
+      }
+    }
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+
+      if (dropdown.open) {
+        this.menuRef.value!.focus();
+      } else {
+        dropdown.open = true;
+      }
     }
   }
 }
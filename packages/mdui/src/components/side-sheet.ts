@@ -0,0 +1 @@
+export * from './side-sheet/index.js';
@@ -0,0 +1,586 @@
+import { html } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { when } from 'lit/directives/when.js';
+import { $ } from '@mdui/jq/$.js';
+import '@mdui/jq/methods/css.js';
+import '@mdui/jq/methods/innerWidth.js';
+import { isFunction, isNull } from '@mdui/jq/shared/helper.js';
+import { DefinedController } from '@mdui/shared/controllers/defined.js';
+import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { getPhysicalPlacement } from '@mdui/shared/helpers/direction.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import { Modal } from '@mdui/shared/helpers/modal.js';
+import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
+import { lockScreen, unlockScreen } from '@mdui/shared/helpers/scroll.js';
+import '@mdui/shared/icons/arrow-back.js';
+import '@mdui/shared/icons/arrow-forward.js';
+import '@mdui/shared/icons/clear.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import '../button-icon.js';
+import '../icon.js';
+import { LayoutItemBase } from '../layout/layout-item-base.js';
+import { style } from './style.js';
+import type { CSSResultGroup, PropertyValues, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+/**
+ * @summary 侧边面板组件
+ *
+ * ```html
+ * <mdui-side-sheet headline="Title">content</mdui-side-sheet>
+ * ```
+ *
+ * @event open - 在侧边面板打开之前触发。可以通过调用 `event.preventDefault()` 阻止侧边面板打开
+ * @event opened - 在侧边面板打开之后触发
+ * @event close - 在侧边面板关闭之前触发。可以通过调用 `event.preventDefault()` 阻止侧边面板关闭
+ * @event closed - 在侧边面板关闭之后触发
+ * @event overlay-click - 点击遮罩层时触发
+ * @event back-click - 点击返回按钮时触发
+ *
+ * @slot header - 顶部元素，默认包含返回按钮、标题和关闭按钮
+ * @slot back-button - 左侧的返回按钮。必须设置 `backable` 属性为 `true` 才会显示该按钮
+ * @slot back-icon - 左侧的返回按钮中的图标
+ * @slot headline - 标题
+ * @slot close-button - 右侧的关闭按钮。必须设置 `closeable` 属性为 `true` 才会显示该按钮
+ * @slot close-icon - 右侧的关闭按钮中的图标
+ * @slot - 侧边面板中的内容
+ * @slot action - 底部操作栏中的元素
+ *
+ * @csspart overlay - 遮罩层
+ * @csspart panel - 侧边面板容器
+ * @csspart header - 顶部元素，其中包含了返回按钮、标题和关闭按钮
+ * @csspart back-button - 返回按钮
+ * @csspart back-icon - 返回按钮中的图标
+ * @csspart headline - 标题
+ * @csspart close-button - 关闭按钮
+ * @csspart close-icon - 关闭按钮中的图标
+ * @csspart body - 侧边面板的内容区域
+ * @csspart action - 底部操作栏
+ *
+ * @cssprop --shape-corner - 组件的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ * @cssprop --z-index - 组件的 CSS 的 `z-index` 值
+ */
+@customElement('mdui-side-sheet')
+export class SideSheet extends LayoutItemBase {
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 是否打开侧边面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public open = false;
+
+  /**
+   * 是否为模态侧边面板。为 `true` 时，打开后会显示遮罩层，并把焦点限制在侧边面板内
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public modal = false;
+
+  /**
+   * 在模态侧边面板中，是否在按下 ESC 键时，关闭侧边面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+    attribute: 'close-on-esc',
+  })
+  public closeOnEsc = false;
+
+  /**
+   * 是否在点击遮罩时，关闭侧边面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+    attribute: 'close-on-overlay-click',
+  })
+  public closeOnOverlayClick = false;
+
+  /**
+   * 侧边面板的显示位置。可选值为：
+   *
+   * * `left`：显示在左侧
+   * * `right`：显示在右侧
+   * * `start`：显示在起始侧，从左到右布局时为左侧，从右到左布局时为右侧
+   * * `end`：显示在结束侧，从左到右布局时为右侧，从右到左布局时为左侧
+   */
+  @property({ reflect: true })
+  public placement:
+    | /*显示在左侧*/ 'left'
+    | /*显示在右侧*/ 'right'
+    | /*显示在起始侧*/ 'start'
+    | /*显示在结束侧*/ 'end' = 'right';
+
+  /**
+   * 默认侧边面板相对于 `body` 元素显示，该参数设置为 `true` 时，侧边面板将相对于它的父元素显示
+   *
+   * Note:
+   * 设置了该属性时，必须手动在父元素上设置样式 `position: relative; overflow: hidden;`
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public contained = false;
+
+  /**
+   * 标题。也可以通过 `slot="headline"` 设置
+   */
+  @property({ reflect: true })
+  public headline?: string;
+
+  /**
+   * 是否在标题左侧显示返回按钮
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public backable = false;
+
+  /**
+   * 返回按钮中的 Material Icons 图标名。也可以通过 `slot="back-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'back-icon' })
+  public backIcon?: string;
+
+  /**
+   * 是否在右上角显示关闭按钮。点击该按钮将关闭侧边面板
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public closeable = false;
+
+  /**
+   * 关闭按钮中的 Material Icons 图标名。也可以通过 `slot="close-icon"` 设置
+   */
+  @property({ reflect: true, attribute: 'close-icon' })
+  public closeIcon?: string;
+
+  // 用于在打开侧边面板前，记录当前聚焦的元素；在关闭侧边面板后，把焦点还原到该元素上
+  private originalTrigger!: HTMLElement;
+
+  private modalHelper!: Modal;
+  private readonly overlayRef: Ref<HTMLElement> = createRef();
+  private readonly panelRef: Ref<HTMLElement> = createRef();
+  private readonly hasSlotController = new HasSlotController(
+    this,
+    'header',
+    'headline',
+    'action',
+  );
+  private readonly definedController = new DefinedController(this, {
+    needDomReady: true,
+  });
+  private readonly localeController = new LocaleController(this);
+
+  protected override get layoutPlacement(): 'left' | 'right' {
+    return getPhysicalPlacement(
+      this.placement,
+      () => this.directionController.rtl,
+    );
+  }
+
+  private get lockTarget() {
+    return this.contained || this.isParentLayout
+      ? this.parentElement!
+      : document.body;
+  }
+
+  @watch('placement', true)
+  private onPlacementChange() {
+    if (this.isParentLayout) {
+      this.layoutManager!.updateLayout(this);
+    }
+  }
+
+  @watch('modal', true)
+  private async onModalChange() {
+    // 若位于 layout 中，且为模态化，则重新布局时，占据的宽度为 0
+    if (this.isParentLayout) {
+      this.layoutManager!.updateLayout(this, {
+        width: this.modal ? 0 : undefined,
+      });
+    }
+
+    if (!this.open || this.isParentLayout || this.contained) {
+      return;
+    }
+
+    await this.definedController.whenDefined();
+
+    if (this.modal) {
+      lockScreen(this, this.lockTarget);
+      await this.getLockTargetAnimate(false, 0);
+    } else {
+      unlockScreen(this, this.lockTarget);
+      await this.getLockTargetAnimate(true, 0);
+    }
+  }
+
+  @watch('open')
+  private async onOpenChange() {
+    let panel = this.panelRef.value!;
+    let overlay = this.overlayRef.value!;
+    const isLeft = this.layoutPlacement === 'left';
+    const easingLinear = getEasing(this, 'linear');
+    const easingEmphasized = getEasing(this, 'emphasized');
+
+    // 在当前 side-sheet 位于 layout 中时，设置所有 layout-item 和 layout-main 元素的 transition 样式
+    const setLayoutTransition = (duration: number | null, easing?: string) => {
+      $(this.layoutManager!.getItemsAndMain()).css(
+        'transition',
+        isNull(duration) ? null : `all ${duration}ms ${easing}`,
+      );
+    };
+
+    // 停止原有动画
+    const stopOldAnimations = async () => {
+      await Promise.all([
+        this.modal
+          ? stopAnimations(overlay)
+          : !this.isParentLayout
+          ? stopAnimations(this.lockTarget)
+          : Promise.resolve(),
+        this.modal ? stopAnimations(panel) : stopAnimations(this),
+      ]);
+    };
+
+    // 打开
+    // 要区分是否首次渲染，首次渲染时不触发事件，不执行动画；非首次渲染，触发事件，执行动画
+    if (this.open) {
+      const hasUpdated = this.hasUpdated;
+      if (!hasUpdated) {
+        await this.updateComplete;
+        panel = this.panelRef.value!;
+        overlay = this.overlayRef.value!;
+      }
+
+      if (hasUpdated) {
+        const requestOpen = emit(this, 'open', { cancelable: true });
+        if (requestOpen.defaultPrevented) {
+          return;
+        }
+      }
+
+      await this.definedController.whenDefined();
+
+      this.style.display = 'block';
+      this.originalTrigger = document.activeElement as HTMLElement;
+      if (this.modal) {
+        this.modalHelper.activate();
+        if (!this.contained) {
+          lockScreen(this, this.lockTarget);
+        }
+      }
+
+      await stopOldAnimations();
+
+      // 设置聚焦
+      requestAnimationFrame(() => {
+        const autoFocusTarget = this.querySelector(
+          '[autofocus]',
+        ) as HTMLInputElement;
+        if (autoFocusTarget) {
+          autoFocusTarget.focus({ preventScroll: true });
+        } else {
+          panel.focus({ preventScroll: true });
+        }
+      });
+
+      const duration = getDuration(this, 'long2');
+      const animations = [];
+
+      // 模态侧边面板，显示 overlay 动画
+      if (this.modal) {
+        animations.push(
+          animateTo(
+            overlay,
+            [{ opacity: 0 }, { opacity: 1, offset: 0.3 }, { opacity: 1 }],
+            {
+              duration: hasUpdated ? duration : 0,
+              easing: easingLinear,
+            },
+          ),
+        );
+      }
+      // 不位于 layout 中，父元素 padding 变化的动画
+      else if (!this.isParentLayout) {
+        animations.push(
+          this.getLockTargetAnimate(true, hasUpdated ? duration : 0),
+        );
+      }
+
+      // 若位于 layout 中，则 layout-main 的 padding 变化需要有和 side-sheet 相同的动画
+      // 但首次渲染不执行动画
+      if (this.isParentLayout && hasUpdated) {
+        setLayoutTransition(duration, easingEmphasized);
+      }
+
+      // side-sheet 显示动画
+      animations.push(
+        animateTo(
+          this.modal ? panel : this,
+          [
+            { transform: `translateX(${isLeft ? '-' : ''}100%)` },
+            { transform: 'translateX(0)' },
+          ],
+          {
+            duration: hasUpdated ? duration : 0,
+            easing: easingEmphasized,
+          },
+        ),
+      );
+
+      await Promise.all(animations);
+
+      // 若位于 layout 中，则 side-sheet 动画完成后，移除 layout-main 的动画
+      if (this.isParentLayout && hasUpdated) {
+        setLayoutTransition(null);
+      }
+
+      if (hasUpdated) {
+        emit(this, 'opened');
+      }
+    } else if (this.hasUpdated) {
+      // 关闭
+      const requestClose = emit(this, 'close', { cancelable: true });
+      if (requestClose.defaultPrevented) {
+        return;
+      }
+
+      await this.definedController.whenDefined();
+
+      if (this.modal) {
+        this.modalHelper.deactivate();
+      }
+
+      await stopOldAnimations();
+
+      const duration = getDuration(this, 'short4');
+      const animations = [];
+
+      // 模态侧边面板，显示 overlay 动画
+      if (this.modal) {
+        animations.push(
+          animateTo(overlay, [{ opacity: 1 }, { opacity: 0 }], {
+            duration,
+            easing: easingLinear,
+          }),
+        );
+      }
+
+      // 不位于 layout 中，父元素 padding 变化的动画
+      else if (!this.isParentLayout) {
+        animations.push(this.getLockTargetAnimate(false, duration));
+      }
+
+      // 若位于 layout 中，则 layout-main 的 padding 变化需要有和 side-sheet 相同的动画
+      if (this.isParentLayout) {
+        setLayoutTransition(duration, easingEmphasized);
+
+        // 关闭动画开始时，side-sheet 的宽度不变。等到关闭动画结束，side-sheet 的宽度才变为 0
+        // 为了 layout-main 的动画能在关闭动画开始时就执行，强制调用 updateLayout 更新布局
+        this.layoutManager!.updateLayout(this, { width: 0 });
+      }
+
+      // side-sheet 隐藏动画
+      animations.push(
+        animateTo(
+          this.modal ? panel : this,
+          [
+            { transform: 'translateX(0)' },
+            { transform: `translateX(${isLeft ? '-' : ''}100%)` },
+          ],
+          { duration, easing: easingEmphasized },
+        ),
+      );
+
+      await Promise.all(animations);
+
+      // 若位于 layout 中，则 side-sheet 动画结束后，移除 layout-main 的动画
+      if (this.isParentLayout) {
+        setLayoutTransition(null);
+      }
+
+      this.style.display = 'none';
+
+      if (this.modal && !this.contained) {
+        unlockScreen(this, this.lockTarget);
+      }
+
+      // 侧边面板关闭后，恢复焦点到原有的元素上
+      const trigger = this.originalTrigger;
+      if (isFunction(trigger?.focus)) {
+        setTimeout(() => trigger.focus());
+      }
+
+      emit(this, 'closed');
+    }
+  }
+
+  public override connectedCallback(): void {
+    super.connectedCallback();
+    this.modalHelper = new Modal(this);
+  }
+
+  public override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    unlockScreen(this, this.lockTarget);
+  }
+
+  protected firstUpdated(_changedProperties: PropertyValues) {
+    super.firstUpdated(_changedProperties);
+
+    this.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (
+        this.open &&
+        this.closeOnEsc &&
+        event.key === 'Escape' &&
+        this.modal
+      ) {
+        event.stopPropagation();
+        this.open = false;
+      }
+    });
+  }
+
+  protected override render(): TemplateResult {
+    const hasHeadline =
+      !!this.headline || this.hasSlotController.test('headline');
+    const hasHeader =
+      this.backable ||
+      this.closeable ||
+      hasHeadline ||
+      this.hasSlotController.test('header');
+    const hasActionSlot = this.hasSlotController.test('action');
+
+    return html`${when(
+        this.modal,
+        () =>
+          html`<div
+            ${ref(this.overlayRef)}
+            part="overlay"
+            class="overlay"
+            @click=${this.onOverlayClick}
+          ></div>`,
+      )}
+      <div ${ref(this.panelRef)} part="panel" class="panel" tabindex="0">
+        ${when(
+          hasHeader,
+          () =>
+            html`<slot name="header" part="header" class="header">
+              ${when(this.backable, () => this.renderBackButton())}
+              <slot name="headline" part="headline" class="headline"
+                >${this.headline}</slot
+              >
+              ${when(this.closeable, () => this.renderCloseButton())}
+            </slot>`,
+        )}
+        <div part="body" class="body"><slot></slot></div>
+        ${when(
+          hasActionSlot,
+          () => html`<slot name="action" part="action" class="action"></slot>`,
+        )}
+      </div>`;
+  }
+
+  private renderBackButton(): TemplateResult {
+    return html`<slot
+      name="back-button"
+      part="back-button"
+      class="back-button"
+      @click=${this.onBackClick}
+    >
+      <mdui-button-icon aria-label=${this.localeController.translate('back')}>
+        <slot name="back-icon" part="back-icon">
+          ${this.backIcon
+            ? html`<mdui-icon name=${this.backIcon} class="i"></mdui-icon>`
+            : this.directionController.rtl
+            ? html`<mdui-icon-arrow-forward
+                class="i"
+              ></mdui-icon-arrow-forward>`
+            : html`<mdui-icon-arrow-back class="i"></mdui-icon-arrow-back>`}
+        </slot>
+      </mdui-button-icon>
+    </slot>`;
+  }
+
+  private renderCloseButton(): TemplateResult {
+    return html`<slot
+      name="close-button"
+      part="close-button"
+      class="close-button"
+      @click=${this.onCloseClick}
+    >
+      <mdui-button-icon aria-label=${this.localeController.translate('close')}>
+        <slot name="close-icon" part="close-icon">
+          ${this.closeIcon
+            ? html`<mdui-icon name=${this.closeIcon} class="i"></mdui-icon>`
+            : html`<mdui-icon-clear class="i"></mdui-icon-clear>`}
+        </slot>
+      </mdui-button-icon>
+    </slot>`;
+  }
+
+  private onOverlayClick() {
+    emit(this, 'overlay-click');
+
+    if (this.closeOnOverlayClick) {
+      this.open = false;
+    }
+  }
+
+  private onBackClick() {
+    emit(this, 'back-click');
+  }
+
+  private onCloseClick() {
+    this.open = false;
+  }
+
+  private getLockTargetAnimate(open: boolean, duration: number) {
+    const paddingName =
+      this.layoutPlacement === 'left' ? 'paddingLeft' : 'paddingRight';
+    const panelWidth = $(this.panelRef.value!).innerWidth() + 'px';
+
+    return animateTo(
+      this.lockTarget,
+      [
+        { [paddingName]: open ? 0 : panelWidth },
+        { [paddingName]: open ? panelWidth : 0 },
+      ],
+      {
+        duration,
+        easing: getEasing(this, 'emphasized'),
+        fill: 'forwards',
+      },
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-side-sheet': SideSheet;
+  }
+}
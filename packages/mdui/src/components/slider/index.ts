@@ -6,6 +6,7 @@ import { map } from 'lit/directives/map.js';
 import { createRef, ref } from 'lit/directives/ref.js';
 import { styleMap } from 'lit/directives/style-map.js';
 import { when } from 'lit/directives/when.js';
+import { DirectionController } from '@mdui/shared/controllers/direction.js';
 import { FormController, formResets } from '@mdui/shared/controllers/form.js';
 import { defaultValue } from '@mdui/shared/decorators/default-value.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
@@ -28,6 +29,8 @@ import type { Ref } from 'lit/directives/ref.js';
  * @event change - 在值发生了变更，且失去了焦点时，将触发该事件
  * @event input - 值变更时触发
  * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  *
  * @csspart track-inactive - 未激活状态的轨道
  * @csspart track-active - 已激活状态的轨道
@@ -54,6 +57,11 @@ export class Slider extends SliderBase implements FormControl {
   private readonly rippleRef: Ref<Ripple> = createRef();
   private readonly handleRef: Ref<HTMLElement> = createRef();
   private readonly formController = new FormController(this);
+  // 从右到左布局时，滑块从右往左滑动，文本方向变更时需要重新计算位置
+  private readonly directionController = new DirectionController(
+    this,
+    () => this.hasUpdated && this.updateStyle(),
+  );
 
   protected override get rippleElement() {
     return this.rippleRef.value!;
@@ -68,6 +76,7 @@ export class Slider extends SliderBase implements FormControl {
       formResets.get(form)!.delete(this);
     } else {
       this.invalid = !this.inputRef.value!.checkValidity();
+      this.formController.requestValidate();
     }
 
     this.inputRef.value!.value = this.value.toString();
@@ -149,7 +158,9 @@ export class Slider extends SliderBase implements FormControl {
               part="tickmark"
               class="tickmark ${classMap({ active: value < this.value })}"
               style="${styleMap({
-                left: `${((value - this.min) / this.max) * 100}%`,
+                left: `${this.getPosition(
+                  ((value - this.min) / this.max) * 100,
+                )}%`,
                 display: value === this.value ? 'none' : 'block',
               })}"
             ></div>`,
@@ -158,11 +169,18 @@ export class Slider extends SliderBase implements FormControl {
     </label>`;
   }
 
+  /**
+   * 把百分比转换为距离左侧的百分比。从右到左布局时，百分比从右侧开始计算
+   */
+  private getPosition(percent: number): number {
+    return this.directionController.rtl ? 100 - percent : percent;
+  }
+
   private updateStyle() {
     const percent = ((this.value - this.min) / (this.max - this.min)) * 100;
 
     this.trackActiveRef.value!.style.width = `${percent}%`;
-    this.handleRef.value!.style.left = `${percent}%`;
+    this.handleRef.value!.style.left = `${this.getPosition(percent)}%`;
   }
 
   private onInput() {
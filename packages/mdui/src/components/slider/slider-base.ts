@@ -8,12 +8,15 @@ import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
 import { RippleMixin } from '../ripple/ripple-mixin.js';
 import { sliderBaseStyle } from './slider-base-style.js';
 import type { CSSResultGroup, TemplateResult } from 'lit';
 import type { Ref } from 'lit/directives/ref.js';
 
-export class SliderBase extends RippleMixin(FocusableMixin(LitElement)) {
+export class SliderBase extends ValidatorMixin(
+  RippleMixin(FocusableMixin(LitElement)),
+) {
   public static override styles: CSSResultGroup = [
     componentStyle,
     sliderBaseStyle,
@@ -176,12 +179,7 @@ export class SliderBase extends RippleMixin(FocusableMixin(LitElement)) {
     return !this.invalid;
   }
 
-  /**
-   * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
-   *
-   * @param message 自定义的提示文本
-   */
-  public setCustomValidity(message: string): void {
+  protected override applyCustomValidity(message: string): void {
     this.inputRef.value!.setCustomValidity(message);
     this.invalid = !this.inputRef.value!.checkValidity();
   }
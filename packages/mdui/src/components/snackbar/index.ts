@@ -1,6 +1,7 @@
 import { html, LitElement } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { when } from 'lit/directives/when.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
 import { breakpoint } from '@mdui/shared/helpers/breakpoint.js';
@@ -138,6 +139,7 @@ export class Snackbar extends LitElement {
   public closeOnOutsideClick = false;
 
   private closeTimeout!: number;
+  private readonly localeController = new LocaleController(this);
 
   public constructor() {
     super();
@@ -348,7 +350,9 @@ export class Snackbar extends LitElement {
               class="close-button"
               @click=${this.onCloseClick}
             >
-              <mdui-button-icon>
+              <mdui-button-icon
+                aria-label=${this.localeController.translate('close')}
+              >
                 <slot name="close-icon" part="close-icon">
                   ${this.closeIcon
                     ? html`<mdui-icon
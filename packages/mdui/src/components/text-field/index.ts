@@ -10,19 +10,25 @@ import { $ } from '@mdui/jq/$.js';
 import '@mdui/jq/methods/css.js';
 import { FormController, formResets } from '@mdui/shared/controllers/form.js';
 import { HasSlotController } from '@mdui/shared/controllers/has-slot.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
 import { defaultValue } from '@mdui/shared/decorators/default-value.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
 import { emit } from '@mdui/shared/helpers/event.js';
+import { formatMask, unformatMask } from '@mdui/shared/helpers/mask.js';
 import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
+import { clamp, getDecimals } from '@mdui/shared/helpers/number.js';
 import { observeResize } from '@mdui/shared/helpers/observeResize.js';
 import { nothingTemplate } from '@mdui/shared/helpers/template.js';
+import '@mdui/shared/icons/add.js';
 import '@mdui/shared/icons/cancel--outlined.js';
 import '@mdui/shared/icons/error.js';
+import '@mdui/shared/icons/remove.js';
 import '@mdui/shared/icons/visibility-off.js';
 import '@mdui/shared/icons/visibility.js';
 import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
 import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
 import '../button-icon.js';
 import '../icon.js';
 import { style } from './style.js';
@@ -43,6 +49,8 @@ import type { Ref } from 'lit/directives/ref.js';
  * @event change - 在文本框的值变更，且失去焦点时触发
  * @event input - 在文本框的值变更时触发
  * @event invalid - 表单字段验证不通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
  * @event clear - 在点击由 `clearable` 属性生成的清空按钮时触发。可以通过调用 `event.preventDefault()` 阻止清空文本框
  *
  * @slot icon - 左侧图标
@@ -68,6 +76,9 @@ import type { Ref } from 'lit/directives/ref.js';
  * @csspart clear-button - 清空按钮
  * @csspart clear-icon - 清空按钮中的图标
  * @csspart toggle-password-button - 密码显示切换按钮
+ * @csspart steppers - `type` 为 `number` 时，右侧的增减按钮容器
+ * @csspart decrement-button - `type` 为 `number` 时，右侧的减少按钮
+ * @csspart increment-button - `type` 为 `number` 时，右侧的增加按钮
  * @csspart show-password-icon - 显示密码状态下，密码显示切换按钮中的图标
  * @csspart hide-password-icon - 隐藏密码状态下，密码显示切换按钮中的图标
  * @csspart supporting - 底部辅助信息容器，包括 helper、error、counter
@@ -77,7 +88,7 @@ import type { Ref } from 'lit/directives/ref.js';
  */
 @customElement('mdui-text-field')
 export class TextField
-  extends FocusableMixin(LitElement)
+  extends ValidatorMixin(FocusableMixin(LitElement))
   implements FormControl
 {
   public static override styles: CSSResultGroup = [componentStyle, style];
@@ -97,7 +108,7 @@ export class TextField
    * 文本框输入类型。默认为 `text`。可选值为：
    *
    * * `text`：默认值。文本字段
-   * * `number`：只能输入数字。拥有动态键盘的设备上会显示数字键盘
+   * * `number`：只能输入数字。拥有动态键盘的设备上会显示数字键盘。右侧会显示增减按钮，失去焦点时会按 `locale` 和 `formatOptions` 格式化显示的值
    * * `password`：用于输入密码，其值会被遮盖
    * * `url`：用于输入 URL，会验证 URL 格式。在支持动态键盘的设备上有相应的键盘
    * * `email`：用于输入邮箱地址，会验证邮箱格式。在支持动态键盘的设备上有相应的键盘
@@ -113,7 +124,7 @@ export class TextField
   @property({ reflect: true })
   public type:
     | /*默认值。文本字段*/ 'text'
-    | /*只能输入数字。拥有动态键盘的设备上会显示数字键盘*/ 'number'
+    | /*只能输入数字。拥有动态键盘的设备上会显示数字键盘。右侧会显示增减按钮，失去焦点时会按 `locale` 和 `formatOptions` 格式化显示的值*/ 'number'
     | /*用于输入密码，其值会被遮盖*/ 'password'
     | /*用于输入 URL，会验证 URL 格式。在支持动态键盘的设备上有相应的键盘*/ 'url'
     | /*用于输入邮箱地址，会验证邮箱格式。在支持动态键盘的设备上有相应的键盘*/ 'email'
@@ -336,12 +347,62 @@ export class TextField
   @property({ type: Number, reflect: true })
   public step?: number;
 
+  /**
+   * `type` 为 `number` 时，数值的小数位数。失去焦点时会把值四舍五入到该精度
+   */
+  @property({ type: Number, reflect: true })
+  public precision?: number;
+
+  /**
+   * `type` 为 `number` 时，格式化数值使用的语言，如 `zh-CN`、`en-US`。默认使用浏览器的语言
+   */
+  @property({ reflect: true })
+  public locale?: string;
+
+  /**
+   * `type` 为 `number` 时，格式化数值的配置参数，即 [`Intl.NumberFormat`](https://developer.mozilla.org/zh-CN/docs/Web/JavaScript/Reference/Global_Objects/Intl/NumberFormat/NumberFormat) 的 `options` 参数，可用于设置千分位分隔符、货币、百分比等格式。
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public formatOptions?: Intl.NumberFormatOptions;
+
   /**
    * 用于表单验证的正则表达式
    */
   @property({ reflect: true })
   public pattern?: string;
 
+  /**
+   * 输入掩码，用于按固定格式显示输入的内容，如电话号码、银行卡号、日期等。掩码中的占位符为：
+   *
+   * * `0`：数字
+   * * `a`：字母
+   * * `*`：数字或字母
+   *
+   * 其他字符会作为固定字符显示。若要把占位符作为固定字符，可以在前面添加 `\` 进行转义。
+   *
+   * 设置了掩码时，文本框中显示格式化后的值，`value` 属性及提交的表单数据为不含固定字符的原始值
+   */
+  @property({ reflect: true })
+  public mask?: string;
+
+  /**
+   * 用于把原始值格式化为显示值的函数。需要与 `parser` 同时设置，此时 `mask` 属性无效。
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public formatter?: (value: string) => string;
+
+  /**
+   * 用于从显示值中解析出原始值的函数，是 `formatter` 的逆运算。该函数也会用于解析显示值的一部分，以计算光标的位置。
+   *
+   * 该属性只能通过 JavaScript 属性设置
+   */
+  @property({ attribute: false })
+  public parser?: (value: string) => string;
+
   /**
    * `type` 为 `password` 时，设置该属性会添加一个切换按钮，点击时可在密文和明文之间切换
    */
@@ -487,10 +548,33 @@ export class TextField
   @state()
   private error = '';
 
+  /**
+   * 通过该属性传入对象时，`<input>` 元素将作为 combobox，并添加相关的 ARIA 属性
+   * `listbox` 和 `activeOption` 位于其他 shadow DOM 中，无法通过 id 关联，因此通过 ARIA 元素引用属性设置
+   * 当前仅供 autocomplete 组件使用
+   */
+  @state()
+  private combobox?: {
+    expanded: boolean;
+    listbox?: HTMLElement;
+    activeOption?: HTMLElement;
+  };
+
+  /**
+   * textarea 的值是否不匹配 pattern
+   */
+  private patternMismatch = false;
+
   private observeResize?: ObserveResize;
   private readonly inputRef: Ref<HTMLInputElement | HTMLTextAreaElement> =
     createRef();
   private readonly formController = new FormController(this);
+  private readonly localeController = new LocaleController(this, () => {
+    // 语言变更时，更新 pattern 验证及数值验证的错误提示
+    if (this.hasUpdated) {
+      this.syncCustomValidity();
+    }
+  });
   private readonly hasSlotController = new HasSlotController(
     this,
     'icon',
@@ -524,6 +608,10 @@ export class TextField
    * 如果值无法被转换为 `number` 类型，则会返回 `NaN`。
    */
   public get valueAsNumber(): number {
+    if (this.isNumber) {
+      return this.parseNumber(this.value);
+    }
+
     return (
       (this.inputRef.value as HTMLInputElement)?.valueAsNumber ??
       parseFloat(this.value)
@@ -559,6 +647,20 @@ export class TextField
     return (this.rows && this.rows > 1) || this.autosize;
   }
 
+  /**
+   * 是否为数字输入框
+   */
+  private get isNumber(): boolean {
+    return this.type === 'number' && !this.isTextarea;
+  }
+
+  /**
+   * 是否需要对输入框中显示的值进行格式化
+   */
+  private get hasFormatter(): boolean {
+    return (!!this.formatter && !!this.parser) || !!this.mask;
+  }
+
   @watch('disabled', true)
   private onDisabledChange() {
     // 禁用状态始终为验证通过，所以 disabled 变更时需要重新校验
@@ -573,6 +675,8 @@ export class TextField
     if (this.hasUpdated) {
       await this.updateComplete;
 
+      this.inputRef.value!.setCustomValidity(this.getCustomValidityMessage());
+
       // reset 引起的值变更，不执行验证；直接修改值引起的变更，需要进行验证
       const form = this.formController.getForm();
       if (form && formResets.get(form)?.has(this)) {
@@ -580,10 +684,20 @@ export class TextField
         formResets.get(form)!.delete(this);
       } else {
         this.invalid = !this.inputRef.value!.checkValidity();
+        this.formController.requestValidate();
       }
     }
   }
 
+  @watch('type', true)
+  @watch('min', true)
+  @watch('max', true)
+  @watch('step', true)
+  private async onNumberConstraintChange() {
+    await this.updateComplete;
+    this.syncCustomValidity();
+  }
+
   @watch('rows', true)
   private onRowsChange() {
     this.setTextareaHeight();
@@ -675,14 +789,29 @@ export class TextField
   ): void {
     this.inputRef.value!.setRangeText(replacement, start, end, selectMode);
 
-    if (this.value !== this.inputRef.value!.value) {
-      this.value = this.inputRef.value!.value;
+    const value = this.parseValue(this.inputRef.value!.value);
+    if (this.value !== value) {
+      this.value = value;
       this.setTextareaHeight();
       emit(this, 'input');
       emit(this, 'change');
     }
   }
 
+  /**
+   * `type` 为 `number` 时，把值增加 `step`
+   */
+  public stepUp(): void {
+    this.stepValue(1);
+  }
+
+  /**
+   * `type` 为 `number` 时，把值减少 `step`
+   */
+  public stepDown(): void {
+    this.stepValue(-1);
+  }
+
   /**
    * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`
    */
@@ -721,12 +850,15 @@ export class TextField
     return !this.invalid;
   }
 
-  /**
-   * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
-   *
-   * @param message 自定义的提示文本
-   */
-  public setCustomValidity(message: string): void {
+  protected override getInternalValidityMessage(): string {
+    if (this.patternMismatch) {
+      return this.localeController.translate('patternMismatch');
+    }
+
+    return this.getNumberValidityMessage();
+  }
+
+  protected override applyCustomValidity(message: string): void {
     this.inputRef.value!.setCustomValidity(message);
     this.invalid = !this.inputRef.value!.checkValidity();
   }
@@ -738,6 +870,7 @@ export class TextField
     this.observeResize = observeResize(this.inputRef.value!, () =>
       this.setTextareaHeight(),
     );
+    this.syncCustomValidity();
   }
 
   protected override render(): TemplateResult {
@@ -780,7 +913,7 @@ export class TextField
           )}
         </div>
         ${this.renderClearButton()}${this.renderTogglePasswordButton()}
-        ${this.renderSuffix(hasErrorIcon)}
+        ${this.renderSteppers()} ${this.renderSuffix(hasErrorIcon)}
       </div>
       ${when(
         hasError || hasHelper || hasCounter,
@@ -796,7 +929,10 @@ export class TextField
   }
 
   private onChange() {
-    this.value = this.inputRef.value!.value;
+    this.value = this.parseValue(this.inputRef.value!.value);
+    if (this.isNumber) {
+      this.value = this.normalizeNumber(this.value);
+    }
     if (this.isTextarea) {
       this.setTextareaHeight();
     }
@@ -812,8 +948,13 @@ export class TextField
     event.stopPropagation();
   }
 
-  private onInput() {
-    this.value = this.inputRef.value!.value;
+  private onInput(event: InputEvent) {
+    if (this.hasFormatter) {
+      this.formatInputValue(event.inputType);
+    } else {
+      this.value = this.inputRef.value!.value;
+    }
+
     if (this.isTextarea) {
       this.setTextareaHeight();
     }
@@ -828,6 +969,16 @@ export class TextField
     const hasModifier =
       event.metaKey || event.ctrlKey || event.shiftKey || event.altKey;
 
+    if (
+      this.isNumber &&
+      !hasModifier &&
+      ['ArrowUp', 'ArrowDown'].includes(event.key)
+    ) {
+      event.preventDefault();
+      this.stepValue(event.key === 'ArrowUp' ? 1 : -1);
+      return;
+    }
+
     // 聚焦状态按下回车时，提交表单。可以在 keydown 事件中使用 event.preventDefault() 来取消提交表单
     if (event.key === 'Enter' && !hasModifier) {
       setTimeout(() => {
@@ -844,8 +995,213 @@ export class TextField
   private onTextAreaKeyUp() {
     if (this.pattern) {
       const patternRegex = new RegExp(this.pattern);
-      const hasError = this.value && !this.value.match(patternRegex);
-      this.setCustomValidity(hasError ? '请与请求的格式匹配。' : '');
+      const value = this.inputRef.value!.value;
+      this.patternMismatch = !!value && !value.match(patternRegex);
+      this.updateCustomValidity();
+    }
+  }
+
+  /**
+   * 聚焦时在输入框的值上滚动鼠标滚轮，可增减数值
+   */
+  private onWheel(event: WheelEvent) {
+    // @ts-ignore
+    if (!this.isNumber || !this.focused || !event.deltaY) {
+      return;
+    }
+
+    event.preventDefault();
+    this.stepValue(event.deltaY < 0 ? 1 : -1);
+  }
+
+  /**
+   * 把原始值格式化为显示值
+   */
+  private formatValue(value: string): string {
+    if (this.formatter && this.parser) {
+      return this.formatter(value);
+    }
+
+    // 数字输入框在编辑时显示原始值，失去焦点后显示格式化后的值
+    // @ts-ignore
+    if (this.isNumber && !this.focused && value !== '') {
+      const number = this.parseNumber(value);
+
+      return isNaN(number)
+        ? value
+        : new Intl.NumberFormat(this.locale, {
+            ...(this.precision !== undefined && {
+              minimumFractionDigits: this.precision,
+              maximumFractionDigits: this.precision,
+            }),
+            ...this.formatOptions,
+          }).format(number);
+    }
+
+    return this.mask ? formatMask(value, this.mask) : value;
+  }
+
+  /**
+   * 从显示值中解析出原始值
+   */
+  private parseValue(value: string): string {
+    if (this.formatter && this.parser) {
+      return this.parser(value);
+    }
+
+    return this.mask ? unformatMask(value, this.mask) : value;
+  }
+
+  /**
+   * 输入时，重新格式化输入框中的值，并把光标移动到格式化前对应的位置
+   * @param inputType 输入类型，即 InputEvent 的 inputType 属性
+   */
+  private formatInputValue(inputType: string) {
+    const input = this.inputRef.value!;
+    const displayValue = input.value;
+    const selectionEnd = input.selectionEnd ?? displayValue.length;
+
+    let value = this.parseValue(displayValue);
+    // 光标前的原始值的字符数
+    let position = this.parseValue(displayValue.slice(0, selectionEnd)).length;
+
+    // 删除的是格式化时添加的字符时，原始值不变。此时改为删除光标前（或后）的一个原始值字符，否则光标会无法越过该字符
+    if (value === this.value) {
+      if (inputType === 'deleteContentBackward' && position > 0) {
+        value = value.slice(0, position - 1) + value.slice(position);
+        position--;
+      } else if (inputType === 'deleteContentForward') {
+        value = value.slice(0, position) + value.slice(position + 1);
+      }
+    }
+
+    const formattedValue = this.formatValue(value);
+    this.value = value;
+    input.value = formattedValue;
+
+    // 光标放在第 position 个原始值字符之后
+    let caret = formattedValue.length;
+    for (let i = 0; i < formattedValue.length; i++) {
+      if (this.parseValue(formattedValue.slice(0, i)).length >= position) {
+        caret = i;
+        break;
+      }
+    }
+
+    input.setSelectionRange(caret, caret);
+  }
+
+  /**
+   * 把输入的文本解析为数值。`.` 和 `locale` 对应的小数点都可作为小数点，其他非数字字符（如千分位分隔符）会被忽略
+   */
+  private parseNumber(value: string): number {
+    const decimal =
+      new Intl.NumberFormat(this.locale)
+        .formatToParts(1.1)
+        .find((part) => part.type === 'decimal')?.value ?? '.';
+
+    return parseFloat(value.replace(decimal, '.').replace(/[^\d.-]/g, ''));
+  }
+
+  /**
+   * 把值限制在 `min` 和 `max` 之间，并按 `precision` 四舍五入。无法解析为数值时返回空字符串
+   */
+  private normalizeNumber(value: string, precision = this.precision): string {
+    if (value === '') {
+      return '';
+    }
+
+    const number = this.parseNumber(value);
+    if (isNaN(number)) {
+      return '';
+    }
+
+    const clamped = clamp(number, this.min ?? -Infinity, this.max ?? Infinity);
+
+    return String(
+      precision === undefined ? clamped : Number(clamped.toFixed(precision)),
+    );
+  }
+
+  /**
+   * `type` 为 `number` 时，输入框的 type 为 text，不会执行原生的 min、max、step 验证，因此在这里验证数值。验证通过时返回空字符串
+   */
+  private getNumberValidityMessage(): string {
+    if (!this.isNumber || this.value === '') {
+      return '';
+    }
+
+    const number = this.parseNumber(this.value);
+    if (isNaN(number)) {
+      return '';
+    }
+
+    if (this.min !== undefined && number < this.min) {
+      return this.localeController.translate('rangeUnderflow', {
+        min: this.min,
+      });
+    }
+
+    if (this.max !== undefined && number > this.max) {
+      return this.localeController.translate('rangeOverflow', {
+        max: this.max,
+      });
+    }
+
+    if (this.step !== undefined && this.step > 0) {
+      // 与原生验证一样，以 min 为步长的基准值；按 step 和基准值中较多的小数位数四舍五入，避免浮点数运算误差
+      const base = this.min ?? 0;
+      const precision = Math.max(getDecimals(this.step), getDecimals(base));
+      const steps = (number - base) / this.step;
+
+      if (Math.abs(steps - Math.round(steps)) > 1e-7) {
+        const low = base + Math.floor(steps) * this.step;
+
+        return this.localeController.translate('stepMismatch', {
+          low: Number(low.toFixed(precision)),
+          high: Number((low + this.step).toFixed(precision)),
+        });
+      }
+    }
+
+    return '';
+  }
+
+  /**
+   * 把合并后的错误提示同步到输入框上。用于初始化，及非输入引起的验证条件变更，此时仅在已显示验证未通过的样式时更新该样式
+   */
+  private syncCustomValidity() {
+    const input = this.inputRef.value!;
+
+    input.setCustomValidity(this.getCustomValidityMessage());
+    if (this.invalid) {
+      this.invalid = !input.checkValidity();
+    }
+  }
+
+  /**
+   * 把值增加或减少 `step`
+   * @param direction `1` 为增加，`-1` 为减少
+   */
+  private stepValue(direction: 1 | -1) {
+    if (!this.isNumber || this.disabled || this.readonly) {
+      return;
+    }
+
+    const step = this.step ?? 1;
+    const current = this.parseNumber(this.value);
+    const number = (isNaN(current) ? 0 : current) + step * direction;
+
+    // 按 step 和当前值中较多的小数位数四舍五入，避免浮点数运算误差
+    const precision =
+      this.precision ??
+      Math.max(getDecimals(step), isNaN(current) ? 0 : getDecimals(current));
+
+    const value = this.normalizeNumber(String(number), precision);
+    if (value !== this.value) {
+      this.value = value;
+      emit(this, 'input');
+      emit(this, 'change');
     }
   }
 
@@ -927,7 +1283,10 @@ export class TextField
           class="right-icon"
           @click=${this.onClear}
         >
-          <mdui-button-icon tabindex="-1">
+          <mdui-button-icon
+            tabindex="-1"
+            aria-label=${this.localeController.translate('clear')}
+          >
             <slot name="clear-icon" part="clear-icon">
               ${this.clearIcon
                 ? html`<mdui-icon name=${this.clearIcon} class="i"></mdui-icon>`
@@ -953,7 +1312,12 @@ export class TextField
           class="right-icon"
           @click=${this.onTogglePassword}
         >
-          <mdui-button-icon tabindex="-1">
+          <mdui-button-icon
+            tabindex="-1"
+            aria-label=${this.localeController.translate(
+              this.isPasswordVisible ? 'hidePassword' : 'showPassword',
+            )}
+          >
             ${this.isPasswordVisible
               ? html`<slot name="show-password-icon" part="show-password-icon">
                   ${this.showPasswordIcon
@@ -980,16 +1344,66 @@ export class TextField
     );
   }
 
+  private renderSteppers(): TemplateResult {
+    const hasSteppers = this.isNumber && !this.disabled && !this.readonly;
+    const number = this.parseNumber(this.value);
+
+    return when(
+      hasSteppers,
+      () =>
+        html`<div part="steppers" class="right-icon steppers">
+          <mdui-button-icon
+            part="decrement-button"
+            tabindex="-1"
+            aria-label=${this.localeController.translate('decrement')}
+            ?disabled=${this.min !== undefined && number <= this.min}
+            @click=${this.stepDown}
+          >
+            <mdui-icon-remove class="i"></mdui-icon-remove>
+          </mdui-button-icon>
+          <mdui-button-icon
+            part="increment-button"
+            tabindex="-1"
+            aria-label=${this.localeController.translate('increment')}
+            ?disabled=${this.max !== undefined && number >= this.max}
+            @click=${this.stepUp}
+          >
+            <mdui-icon-add class="i"></mdui-icon-add>
+          </mdui-button-icon>
+        </div>`,
+    );
+  }
+
   private renderInput(hasInputSlot: boolean): TemplateResult {
     return html`<input
       ${ref(this.inputRef)}
       part="input"
       class="input ${classMap({ 'hide-input': hasInputSlot })}"
-      type=${this.type === 'password' && this.isPasswordVisible
+      type=${(this.type === 'password' && this.isPasswordVisible) ||
+      this.isNumber
         ? 'text'
         : this.type}
+      role=${ifDefined(
+        this.combobox ? 'combobox' : this.isNumber ? 'spinbutton' : undefined,
+      )}
+      aria-autocomplete=${ifDefined(this.combobox ? 'list' : undefined)}
+      aria-haspopup=${ifDefined(this.combobox ? 'listbox' : undefined)}
+      aria-expanded=${ifDefined(
+        this.combobox ? String(this.combobox.expanded) : undefined,
+      )}
+      .ariaControlsElements=${this.combobox?.listbox
+        ? [this.combobox.listbox]
+        : null}
+      .ariaActiveDescendantElement=${this.combobox?.activeOption ?? null}
+      aria-valuenow=${ifDefined(
+        this.isNumber && !isNaN(this.valueAsNumber)
+          ? this.valueAsNumber
+          : undefined,
+      )}
+      aria-valuemin=${ifDefined(this.isNumber ? this.min : undefined)}
+      aria-valuemax=${ifDefined(this.isNumber ? this.max : undefined)}
       name=${ifDefined(this.name)}
-      .value=${live(this.value)}
+      .value=${live(this.formatValue(this.value))}
       placeholder=${ifDefined(
         // @ts-ignore
         !this.label || this.isFocusedStyle || this.hasValue
@@ -1016,11 +1430,14 @@ export class TextField
       spellcheck=${ifDefined(this.spellcheck)}
       pattern=${ifDefined(this.pattern)}
       enterkeyhint=${ifDefined(this.enterkeyhint)}
-      inputmode=${ifDefined(this.inputmode)}
+      inputmode=${ifDefined(
+        this.isNumber ? this.inputmode ?? 'decimal' : this.inputmode,
+      )}
       @change=${this.onChange}
       @input=${this.onInput}
       @invalid=${this.onInvalid}
       @keydown=${this.onKeyDown}
+      @wheel=${this.onWheel}
     />`;
   }
 
@@ -1030,7 +1447,7 @@ export class TextField
       part="input"
       class="input ${classMap({ 'hide-input': hasInputSlot })}"
       name=${ifDefined(this.name)}
-      .value=${live(this.value)}
+      .value=${live(this.formatValue(this.value))}
       placeholder=${ifDefined(
         // @ts-ignore
         !this.label || this.isFocusedStyle || this.hasValue
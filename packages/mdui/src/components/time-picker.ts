@@ -0,0 +1 @@
+export * from './time-picker/index.js';
@@ -0,0 +1,79 @@
+/**
+ * 时间选择器中用到的时间处理函数
+ *
+ * 组件中的时间值统一使用 `HH:mm` 格式的字符串，与 `<input type="time">` 的值格式一致。
+ * 组件内部使用从 00:00 开始计算的分钟数表示时间
+ */
+
+/**
+ * 一天中的分钟数
+ */
+export const minutesInDay = 24 * 60;
+
+/**
+ * 把 `HH:mm` 或 `HH:mm:ss` 格式的字符串解析为从 00:00 开始计算的分钟数。格式不正确时返回 null
+ * @param value
+ */
+export const parseTime = (value?: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const matches = /^(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/.exec(value.trim());
+  if (!matches) {
+    return null;
+  }
+
+  const hour = parseInt(matches[1], 10);
+  const minute = parseInt(matches[2], 10);
+  if (hour > 23 || minute > 59) {
+    return null;
+  }
+
+  return hour * 60 + minute;
+};
+
+/**
+ * 把从 00:00 开始计算的分钟数格式化为 `HH:mm` 格式的字符串
+ * @param time
+ */
+export const formatTime = (time: number): string => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return `${pad(Math.floor(time / 60))}:${pad(time % 60)}`;
+};
+
+/**
+ * 判断时间是否在指定范围内。若 min 大于 max，则表示跨越午夜的时间范围（如 22:00 到 06:00）
+ * @param time
+ * @param min
+ * @param max
+ */
+export const isTimeInRange = (
+  time: number,
+  min: number | null,
+  max: number | null,
+): boolean => {
+  if (min !== null && max !== null && min > max) {
+    return time >= min || time <= max;
+  }
+
+  return (min === null || time >= min) && (max === null || time <= max);
+};
+
+/**
+ * 把 12 小时制的小时数转换为 24 小时制
+ * @param hour 1 ~ 12
+ * @param isPm 是否为下午
+ */
+export const to24Hour = (hour: number, isPm: boolean): number => {
+  return (hour % 12) + (isPm ? 12 : 0);
+};
+
+/**
+ * 把 24 小时制的小时数转换为 12 小时制
+ * @param hour 0 ~ 23
+ */
+export const to12Hour = (hour: number): number => {
+  return hour % 12 || 12;
+};
@@ -0,0 +1,874 @@
+import { html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { ifDefined } from 'lit/directives/if-defined.js';
+import { live } from 'lit/directives/live.js';
+import { map } from 'lit/directives/map.js';
+import { createRef, ref } from 'lit/directives/ref.js';
+import { styleMap } from 'lit/directives/style-map.js';
+import { when } from 'lit/directives/when.js';
+import { FormController, formResets } from '@mdui/shared/controllers/form.js';
+import { LocaleController } from '@mdui/shared/controllers/locale.js';
+import { defaultValue } from '@mdui/shared/decorators/default-value.js';
+import { watch } from '@mdui/shared/decorators/watch.js';
+import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { emit } from '@mdui/shared/helpers/event.js';
+import '@mdui/shared/icons/keyboard--outlined.js';
+import '@mdui/shared/icons/schedule--outlined.js';
+import { componentStyle } from '@mdui/shared/lit-styles/component-style.js';
+import { FocusableMixin } from '@mdui/shared/mixins/focusable.js';
+import { ValidatorMixin } from '@mdui/shared/mixins/validator.js';
+import '../button-icon.js';
+import {
+  formatTime,
+  isTimeInRange,
+  minutesInDay,
+  parseTime,
+  to12Hour,
+  to24Hour,
+} from './helper.js';
+import { style } from './style.js';
+import type { FormControl } from '@mdui/jq/shared/form.js';
+import type { CSSResultGroup, TemplateResult } from 'lit';
+import type { Ref } from 'lit/directives/ref.js';
+
+type View = 'hour' | 'minute';
+
+/**
+ * 表盘上的数字：[值, 显示的文本, 角度, 半径]
+ */
+type DialNumber = [number, string, number, number];
+
+/**
+ * 表盘上数字所在位置的半径，为表盘尺寸的百分比
+ */
+const outerRadius = 40;
+const innerRadius = 26;
+
+/**
+ * @summary 时间选择器组件
+ *
+ * ```html
+ * <mdui-time-picker></mdui-time-picker>
+ * ```
+ *
+ * @event focus - 获得焦点时触发
+ * @event blur - 失去焦点时触发
+ * @event change - 选中的时间变更时触发
+ * @event invalid - 表单字段验证未通过时触发
+ * @event validate - 开始执行自定义验证时触发
+ * @event validated - 自定义验证完成时触发。可以通过 `event.detail.valid` 和 `event.detail.message` 获取验证结果
+ *
+ * @csspart headline - 顶部的标题
+ * @csspart selector - 小时、分钟选择区域
+ * @csspart hour - 小时
+ * @csspart minute - 分钟
+ * @csspart separator - 小时和分钟之间的分隔符
+ * @csspart period - 上午、下午选择区域
+ * @csspart period-item - 上午、下午按钮
+ * @csspart dial - 表盘
+ * @csspart dial-number - 表盘上的数字
+ * @csspart dial-hand - 表盘指针
+ * @csspart error - 验证失败时的错误提示
+ * @csspart mode-button - 切换表盘模式和输入模式的按钮
+ *
+ * @cssprop --shape-corner - 组件中小时、分钟选择区域的圆角大小。可以指定一个具体的像素值；但更推荐[引用设计令牌](/docs/2/styles/design-tokens#shape-corner)
+ */
+@customElement('mdui-time-picker')
+export class TimePicker
+  extends ValidatorMixin(FocusableMixin(LitElement))
+  implements FormControl
+{
+  public static override styles: CSSResultGroup = [componentStyle, style];
+
+  /**
+   * 时间选择器的输入模式。可选值为：
+   *
+   * * `dial`：在表盘上选择时间
+   * * `input`：通过键盘输入时间
+   */
+  @property({ reflect: true })
+  public mode: /*在表盘上选择时间*/ 'dial' | /*通过键盘输入时间*/ 'input' =
+    'dial';
+
+  /**
+   * 时间格式。可选值为：
+   *
+   * * `12h`：12 小时制，可选择上午、下午
+   * * `24h`：24 小时制
+   */
+  @property({ reflect: true })
+  public format: /*12 小时制*/ '12h' | /*24 小时制*/ '24h' = '12h';
+
+  /**
+   * 时间选择器名称，将与表单数据一起提交
+   */
+  @property({ reflect: true })
+  public name = '';
+
+  /**
+   * 时间选择器的值，格式为 24 小时制的 `HH:mm`，将与表单数据一起提交
+   */
+  @property()
+  public value = '';
+
+  /**
+   * 默认值。在重置表单时，将重置为该默认值。该属性只能通过 JavaScript 属性设置
+   */
+  @defaultValue()
+  public defaultValue = '';
+
+  /**
+   * 分钟的步长。只能选择该步长整数倍的分钟数。默认为 `1`
+   */
+  @property({ type: Number, reflect: true })
+  public step = 1;
+
+  /**
+   * 允许选择的最小时间，格式为 `HH:mm`
+   *
+   * 若 `min` 大于 `max`，则表示跨越午夜的时间范围，如 `min="22:00" max="06:00"`
+   */
+  @property({ reflect: true })
+  public min?: string;
+
+  /**
+   * 允许选择的最大时间，格式为 `HH:mm`
+   */
+  @property({ reflect: true })
+  public max?: string;
+
+  /**
+   * 顶部的标题文本。默认在表盘模式下为“选择时间”，在输入模式下为“输入时间”，并使用当前语言的翻译
+   */
+  @property({ reflect: true })
+  public headline?: string;
+
+  /**
+   * 关联的 `form` 元素。此属性值必须为同一页面中的一个 `<form>` 元素的 `id` 属性。
+   *
+   * 如果此属性未指定，则元素必须是 `form` 元素的后代。利用此属性，你可以将元素放置在页面中的任何位置，而不仅仅是作为 `form` 元素的后代。
+   */
+  @property({ reflect: true })
+  public form?: string;
+
+  /**
+   * 是否为只读
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public readonly = false;
+
+  /**
+   * 是否为禁用状态
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public disabled = false;
+
+  /**
+   * 提交表单时，是否必须填写该字段
+   */
+  @property({
+    type: Boolean,
+    reflect: true,
+    converter: booleanConverter,
+  })
+  public required = false;
+
+  /**
+   * 是否验证未通过
+   *
+   * 该验证为浏览器原生验证 API，基于 `required`、`min`、`max`、`step` 属性的验证结果
+   */
+  @state()
+  private invalid = false;
+
+  /**
+   * 表盘上当前选择的是小时还是分钟
+   */
+  @state()
+  private view: View = 'hour';
+
+  /**
+   * 未选择时间时，12 小时制下选中的是否为下午
+   */
+  @state()
+  private pm = false;
+
+  /**
+   * 是否正在拖动表盘指针
+   */
+  @state()
+  private dragging = false;
+
+  private readonly hiddenInputRef: Ref<HTMLInputElement> = createRef();
+  private readonly hourRef: Ref<HTMLElement> = createRef();
+  private readonly minuteRef: Ref<HTMLInputElement> = createRef();
+  private readonly dialRef: Ref<HTMLElement> = createRef();
+  private readonly formController = new FormController(this);
+  private readonly localeController = new LocaleController(this);
+
+  /**
+   * 表单验证状态对象
+   */
+  public get validity(): ValidityState {
+    return this.hiddenInputRef.value!.validity;
+  }
+
+  /**
+   * 表单验证的错误提示信息
+   */
+  public get validationMessage(): string {
+    return this.hiddenInputRef.value!.validationMessage;
+  }
+
+  protected override get focusElement(): HTMLElement | undefined {
+    return this.hourRef.value;
+  }
+
+  protected override get focusDisabled(): boolean {
+    return this.disabled;
+  }
+
+  /**
+   * 当前选中的时间，为从 00:00 开始计算的分钟数
+   */
+  private get time(): number | null {
+    return parseTime(this.value);
+  }
+
+  private get is12Hour(): boolean {
+    return this.format === '12h';
+  }
+
+  private get isPm(): boolean {
+    const time = this.time;
+
+    return time === null ? this.pm : time >= 12 * 60;
+  }
+
+  /**
+   * 分钟的步长，限制在 1 ~ 60 之间
+   */
+  private get minuteStep(): number {
+    return Math.min(Math.max(Math.round(this.step) || 1, 1), 60);
+  }
+
+  @watch('disabled', true)
+  private onDisabledChange() {
+    // 禁用状态始终为验证通过，所以 disabled 变更时需要重新校验
+    this.invalid = !this.hiddenInputRef.value!.checkValidity();
+  }
+
+  @watch('value', true)
+  private async onValueChange() {
+    await this.updateComplete;
+
+    // reset 引起的值变更，不执行验证；直接修改值引起的变更，需要进行验证
+    const form = this.formController.getForm();
+    if (form && formResets.get(form)?.has(this)) {
+      this.invalid = false;
+      formResets.get(form)!.delete(this);
+    } else {
+      this.invalid = !this.hiddenInputRef.value!.checkValidity();
+      this.formController.requestValidate();
+    }
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`
+   */
+  public checkValidity(): boolean {
+    const valid = this.hiddenInputRef.value!.checkValidity();
+
+    if (!valid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+    }
+
+    return valid;
+  }
+
+  /**
+   * 检查表单字段是否验证通过。若未通过则返回 `false`，并触发 `invalid` 事件；若验证通过，则返回 `true`。
+   *
+   * 验证未通过时，还将在组件上显示未通过的提示。
+   */
+  public reportValidity(): boolean {
+    this.invalid = !this.hiddenInputRef.value!.reportValidity();
+
+    if (this.invalid) {
+      emit(this, 'invalid', {
+        bubbles: false,
+        cancelable: true,
+        composed: false,
+      });
+
+      this.focus();
+    }
+
+    return !this.invalid;
+  }
+
+  protected override applyCustomValidity(message: string): void {
+    this.hiddenInputRef.value!.setCustomValidity(message);
+    this.invalid = !this.hiddenInputRef.value!.checkValidity();
+  }
+
+  protected override render(): TemplateResult {
+    const headline =
+      this.headline ??
+      this.localeController.translate(
+        this.mode === 'dial' ? 'selectTime' : 'enterTime',
+      );
+
+    return html`<input
+        ${ref(this.hiddenInputRef)}
+        type="time"
+        class="hidden-input"
+        .value=${live(this.value)}
+        min=${ifDefined(this.min)}
+        max=${ifDefined(this.max)}
+        step=${this.minuteStep * 60}
+        .required=${this.required}
+        .disabled=${this.disabled}
+        tabindex="-1"
+      />
+      <div part="headline" class="headline">${headline}</div>
+      <div part="selector" class="selector">
+        ${this.mode === 'dial'
+          ? this.renderDialSelector()
+          : this.renderInputSelector()}
+        ${when(this.is12Hour, () => this.renderPeriod())}
+      </div>
+      ${when(this.mode === 'dial', () => this.renderDial())}
+      ${when(
+        this.invalid,
+        () =>
+          html`<div part="error" class="error">${this.validationMessage}</div>`,
+      )}
+      <div class="footer">
+        <mdui-button-icon
+          part="mode-button"
+          class="mode-button"
+          aria-label=${this.localeController.translate(
+            this.mode === 'dial' ? 'switchToInput' : 'switchToDial',
+          )}
+          .disabled=${this.disabled}
+          @click=${this.onModeToggle}
+        >
+          ${this.mode === 'dial'
+            ? html`<mdui-icon-keyboard--outlined></mdui-icon-keyboard--outlined>`
+            : html`<mdui-icon-schedule--outlined></mdui-icon-schedule--outlined>`}
+        </mdui-button-icon>
+      </div>`;
+  }
+
+  /**
+   * 时间是否允许选择
+   */
+  private isTimeAllowed(time: number): boolean {
+    return (
+      time % this.minuteStep === 0 &&
+      isTimeInRange(time, parseTime(this.min), parseTime(this.max))
+    );
+  }
+
+  /**
+   * 获取指定小时中第一个允许选择的分钟数；该小时中没有允许选择的时间时，返回 null
+   * @param hour 24 小时制的小时数
+   * @param preferred 优先使用的分钟数
+   */
+  private getAllowedMinute(hour: number, preferred = 0): number | null {
+    if (this.isTimeAllowed(hour * 60 + preferred)) {
+      return preferred;
+    }
+
+    for (let minute = 0; minute < 60; minute += this.minuteStep) {
+      if (this.isTimeAllowed(hour * 60 + minute)) {
+        return minute;
+      }
+    }
+
+    return null;
+  }
+
+  private isHourDisabled(hour: number): boolean {
+    return this.getAllowedMinute(hour) === null;
+  }
+
+  private isMinuteDisabled(minute: number): boolean {
+    const time = this.time;
+    const hour = time === null ? (this.isPm ? 12 : 0) : Math.floor(time / 60);
+
+    return !this.isTimeAllowed(hour * 60 + minute);
+  }
+
+  /**
+   * 修改值，并在值变更时触发 change 事件
+   */
+  private setTime(time: number) {
+    const value = formatTime(time);
+
+    if (value !== this.value) {
+      this.value = value;
+      emit(this, 'change');
+    }
+  }
+
+  /**
+   * 选中小时。会尽量保留当前的分钟数
+   * @param hour 24 小时制的小时数
+   */
+  private selectHour(hour: number): boolean {
+    const time = this.time;
+    const minute = this.getAllowedMinute(hour, time === null ? 0 : time % 60);
+
+    if (minute === null) {
+      return false;
+    }
+
+    this.setTime(hour * 60 + minute);
+    return true;
+  }
+
+  private selectMinute(minute: number): boolean {
+    const time = this.time;
+    const hour = time === null ? (this.isPm ? 12 : 0) : Math.floor(time / 60);
+
+    if (!this.isTimeAllowed(hour * 60 + minute)) {
+      return false;
+    }
+
+    this.setTime(hour * 60 + minute);
+    return true;
+  }
+
+  /**
+   * 把小时或分钟增加或减少指定的步数，跳过不允许选择的时间
+   */
+  private stepTime(view: View, delta: number) {
+    if (this.readonly || this.disabled) {
+      return;
+    }
+
+    const time = this.time ?? (this.isPm ? 12 * 60 : 0);
+    const unit = view === 'hour' ? 60 : this.minuteStep;
+    const count = view === 'hour' ? 24 : Math.ceil(60 / this.minuteStep);
+    const hour = Math.floor(time / 60);
+
+    for (let index = 1; index <= count; index++) {
+      if (view === 'hour') {
+        const nextHour = (((hour + delta * index) % 24) + 24) % 24;
+        if (this.selectHour(nextHour)) {
+          return;
+        }
+      } else {
+        // 分钟在当前小时内循环
+        const minute = Math.floor((time % 60) / unit) * unit;
+        const nextMinute =
+          (((minute + delta * index * unit) % (count * unit)) + count * unit) %
+          (count * unit);
+        if (nextMinute < 60 && this.selectMinute(nextMinute)) {
+          return;
+        }
+      }
+    }
+  }
+
+  private onModeToggle() {
+    this.mode = this.mode === 'dial' ? 'input' : 'dial';
+    this.view = 'hour';
+  }
+
+  private onViewChange(view: View) {
+    this.view = view;
+  }
+
+  private onPeriodClick(isPm: boolean) {
+    if (this.readonly || this.disabled || isPm === this.isPm) {
+      return;
+    }
+
+    const time = this.time;
+    if (time === null) {
+      this.pm = isPm;
+      return;
+    }
+
+    // 切换上午、下午时，保留当前的小时和分钟
+    const hour = Math.floor(time / 60);
+    const nextHour = isPm ? hour + 12 : hour - 12;
+    const minute = this.getAllowedMinute(nextHour, time % 60);
+    if (minute !== null) {
+      this.setTime((nextHour * 60 + minute) % minutesInDay);
+    }
+  }
+
+  private onSelectorKeyDown(view: View, event: KeyboardEvent) {
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      this.view = view;
+      this.stepTime(view, event.key === 'ArrowUp' ? 1 : -1);
+    }
+  }
+
+  private onHourInput(event: Event) {
+    const input = event.target as HTMLInputElement;
+    input.value = input.value.replace(/\D/g, '').slice(0, 2);
+
+    // 输入了两位数的小时后，焦点自动移动到分钟输入框
+    if (input.value.length === 2) {
+      this.minuteRef.value!.focus();
+      this.minuteRef.value!.select();
+    }
+  }
+
+  private onMinuteInput(event: Event) {
+    const input = event.target as HTMLInputElement;
+    input.value = input.value.replace(/\D/g, '').slice(0, 2);
+  }
+
+  /**
+   * 输入模式下，输入框失去焦点或按下回车时，根据输入的值修改时间
+   */
+  private onInputChange() {
+    const hourInput = this.hourRef.value as HTMLInputElement;
+    const minuteInput = this.minuteRef.value!;
+
+    if (!hourInput.value && !minuteInput.value) {
+      return;
+    }
+
+    let hour = parseInt(hourInput.value, 10);
+    let minute = parseInt(minuteInput.value || '0', 10);
+    const maxHour = this.is12Hour ? 12 : 23;
+    const minHour = this.is12Hour ? 1 : 0;
+
+    if (isNaN(hour) || hour < minHour || hour > maxHour) {
+      // 输入的小时数无效时，恢复为原来的值
+      this.requestUpdate();
+      return;
+    }
+
+    minute = Math.min(
+      Math.round(Math.min(minute, 59) / this.minuteStep) * this.minuteStep,
+      60 - this.minuteStep,
+    );
+
+    if (this.is12Hour) {
+      hour = to24Hour(hour, this.isPm);
+    }
+
+    this.setTime(hour * 60 + minute);
+    this.requestUpdate();
+  }
+
+  private onDialPointerDown(event: PointerEvent) {
+    if (this.readonly || this.disabled || event.button !== 0) {
+      return;
+    }
+
+    this.dialRef.value!.setPointerCapture(event.pointerId);
+    this.dragging = true;
+    this.selectByPointer(event);
+  }
+
+  private onDialPointerMove(event: PointerEvent) {
+    if (this.dragging) {
+      this.selectByPointer(event);
+    }
+  }
+
+  private async onDialPointerUp() {
+    if (!this.dragging) {
+      return;
+    }
+
+    this.dragging = false;
+
+    // 选择了小时后，自动切换到选择分钟
+    if (this.view === 'hour' && this.time !== null) {
+      this.view = 'minute';
+      await this.updateComplete;
+      this.minuteRef.value?.focus();
+    }
+  }
+
+  /**
+   * 根据指针在表盘上的位置选择小时或分钟
+   */
+  private selectByPointer(event: PointerEvent) {
+    const rect = this.dialRef.value!.getBoundingClientRect();
+    const x = event.clientX - rect.left - rect.width / 2;
+    const y = event.clientY - rect.top - rect.height / 2;
+    const angle = ((Math.atan2(x, -y) * 180) / Math.PI + 360) % 360;
+
+    if (this.view === 'minute') {
+      const minute =
+        (Math.round(angle / 6 / this.minuteStep) * this.minuteStep) % 60;
+      this.selectMinute(minute);
+      return;
+    }
+
+    const index = Math.round(angle / 30) % 12;
+    const distance = (Math.hypot(x, y) / rect.width) * 100;
+
+    // 24 小时制的表盘有内外两圈，内圈为 00、13 ~ 23
+    const hour = this.is12Hour
+      ? to24Hour(index || 12, this.isPm)
+      : distance < (outerRadius + innerRadius) / 2
+      ? index === 0
+        ? 0
+        : index + 12
+      : index || 12;
+
+    if (!this.isHourDisabled(hour)) {
+      this.selectHour(hour);
+    }
+  }
+
+  /**
+   * 获取当前语言下上午、下午的文本
+   */
+  private getDayPeriods(): [string, string] {
+    const formatter = new Intl.DateTimeFormat(this.localeController.locale, {
+      hour: 'numeric',
+      hour12: true,
+    });
+    const getPeriod = (hour: number) =>
+      formatter
+        .formatToParts(new Date(2023, 0, 1, hour))
+        .find((part) => part.type === 'dayPeriod')?.value ?? '';
+
+    return [getPeriod(0) || 'AM', getPeriod(12) || 'PM'];
+  }
+
+  /**
+   * 获取显示的小时和分钟文本
+   */
+  private getDisplayTime(): [string, string] {
+    const time = this.time;
+
+    if (time === null) {
+      return ['', ''];
+    }
+
+    const hour = Math.floor(time / 60);
+    const displayHour = this.is12Hour ? to12Hour(hour) : hour;
+
+    return [
+      displayHour.toString().padStart(2, '0'),
+      (time % 60).toString().padStart(2, '0'),
+    ];
+  }
+
+  private renderDialSelector(): TemplateResult {
+    const [hour, minute] = this.getDisplayTime();
+    const time = this.time;
+
+    const renderField = (view: View, text: string) =>
+      html`<div
+        ${ref(view === 'hour' ? this.hourRef : this.minuteRef)}
+        part=${view}
+        class="field ${classMap({ active: this.view === view })}"
+        role="spinbutton"
+        tabindex=${this.disabled ? -1 : 0}
+        aria-label=${this.localeController.translate(view)}
+        aria-valuenow=${ifDefined(
+          time === null
+            ? undefined
+            : view === 'hour'
+            ? parseInt(hour, 10)
+            : time % 60,
+        )}
+        aria-valuemin=${view === 'minute' ? 0 : this.is12Hour ? 1 : 0}
+        aria-valuemax=${view === 'minute' ? 59 : this.is12Hour ? 12 : 23}
+        aria-disabled=${this.disabled ? 'true' : 'false'}
+        @click=${() => this.onViewChange(view)}
+        @keydown=${(event: KeyboardEvent) =>
+          this.onSelectorKeyDown(view, event)}
+      >
+        ${text || '--'}
+      </div>`;
+
+    return html`${renderField('hour', hour)}
+      <span part="separator" class="separator">:</span>
+      ${renderField('minute', minute)}`;
+  }
+
+  private renderInputSelector(): TemplateResult {
+    const [hour, minute] = this.getDisplayTime();
+
+    const renderInput = (view: View, value: string) =>
+      html`<label class="input-wrapper">
+        <input
+          ${ref(view === 'hour' ? this.hourRef : this.minuteRef)}
+          part=${view}
+          class="field"
+          type="text"
+          inputmode="numeric"
+          autocomplete="off"
+          maxlength="2"
+          placeholder="--"
+          .value=${live(value)}
+          .readOnly=${this.readonly}
+          .disabled=${this.disabled}
+          @focus=${(event: FocusEvent) =>
+            (event.target as HTMLInputElement).select()}
+          @input=${view === 'hour' ? this.onHourInput : this.onMinuteInput}
+          @change=${this.onInputChange}
+          @keydown=${(event: KeyboardEvent) =>
+            this.onSelectorKeyDown(view, event)}
+        />
+        <span class="supporting-text"
+          >${this.localeController.translate(view)}</span
+        >
+      </label>`;
+
+    return html`${renderInput('hour', hour)}
+      <span part="separator" class="separator">:</span>
+      ${renderInput('minute', minute)}`;
+  }
+
+  private renderPeriod(): TemplateResult {
+    const [am, pm] = this.getDayPeriods();
+
+    return html`<div part="period" class="period" role="radiogroup">
+      ${map(
+        [
+          [false, am],
+          [true, pm],
+        ] as [boolean, string][],
+        ([isPm, text]) =>
+          html`<button
+            type="button"
+            part="period-item"
+            class="period-item ${classMap({ selected: isPm === this.isPm })}"
+            role="radio"
+            aria-checked=${isPm === this.isPm ? 'true' : 'false'}
+            ?disabled=${this.disabled}
+            @click=${() => this.onPeriodClick(isPm)}
+          >
+            ${text}
+          </button>`,
+      )}
+    </div>`;
+  }
+
+  private renderDial(): TemplateResult {
+    const time = this.time;
+    const isHourView = this.view === 'hour';
+
+    const numbers: DialNumber[] = isHourView
+      ? [
+          ...Array.from({ length: 12 }, (_, index): DialNumber => {
+            const hour = index || 12;
+            const value = this.is12Hour ? to24Hour(hour, this.isPm) : hour;
+            return [value, hour.toString(), index * 30, outerRadius];
+          }),
+          ...(this.is12Hour
+            ? []
+            : Array.from({ length: 12 }, (_, index): DialNumber => {
+                const hour = index ? index + 12 : 0;
+                return [
+                  hour,
+                  hour.toString().padStart(2, '0'),
+                  index * 30,
+                  innerRadius,
+                ];
+              })),
+        ]
+      : Array.from(
+          { length: 12 },
+          (_, index): DialNumber => [
+            index * 5,
+            (index * 5).toString().padStart(2, '0'),
+            index * 30,
+            outerRadius,
+          ],
+        );
+
+    // 指针的角度和长度
+    let hand: [number, number] | null = null;
+    if (time !== null) {
+      const hour = Math.floor(time / 60);
+      const minute = time % 60;
+      hand = isHourView
+        ? [
+            (hour % 12) * 30,
+            !this.is12Hour && (hour === 0 || hour > 12)
+              ? innerRadius
+              : outerRadius,
+          ]
+        : [minute * 6, outerRadius];
+    }
+
+    const isSelected = (value: number) =>
+      time !== null &&
+      (isHourView ? Math.floor(time / 60) : time % 60) === value;
+
+    return html`<div
+      ${ref(this.dialRef)}
+      part="dial"
+      class="dial ${classMap({ dragging: this.dragging })}"
+      @pointerdown=${this.onDialPointerDown}
+      @pointermove=${this.onDialPointerMove}
+      @pointerup=${this.onDialPointerUp}
+      @pointercancel=${this.onDialPointerUp}
+    >
+      ${when(
+        hand,
+        ([angle, radius]) =>
+          html`<div
+            part="dial-hand"
+            class="hand ${classMap({
+              // 分钟不是 5 的整数倍时，指针末端不会覆盖数字，需要显示一个圆点
+              dot: !isHourView && time! % 5 !== 0,
+            })}"
+            style=${styleMap({
+              height: `${radius}%`,
+              transform: `rotate(${angle}deg)`,
+            })}
+          ></div>`,
+      )}
+      ${map(
+        numbers,
+        ([value, text, angle, radius]) =>
+          html`<span
+            part="dial-number"
+            class="number ${classMap({
+              inner: radius === innerRadius,
+              selected: isSelected(value),
+              disabled: isHourView
+                ? this.isHourDisabled(value)
+                : this.isMinuteDisabled(value),
+            })}"
+            aria-hidden="true"
+            style=${styleMap({
+              left: `${50 + radius * Math.sin((angle * Math.PI) / 180)}%`,
+              top: `${50 - radius * Math.cos((angle * Math.PI) / 180)}%`,
+            })}
+          >
+            ${text}
+          </span>`,
+      )}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mdui-time-picker': TimePicker;
+  }
+}
@@ -14,6 +14,7 @@ import { HoverController } from '@mdui/shared/controllers/hover.js';
 import { watch } from '@mdui/shared/decorators/watch.js';
 import { animateTo, stopAnimations } from '@mdui/shared/helpers/animate.js';
 import { booleanConverter } from '@mdui/shared/helpers/decorator.js';
+import { isRtl } from '@mdui/shared/helpers/direction.js';
 import { emit } from '@mdui/shared/helpers/event.js';
 import { getDuration, getEasing } from '@mdui/shared/helpers/motion.js';
 import { observeResize } from '@mdui/shared/helpers/observeResize.js';
@@ -86,6 +87,8 @@ export class Tooltip extends LitElement {
    * * `right-start`：位于右侧，且顶部对齐
    * * `right`：位于右侧，且居中对齐
    * * `right-end`：位于右侧，且底部对齐
+   *
+   * 在从右到左布局中，位于上方或下方时，`start` 为右对齐，`end` 为左对齐；`auto` 的左右优先级也会互换，如 `variant="rich"` 时优先使用 `bottom-left`
    */
   @property({ reflect: true })
   public placement:
@@ -488,6 +491,7 @@ export class Tooltip extends LitElement {
     let top: number;
     let left: number;
     let placement = this.placement;
+    const rtl = isRtl(this);
 
     // 自动判断 popup 方位
     if (placement === 'auto') {
@@ -499,30 +503,38 @@ export class Tooltip extends LitElement {
       const hasRightSpace =
         $window.width() - targetLeft - targetWidth > popupXSpace;
 
-      // rich 优先级为 bottom-right > bottom-left > top-right > top-left >
-      //              bottom > top > right > left
+      // 起始侧和结束侧，从左到右布局时分别为左侧和右侧，从右到左布局时分别为右侧和左侧
+      const [start, end] = rtl
+        ? (['right', 'left'] as const)
+        : (['left', 'right'] as const);
+      const [hasStartSpace, hasEndSpace] = rtl
+        ? [hasRightSpace, hasLeftSpace]
+        : [hasLeftSpace, hasRightSpace];
+
+      // rich 优先级为 bottom-end > bottom-start > top-end > top-start >
+      //              bottom > top > end > start
       if (this.isRich()) {
-        placement = 'bottom-right';
-
-        if (hasBottomSpace && hasRightSpace) {
-          placement = 'bottom-right';
-        } else if (hasBottomSpace && hasLeftSpace) {
-          placement = 'bottom-left';
-        } else if (hasTopSpace && hasRightSpace) {
-          placement = 'top-right';
-        } else if (hasTopSpace && hasLeftSpace) {
-          placement = 'top-left';
+        placement = `bottom-${end}`;
+
+        if (hasBottomSpace && hasEndSpace) {
+          placement = `bottom-${end}`;
+        } else if (hasBottomSpace && hasStartSpace) {
+          placement = `bottom-${start}`;
+        } else if (hasTopSpace && hasEndSpace) {
+          placement = `top-${end}`;
+        } else if (hasTopSpace && hasStartSpace) {
+          placement = `top-${start}`;
         } else if (hasBottomSpace) {
           placement = 'bottom';
         } else if (hasTopSpace) {
           placement = 'top';
-        } else if (hasRightSpace) {
-          placement = 'right';
-        } else if (hasLeftSpace) {
-          placement = 'left';
+        } else if (hasEndSpace) {
+          placement = end;
+        } else if (hasStartSpace) {
+          placement = start;
         }
       }
-      // plain 优先级为 top > bottom > left > right
+      // plain 优先级为 top > bottom > start > end
       else {
         placement = 'top';
 
@@ -530,10 +542,10 @@ export class Tooltip extends LitElement {
           placement = 'top';
         } else if (hasBottomSpace) {
           placement = 'bottom';
-        } else if (hasLeftSpace) {
-          placement = 'left';
-        } else if (hasRightSpace) {
-          placement = 'right';
+        } else if (hasStartSpace) {
+          placement = start;
+        } else if (hasEndSpace) {
+          placement = end;
         }
       }
     }
@@ -569,6 +581,14 @@ export class Tooltip extends LitElement {
         break;
     }
 
+    // 从右到左布局时，位于上方或下方的 start、end 对齐的左右位置互换
+    const alignmentX =
+      rtl && (alignment === 'start' || alignment === 'end')
+        ? alignment === 'start'
+          ? 'end'
+          : 'start'
+        : alignment;
+
     switch (position) {
       case 'left':
         transformOriginX = 'right';
@@ -580,7 +600,7 @@ export class Tooltip extends LitElement {
         break;
       default:
         transformOriginX = 'center';
-        switch (alignment) {
+        switch (alignmentX) {
           case 'start':
             left = targetLeft;
             break;
@@ -2,6 +2,7 @@ import isPromise from 'is-promise';
 import { $ } from '@mdui/jq/$.js';
 import '@mdui/jq/methods/on.js';
 import { isUndefined, returnTrue } from '@mdui/jq/shared/helper.js';
+import { translate } from '@mdui/shared/helpers/locale.js';
 import { dialog as openDialog } from './dialog.js';
 import type { Dialog } from '../components/dialog.js';
 
@@ -32,7 +33,7 @@ interface Options {
   closeOnOverlayClick?: boolean;
 
   /**
-   * 确认按钮的文本
+   * 确认按钮的文本。默认为“确定”，并使用当前语言的翻译
    */
   confirmText?: string;
 
@@ -88,8 +89,7 @@ interface Options {
   onOverlayClick?: (dialog: Dialog) => void;
 }
 
-const defaultOptions: Required<Pick<Options, 'confirmText' | 'onConfirm'>> = {
-  confirmText: '确定',
+const defaultOptions: Required<Pick<Options, 'onConfirm'>> = {
   onConfirm: returnTrue,
 };
 
@@ -100,7 +100,11 @@ const defaultOptions: Required<Pick<Options, 'confirmText' | 'onConfirm'>> = {
  * @param options
  */
 export const alert = (options: Options): Promise<void> => {
-  const mergedOptions = Object.assign({}, defaultOptions, options);
+  const mergedOptions = Object.assign(
+    { confirmText: translate('confirm') },
+    defaultOptions,
+    options,
+  );
   const properties: (keyof Pick<
     Options,
     | 'headline'
@@ -2,6 +2,7 @@ import isPromise from 'is-promise';
 import { $ } from '@mdui/jq/$.js';
 import '@mdui/jq/methods/on.js';
 import { isUndefined, returnTrue } from '@mdui/jq/shared/helper.js';
+import { translate } from '@mdui/shared/helpers/locale.js';
 import { dialog as openDialog } from './dialog.js';
 import type { Dialog } from '../components/dialog.js';
 
@@ -32,12 +33,12 @@ interface Options {
   closeOnOverlayClick?: boolean;
 
   /**
-   * 确认按钮的文本
+   * 确认按钮的文本。默认为“确定”，并使用当前语言的翻译
    */
   confirmText?: string;
 
   /**
-   * 取消按钮的文本
+   * 取消按钮的文本。默认为“取消”，并使用当前语言的翻译
    */
   cancelText?: string;
 
@@ -106,11 +107,7 @@ interface Options {
   onOverlayClick?: (dialog: Dialog) => void;
 }
 
-const defaultOptions: Required<
-  Pick<Options, 'confirmText' | 'cancelText' | 'onConfirm' | 'onCancel'>
-> = {
-  confirmText: '确定',
-  cancelText: '取消',
+const defaultOptions: Required<Pick<Options, 'onConfirm' | 'onCancel'>> = {
   onConfirm: returnTrue,
   onCancel: returnTrue,
 };
@@ -122,7 +119,11 @@ const defaultOptions: Required<
  * @param options
  */
 export const confirm = (options: Options): Promise<void> => {
-  const mergedOptions = Object.assign({}, defaultOptions, options);
+  const mergedOptions = Object.assign(
+    { confirmText: translate('confirm'), cancelText: translate('cancel') },
+    defaultOptions,
+    options,
+  );
   const properties: (keyof Pick<
     Options,
     | 'headline'
@@ -67,6 +67,36 @@ interface Options {
    */
   stackedActions?: boolean;
 
+  /**
+   * 是否可拖拽移动 dialog 的位置
+   */
+  draggable?: boolean;
+
+  /**
+   * 是否可拖拽改变 dialog 的大小
+   */
+  resizable?: boolean;
+
+  /**
+   * 可拖拽改变大小时，dialog 的最小宽度（单位为 `px`）
+   */
+  minWidth?: number;
+
+  /**
+   * 可拖拽改变大小时，dialog 的最小高度（单位为 `px`）
+   */
+  minHeight?: number;
+
+  /**
+   * 可拖拽改变大小时，dialog 的最大宽度（单位为 `px`）
+   */
+  maxWidth?: number;
+
+  /**
+   * 可拖拽改变大小时，dialog 的最大高度（单位为 `px`）
+   */
+  maxHeight?: number;
+
   /**
    * 队列名称。
    * 默认不启用队列，在多次调用该函数时，将同时显示多个 dialog。
@@ -109,6 +139,34 @@ interface Options {
    * @param dialog
    */
   onOverlayClick?: (dialog: Dialog) => void;
+
+  /**
+   * 开始拖拽移动 dialog 时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onDragStart?: (dialog: Dialog) => void;
+
+  /**
+   * 拖拽移动 dialog 结束时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onDragEnd?: (dialog: Dialog) => void;
+
+  /**
+   * 开始拖拽改变 dialog 大小时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onResizeStart?: (dialog: Dialog) => void;
+
+  /**
+   * 拖拽改变 dialog 大小结束时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onResizeEnd?: (dialog: Dialog) => void;
 }
 
 const defaultAction: Required<Pick<Action, 'onClick'>> = {
@@ -133,6 +191,12 @@ export const dialog = (options: Options): Dialog => {
     | 'closeOnEsc'
     | 'closeOnOverlayClick'
     | 'stackedActions'
+    | 'draggable'
+    | 'resizable'
+    | 'minWidth'
+    | 'minHeight'
+    | 'maxWidth'
+    | 'maxHeight'
   >)[] = [
     'headline',
     'description',
@@ -140,12 +204,36 @@ export const dialog = (options: Options): Dialog => {
     'closeOnEsc',
     'closeOnOverlayClick',
     'stackedActions',
+    'draggable',
+    'resizable',
+    'minWidth',
+    'minHeight',
+    'maxWidth',
+    'maxHeight',
   ];
 
   const callbacks: (keyof Pick<
     Options,
-    'onOpen' | 'onOpened' | 'onClose' | 'onClosed' | 'onOverlayClick'
-  >)[] = ['onOpen', 'onOpened', 'onClose', 'onClosed', 'onOverlayClick'];
+    | 'onOpen'
+    | 'onOpened'
+    | 'onClose'
+    | 'onClosed'
+    | 'onOverlayClick'
+    | 'onDragStart'
+    | 'onDragEnd'
+    | 'onResizeStart'
+    | 'onResizeEnd'
+  >)[] = [
+    'onOpen',
+    'onOpened',
+    'onClose',
+    'onClosed',
+    'onOverlayClick',
+    'onDragStart',
+    'onDragEnd',
+    'onResizeStart',
+    'onResizeEnd',
+  ];
 
   Object.entries(options).forEach(([key, value]) => {
     // @ts-ignore
@@ -0,0 +1,60 @@
+import { argbFromHex } from '@material/material-color-utilities';
+import { getCssText } from './utils/colorScheme.js';
+import type { ColorScheme } from './utils/colorScheme.js';
+
+/**
+ * 把 getColorScheme() 生成的配色方案导出为文本。不依赖 DOM，可在 Node.js 中使用
+ * @param scheme 通过 getColorScheme() 生成的配色方案
+ * @param format 导出格式。可选值为：
+ *
+ * * `css`：CSS 文本，包含 mdui 使用的 CSS 自定义属性
+ * * `json`：JSON 文本，与配色方案的结构相同
+ * * `design-tokens`：符合 W3C 设计令牌格式的 JSON 文本
+ * @param options
+ * @param options.selector 导出为 CSS 时，应用配色方案的 CSS 选择器，可以是用逗号分隔的选择器列表。默认为 `:root`
+ */
+export const exportColorScheme = (
+  scheme: ColorScheme,
+  format: 'css' | 'json' | 'design-tokens',
+  options?: {
+    selector?: string;
+  },
+): string => {
+  if (format === 'css') {
+    const toArgb = (colors: Record<string, string>) =>
+      Object.fromEntries(
+        Object.entries(colors).map(([name, value]) => [
+          name,
+          argbFromHex(value),
+        ]),
+      );
+
+    return getCssText(options?.selector || ':root', {
+      light: toArgb(scheme.light),
+      dark: toArgb(scheme.dark),
+    });
+  }
+
+  if (format === 'design-tokens') {
+    const toTokens = (colors: Record<string, string>) =>
+      Object.fromEntries(
+        Object.entries(colors).map(([name, value]) => [
+          name,
+          { $type: 'color', $value: value },
+        ]),
+      );
+
+    return JSON.stringify(
+      {
+        color: {
+          light: toTokens(scheme.light),
+          dark: toTokens(scheme.dark),
+        },
+      },
+      null,
+      2,
+    );
+  }
+
+  return JSON.stringify(scheme, null, 2);
+};
@@ -0,0 +1,41 @@
+import { argbFromHex, hexFromArgb } from '@material/material-color-utilities';
+import { getSchemes } from './utils/colorScheme.js';
+import type {
+  ColorScheme,
+  ContrastLevel,
+  CustomColor,
+  SchemeVariant,
+} from './utils/colorScheme.js';
+
+export type { ColorScheme } from './utils/colorScheme.js';
+
+/**
+ * 根据指定颜色生成配色方案，返回亮色模式和暗色模式的所有颜色。不依赖 DOM，可在 Node.js 中使用
+ * @param hex 十六进制颜色值，如 #f82506
+ * @param options
+ * @param options.customColors 自定义颜色数组
+ * @param options.customColors[].name 自定义颜色名
+ * @param options.customColors[].value 自定义十六进制颜色值，如 #f82506
+ * @param options.variant 配色方案的变体。未指定 `variant` 和 `contrast` 时，生成与之前版本相同的配色方案；仅指定了 `contrast` 时，默认为 `tonal-spot`
+ * @param options.contrast 配色方案的对比度，可选值为 `standard`、`medium`、`high`。默认为 `standard`
+ * @return ColorScheme 配色方案。键名为颜色名，如 `on-primary`，值为十六进制颜色值
+ */
+export const getColorScheme = (
+  hex: string,
+  options?: {
+    customColors?: CustomColor[];
+    variant?: SchemeVariant;
+    contrast?: ContrastLevel;
+  },
+): ColorScheme => {
+  const schemes = getSchemes(argbFromHex(hex), options);
+  const toHex = (scheme: Record<string, number>) =>
+    Object.fromEntries(
+      Object.entries(scheme).map(([name, value]) => [name, hexFromArgb(value)]),
+    );
+
+  return {
+    light: toHex(schemes.light),
+    dark: toHex(schemes.dark),
+  };
+};
@@ -0,0 +1,32 @@
+import { argbFromHex } from '@material/material-color-utilities';
+import { getStyle } from './utils/colorScheme.js';
+import type {
+  ContrastLevel,
+  CustomColor,
+  SchemeVariant,
+} from './utils/colorScheme.js';
+
+/**
+ * 生成配色方案的 CSS 类名和 CSS 文本。不依赖 DOM，可用于服务端渲染
+ *
+ * 把返回的 CSS 文本放在 `<style id="${className}">` 元素中，并在要设置配色方案的元素上添加 CSS 类名，
+ * 效果与在客户端调用 setColorScheme() 相同，且可以通过 removeColorScheme() 移除
+ * @param hex 十六进制颜色值，如 #f82506
+ * @param options
+ * @param options.customColors 自定义颜色数组
+ * @param options.customColors[].name 自定义颜色名
+ * @param options.customColors[].value 自定义十六进制颜色值，如 #f82506
+ * @param options.variant 配色方案的变体。未指定 `variant` 和 `contrast` 时，生成与之前版本相同的配色方案；仅指定了 `contrast` 时，默认为 `tonal-spot`
+ * @param options.contrast 配色方案的对比度，可选值为 `standard`、`medium`、`high`。默认为 `standard`
+ * @return { className: string, cssText: string } 配色方案的 CSS 类名和 CSS 文本
+ */
+export const getColorSchemeStyle = (
+  hex: string,
+  options?: {
+    customColors?: CustomColor[];
+    variant?: SchemeVariant;
+    contrast?: ContrastLevel;
+  },
+): { className: string; cssText: string } => {
+  return getStyle(argbFromHex(hex), options);
+};
@@ -0,0 +1,2 @@
+export { getFormErrors } from '@mdui/shared/controllers/form.js';
+export type { FormError } from '@mdui/shared/controllers/form.js';
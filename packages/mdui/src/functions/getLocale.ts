@@ -0,0 +1 @@
+export { getLocale } from '@mdui/shared/helpers/locale.js';
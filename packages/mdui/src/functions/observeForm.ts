@@ -0,0 +1,300 @@
+import { $ } from '@mdui/jq/$.js';
+import { formCollections, getFormControls } from '@mdui/jq/shared/form.js';
+import { arraysEqualIgnoreOrder } from '@mdui/shared/helpers/array.js';
+import type { JQ } from '@mdui/jq/shared/core.js';
+import type { FormControl, FormControlValue } from '@mdui/jq/shared/form.js';
+
+export type FormValues = Record<string, FormControlValue | File[]>;
+
+export interface ObserveForm {
+  /**
+   * 获取表单中所有 mdui 表单控件的值组成的对象，键名为表单控件的 `name` 属性。
+   *
+   * 若存在相同的键名，则对应的值会转为数组。`<mdui-checkbox>` 和 `<mdui-switch>` 仅在选中时才包含其值。`<mdui-file-upload>` 的值为已选择的文件组成的数组
+   */
+  getValues: () => FormValues;
+
+  /**
+   * 根据对象设置表单中 mdui 表单控件的值，对象的键名为表单控件的 `name` 属性，未包含在对象中的表单控件保持不变。
+   *
+   * `<mdui-checkbox>` 和 `<mdui-switch>` 在对应的值为 `true`、等于其 `value` 属性、或为包含其 `value` 属性的数组时选中，否则取消选中。`<mdui-file-upload>` 仅在对应的值为 `File` 组成的数组时设置已选择的文件，且不会更新默认值
+   * @param values 表单控件的值组成的对象
+   * @param updateDefault 是否同时更新表单控件的默认值。为 `true` 时，设置值后表单将处于未修改状态，且重置表单时会恢复成该值
+   */
+  setValues: (values: FormValues, updateDefault?: boolean) => void;
+
+  /**
+   * 表单控件的值是否与默认值不同。传入 `name` 时，仅判断该名称的表单控件
+   * @param name 表单控件的 `name` 属性
+   */
+  isDirty: (name?: string) => boolean;
+
+  /**
+   * 表单控件是否获得过焦点，并失去了焦点。传入 `name` 时，仅判断该名称的表单控件
+   * @param name 表单控件的 `name` 属性
+   */
+  isTouched: (name?: string) => boolean;
+
+  /**
+   * 重置表单，所有表单控件恢复成默认值，并清除所有表单控件的 touched 状态
+   */
+  reset: () => void;
+
+  /**
+   * 取消监听
+   */
+  unobserve: () => void;
+}
+
+type Callback = (this: ObserveForm, values: FormValues) => void;
+
+/**
+ * 包含值的 mdui 表单控件
+ */
+const valueControlNames = [
+  'mdui-autocomplete',
+  'mdui-checkbox',
+  'mdui-chip-input',
+  'mdui-date-picker',
+  'mdui-file-upload',
+  'mdui-radio-group',
+  'mdui-range-slider',
+  'mdui-segmented-button-group',
+  'mdui-select',
+  'mdui-slider',
+  'mdui-switch',
+  'mdui-text-field',
+  'mdui-time-picker',
+];
+
+/**
+ * 是否为通过 checked 属性表示选中状态的表单控件
+ * @param control
+ */
+const isCheckable = (control: FormControl): boolean =>
+  ['mdui-checkbox', 'mdui-switch'].includes(control.nodeName.toLowerCase());
+
+/**
+ * 是否为文件上传控件。其 `value` 属性为文件名组成的数组，需要通过 `files` 属性读取和设置已选择的文件
+ * @param control
+ */
+const isFileControl = (
+  control: FormControl,
+): control is FormControl & { files: File[] } =>
+  control.nodeName.toLowerCase() === 'mdui-file-upload';
+
+/**
+ * 两个表单控件的值是否相同
+ * @param a
+ * @param b
+ */
+const isValueEqual = (
+  a: FormControlValue | undefined,
+  b: FormControlValue | undefined,
+): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return arraysEqualIgnoreOrder(a, b);
+  }
+
+  return a === b;
+};
+
+/**
+ * 两次获取的表单控件的值组成的对象是否相同。`File` 对象无法通过 JSON 序列化进行比较，因此逐项比较
+ * @param a
+ * @param b
+ */
+const isValuesEqual = (a: FormValues, b: FormValues): boolean => {
+  const keys = Object.keys(a);
+
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keys.every((key) => {
+    const valueA = a[key];
+    const valueB = b[key];
+
+    if (Array.isArray(valueA) && Array.isArray(valueB)) {
+      return (
+        valueA.length === valueB.length &&
+        valueA.every((item, index) => item === valueB[index])
+      );
+    }
+
+    return b.hasOwnProperty(key) && valueA === valueB;
+  });
+};
+
+/**
+ * 监听 `<form>` 中 mdui 表单控件的值变更，并提供读取、设置值，及获取修改状态的方法
+ * @param target 需要监听的 `<form>` 元素
+ * @param callback 表单控件的值变更时执行的回调函数，参数为表单控件的值组成的对象，`this` 指向函数的返回值
+ */
+export const observeForm = (
+  target: string | HTMLFormElement | JQ<HTMLFormElement>,
+  callback?: Callback,
+): ObserveForm => {
+  const form = $(target)[0] as HTMLFormElement;
+  const touchedControls: WeakSet<FormControl> = new WeakSet();
+  let lastValues: FormValues;
+
+  /**
+   * 按 DOM 顺序获取表单中包含值的 mdui 表单控件
+   * @param name 仅获取该名称的表单控件
+   */
+  const getControls = (name?: string): FormControl[] => {
+    const controls = formCollections.get(form);
+
+    if (!controls) {
+      return [];
+    }
+
+    return (getFormControls(form) as FormControl[]).filter(
+      (control) =>
+        controls.has(control) &&
+        valueControlNames.includes(control.nodeName.toLowerCase()) &&
+        (name === undefined || control.name === name),
+    );
+  };
+
+  const getValues = (): FormValues => {
+    const result: FormValues = {};
+
+    getControls().forEach((control) => {
+      const { name } = control;
+
+      if (!name || control.disabled) {
+        return;
+      }
+
+      if (isCheckable(control) && !control.checked) {
+        return;
+      }
+
+      const value: FormControlValue | File[] = isFileControl(control)
+        ? control.files
+        : control.value;
+
+      // 复制数组，避免表单控件修改原数组后，无法判断值是否变更
+      if (!result.hasOwnProperty(name)) {
+        result[name] = Array.isArray(value) ? value.slice() : value;
+        return;
+      }
+
+      // 存在相同的键名时，值转为数组
+      const originalValue = result[name];
+      result[name] = [
+        ...(Array.isArray(originalValue) ? originalValue : [originalValue]),
+        ...(Array.isArray(value) ? value : [value]),
+      ] as FormControlValue | File[];
+    });
+
+    return result;
+  };
+
+  // 值变更时执行回调。值没有变化时不执行
+  const notify = () => {
+    if (!callback) {
+      return;
+    }
+
+    const values = getValues();
+
+    if (!isValuesEqual(values, lastValues)) {
+      lastValues = values;
+      callback.call(result, values);
+    }
+  };
+
+  const onFocusOut = (event: Event) => {
+    const path = event.composedPath();
+    const control = getControls().find((control) => path.includes(control));
+
+    if (control) {
+      touchedControls.add(control);
+    }
+  };
+
+  // 表单的 reset 事件在重置值之前触发，因此需要延迟执行回调
+  const onReset = () => {
+    setTimeout(notify);
+  };
+
+  const result: ObserveForm = {
+    getValues,
+    setValues: (values, updateDefault = false) => {
+      getControls().forEach((control) => {
+        if (!control.name || !values.hasOwnProperty(control.name)) {
+          return;
+        }
+
+        const value = values[control.name];
+
+        // 已选择的文件只能设置为 File 对象，且文件上传控件的默认值始终为空
+        if (isFileControl(control)) {
+          if (
+            Array.isArray(value) &&
+            value.every((file) => file instanceof File)
+          ) {
+            control.files = [...(value as File[])];
+          }
+          return;
+        }
+
+        if (isCheckable(control)) {
+          const checked =
+            value === true ||
+            value === control.value ||
+            (Array.isArray(value) &&
+              (value as FormControlValue[]).includes(control.value as string));
+
+          control.checked = checked;
+          if (updateDefault) {
+            control.defaultChecked = checked;
+          }
+        } else {
+          control.value = value as FormControlValue;
+          if (updateDefault) {
+            control.defaultValue = value as FormControlValue;
+          }
+        }
+      });
+
+      notify();
+    },
+    isDirty: (name) => {
+      return getControls(name).some((control) => {
+        if (isFileControl(control)) {
+          return !!control.files.length;
+        }
+
+        return isCheckable(control)
+          ? control.checked !== control.defaultChecked
+          : !isValueEqual(control.value, control.defaultValue);
+      });
+    },
+    isTouched: (name) => {
+      return getControls(name).some((control) => touchedControls.has(control));
+    },
+    reset: () => {
+      getControls().forEach((control) => touchedControls.delete(control));
+      form.reset();
+    },
+    unobserve: () => {
+      form.removeEventListener('input', notify);
+      form.removeEventListener('change', notify);
+      form.removeEventListener('focusout', onFocusOut);
+      form.removeEventListener('reset', onReset);
+    },
+  };
+
+  lastValues = getValues();
+
+  form.addEventListener('input', notify);
+  form.addEventListener('change', notify);
+  form.addEventListener('focusout', onFocusOut);
+  form.addEventListener('reset', onReset);
+
+  return result;
+};
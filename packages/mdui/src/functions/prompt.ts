@@ -7,6 +7,7 @@ import {
   isUndefined,
   returnTrue,
 } from '@mdui/jq/shared/helper.js';
+import { translate } from '@mdui/shared/helpers/locale.js';
 import { TextField } from '../components/text-field.js';
 import { dialog as openDialog } from './dialog.js';
 import type { Dialog } from '../components/dialog.js';
@@ -38,12 +39,12 @@ interface Options {
   closeOnOverlayClick?: boolean;
 
   /**
-   * 确认按钮的文本
+   * 确认按钮的文本。默认为“确定”，并使用当前语言的翻译
    */
   confirmText?: string;
 
   /**
-   * 取消按钮的文本
+   * 取消按钮的文本。默认为“取消”，并使用当前语言的翻译
    */
   cancelText?: string;
 
@@ -129,18 +130,8 @@ interface Options {
 }
 
 const defaultOptions: Required<
-  Pick<
-    Options,
-    | 'confirmText'
-    | 'cancelText'
-    | 'onConfirm'
-    | 'onCancel'
-    | 'validator'
-    | 'textFieldOptions'
-  >
+  Pick<Options, 'onConfirm' | 'onCancel' | 'validator' | 'textFieldOptions'>
 > = {
-  confirmText: '确定',
-  cancelText: '取消',
   onConfirm: returnTrue,
   onCancel: returnTrue,
   validator: returnTrue,
@@ -154,7 +145,11 @@ const defaultOptions: Required<
  * @param options
  */
 export const prompt = (options: Options): Promise<string> => {
-  const mergedOptions = Object.assign({}, defaultOptions, options);
+  const mergedOptions = Object.assign(
+    { confirmText: translate('confirm'), cancelText: translate('cancel') },
+    defaultOptions,
+    options,
+  );
   const properties: (keyof Pick<
     Options,
     | 'headline'
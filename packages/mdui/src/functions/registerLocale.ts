@@ -0,0 +1,2 @@
+export { registerLocale } from '@mdui/shared/helpers/locale.js';
+export type { LocaleMessages } from '@mdui/shared/helpers/locale.js';
@@ -1,8 +1,14 @@
 import { argbFromHex } from '@material/material-color-utilities';
 import { setFromSource } from './utils/colorScheme.js';
-import type { CustomColor } from './utils/colorScheme.js';
+import type {
+  ContrastLevel,
+  CustomColor,
+  SchemeVariant,
+} from './utils/colorScheme.js';
 import type { JQ } from '@mdui/jq/shared/core.js';
 
+export type { ContrastLevel, SchemeVariant } from './utils/colorScheme.js';
+
 /**
  * 在指定元素上设置配色方案
  * @param hex 十六进制颜色值，如 #f82506
@@ -11,12 +17,20 @@ import type { JQ } from '@mdui/jq/shared/core.js';
  * @param options.customColors 自定义颜色数组
  * @param options.customColors[].name 自定义颜色名
  * @param options.customColors[].value 自定义十六进制颜色值，如 #f82506
+ * @param options.variant 配色方案的变体。未指定 `variant` 和 `contrast` 时，生成与之前版本相同的配色方案；仅指定了 `contrast` 时，默认为 `tonal-spot`
+ * @param options.contrast 配色方案的对比度，可选值为 `standard`、`medium`、`high`。默认为 `standard`
+ * @param options.adoptedStyleSheets 是否通过 `document.adoptedStyleSheets` 添加样式，而不是插入 `<style>` 元素。浏览器不支持时仍会插入 `<style>` 元素。默认为 `false`
+ * @param options.nonce 插入的 `<style>` 元素的 `nonce` 属性值，用于满足内容安全策略（CSP）的要求
  */
 export const setColorScheme = (
   hex: string,
   options?: {
     target?: string | HTMLElement | JQ<HTMLElement>;
     customColors?: CustomColor[];
+    variant?: SchemeVariant;
+    contrast?: ContrastLevel;
+    adoptedStyleSheets?: boolean;
+    nonce?: string;
   },
 ): void => {
   const source = argbFromHex(hex);
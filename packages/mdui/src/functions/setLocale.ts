@@ -0,0 +1 @@
+export { setLocale } from '@mdui/shared/helpers/locale.js';
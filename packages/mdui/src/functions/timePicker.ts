@@ -0,0 +1,241 @@
+import isPromise from 'is-promise';
+import { $ } from '@mdui/jq/$.js';
+import '@mdui/jq/methods/on.js';
+import { isUndefined, returnTrue } from '@mdui/jq/shared/helper.js';
+import { translate } from '@mdui/shared/helpers/locale.js';
+import { TimePicker } from '../components/time-picker.js';
+import { dialog as openDialog } from './dialog.js';
+import type { Dialog } from '../components/dialog.js';
+
+interface Options {
+  /**
+   * 时间选择器的初始值，格式为 24 小时制的 `HH:mm`
+   */
+  value?: string;
+
+  /**
+   * 时间选择器的输入模式。可选值为 `dial`、`input`
+   */
+  mode?: 'dial' | 'input';
+
+  /**
+   * 时间格式。可选值为 `12h`、`24h`
+   */
+  format?: '12h' | '24h';
+
+  /**
+   * 分钟的步长
+   */
+  step?: number;
+
+  /**
+   * 允许选择的最小时间，格式为 `HH:mm`
+   */
+  min?: string;
+
+  /**
+   * 允许选择的最大时间，格式为 `HH:mm`
+   */
+  max?: string;
+
+  /**
+   * 时间选择器顶部的标题文本
+   */
+  headline?: string;
+
+  /**
+   * 是否在按下 ESC 键时，关闭时间选择器
+   */
+  closeOnEsc?: boolean;
+
+  /**
+   * 是否在点击遮罩层时，关闭时间选择器
+   */
+  closeOnOverlayClick?: boolean;
+
+  /**
+   * 确认按钮的文本。默认为“确定”，并使用当前语言的翻译
+   */
+  confirmText?: string;
+
+  /**
+   * 取消按钮的文本。默认为“取消”，并使用当前语言的翻译
+   */
+  cancelText?: string;
+
+  /**
+   * 队列名称。
+   * 默认不启用队列，在多次调用该函数时，将同时显示多个时间选择器。
+   * 可在该参数中传入一个队列名称，具有相同队列名称的 timePicker 函数，将在上一个时间选择器关闭后才打开下一个时间选择器。
+   * `dialog()`、`alert()`、`confirm()`、`prompt()`、`timePicker()` 这些函数的队列名称若相同，则也将互相共用同一个队列。
+   */
+  queue?: string;
+
+  /**
+   * 点击确认按钮时的回调函数。
+   * 函数参数为选中的时间和 dialog 实例，`this` 指向 dialog 实例。
+   * 默认点击确认按钮后会关闭时间选择器；若返回值为 `false`，则不关闭时间选择器；若返回值为 promise，则将在 promise 被 resolve 后，关闭时间选择器。
+   * @param value
+   * @param dialog
+   */
+  onConfirm?: (value: string, dialog: Dialog) => void | boolean | Promise<void>;
+
+  /**
+   * 点击取消按钮时的回调函数。
+   * 函数参数为选中的时间和 dialog 实例，`this` 指向 dialog 实例。
+   * 默认点击取消按钮后会关闭时间选择器；若返回值为 `false`，则不关闭时间选择器；若返回值为 promise，则将在 promise 被 resolve 后，关闭时间选择器。
+   * @param value
+   * @param dialog
+   */
+  onCancel?: (value: string, dialog: Dialog) => void | boolean | Promise<void>;
+
+  /**
+   * 时间选择器开始打开时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onOpen?: (dialog: Dialog) => void;
+
+  /**
+   * 时间选择器打开动画完成时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onOpened?: (dialog: Dialog) => void;
+
+  /**
+   * 时间选择器开始关闭时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onClose?: (dialog: Dialog) => void;
+
+  /**
+   * 时间选择器关闭动画完成时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onClosed?: (dialog: Dialog) => void;
+
+  /**
+   * 点击遮罩层时的回调函数。
+   * 函数参数为 dialog 实例，`this` 也指向 dialog 实例。
+   * @param dialog
+   */
+  onOverlayClick?: (dialog: Dialog) => void;
+
+  /**
+   * 对话框内部的时间选择器为 `<mdui-time-picker>` 组件。可在该参数中设置 `<mdui-time-picker>` 组件的其他参数。
+   */
+  timePickerOptions?: Partial<TimePicker>;
+}
+
+const defaultOptions: Required<
+  Pick<Options, 'onConfirm' | 'onCancel' | 'timePickerOptions'>
+> = {
+  onConfirm: returnTrue,
+  onCancel: returnTrue,
+  timePickerOptions: {},
+};
+
+/**
+ * 在对话框中打开一个时间选择器，返回 Promise。
+ * 如果是通过点击确定按钮关闭，则返回的 promise 会被 resolve，resolve 的参数为选中的时间；
+ * 如果是通过其他方式关闭，则返回的 promise 会被 reject。
+ * @param options
+ */
+export const timePicker = (options: Options = {}): Promise<string> => {
+  const mergedOptions = Object.assign(
+    { confirmText: translate('confirm'), cancelText: translate('cancel') },
+    defaultOptions,
+    options,
+  );
+  const properties: (keyof Pick<
+    Options,
+    | 'closeOnEsc'
+    | 'closeOnOverlayClick'
+    | 'queue'
+    | 'onOpen'
+    | 'onOpened'
+    | 'onClose'
+    | 'onClosed'
+    | 'onOverlayClick'
+  >)[] = [
+    'closeOnEsc',
+    'closeOnOverlayClick',
+    'queue',
+    'onOpen',
+    'onOpened',
+    'onClose',
+    'onClosed',
+    'onOverlayClick',
+  ];
+  const pickerProperties: (keyof Pick<
+    Options,
+    'value' | 'mode' | 'format' | 'step' | 'min' | 'max' | 'headline'
+  >)[] = ['value', 'mode', 'format', 'step', 'min', 'max', 'headline'];
+
+  const picker = new TimePicker();
+  Object.entries({
+    ...mergedOptions.timePickerOptions,
+    ...Object.fromEntries(
+      pickerProperties
+        .filter((key) => !isUndefined(mergedOptions[key]))
+        .map((key) => [key, mergedOptions[key]]),
+    ),
+  }).forEach(([key, value]) => {
+    // @ts-ignore
+    picker[key] = value;
+  });
+
+  // 在对话框中必须选择一个时间
+  picker.required = true;
+
+  return new Promise((resolve, reject) => {
+    let isResolve = false;
+    const dialog = openDialog({
+      ...Object.fromEntries(
+        properties
+          .filter((key) => !isUndefined(mergedOptions[key]))
+          .map((key) => [key, mergedOptions[key]]),
+      ),
+      body: picker,
+      actions: [
+        {
+          text: mergedOptions.cancelText,
+          onClick: (dialog) => {
+            return mergedOptions.onCancel.call(dialog, picker.value, dialog);
+          },
+        },
+        {
+          text: mergedOptions.confirmText,
+          onClick: (dialog) => {
+            if (!picker.reportValidity()) {
+              return false;
+            }
+
+            const clickResult = mergedOptions.onConfirm.call(
+              dialog,
+              picker.value,
+              dialog,
+            );
+
+            if (isPromise(clickResult)) {
+              clickResult.then(() => {
+                isResolve = true;
+              });
+            } else if (clickResult !== false) {
+              isResolve = true;
+            }
+
+            return clickResult;
+          },
+        },
+      ],
+    });
+
+    $(dialog).on('close', () => {
+      isResolve ? resolve(picker.value) : reject();
+    });
+  });
+};
@@ -4,8 +4,19 @@ import {
   redFromArgb,
   customColor,
   argbFromHex,
-  Scheme,
   CorePalette,
+  Hct,
+  MaterialDynamicColors,
+  Scheme,
+  SchemeContent,
+  SchemeExpressive,
+  SchemeFidelity,
+  SchemeFruitSalad,
+  SchemeMonochrome,
+  SchemeNeutral,
+  SchemeRainbow,
+  SchemeTonalSpot,
+  SchemeVibrant,
 } from '@material/material-color-utilities';
 import { getDocument } from 'ssr-window';
 import { $ } from '@mdui/jq/$.js';
@@ -17,6 +28,10 @@ import '@mdui/jq/methods/remove.js';
 import '@mdui/jq/methods/removeClass.js';
 import { toKebabCase } from '@mdui/jq/shared/helper.js';
 import type { Theme } from './theme.js';
+import type {
+  DynamicColor,
+  DynamicScheme,
+} from '@material/material-color-utilities';
 import type { JQ } from '@mdui/jq/shared/core.js';
 
 type TheTheme = Exclude<Theme, 'auto'>;
@@ -33,9 +48,229 @@ export interface CustomColor {
   value: string;
 }
 
+/**
+ * 配色方案的变体。可选值为：
+ *
+ * * `tonal-spot`：柔和的配色，主色调的色度较低
+ * * `vibrant`：鲜艳的配色，主色调的色度最高
+ * * `expressive`：富有表现力的配色，主色调的色相会偏离原色
+ * * `fidelity`：主色调与原色保持一致
+ * * `content`：与 `fidelity` 类似，适用于从图片中提取的颜色
+ * * `monochrome`：单色配色，所有颜色均为灰色
+ * * `neutral`：接近灰色的配色
+ * * `rainbow`：多彩的配色，主色调的色相会出现在强调色中
+ * * `fruit-salad`：多彩的配色，主色调的色相不会出现在配色中
+ */
+export type SchemeVariant =
+  | 'tonal-spot'
+  | 'vibrant'
+  | 'expressive'
+  | 'fidelity'
+  | 'content'
+  | 'monochrome'
+  | 'neutral'
+  | 'rainbow'
+  | 'fruit-salad';
+
+/**
+ * 配色方案的对比度。可选值为：
+ *
+ * * `standard`：标准对比度
+ * * `medium`：中等对比度
+ * * `high`：高对比度
+ */
+export type ContrastLevel = 'standard' | 'medium' | 'high';
+
+/**
+ * 亮色模式和暗色模式的配色方案。键名为颜色名，如 `primary`、`on-primary`，值为十六进制颜色值，如 `#0061a4`
+ */
+export interface ColorScheme {
+  light: Record<string, string>;
+  dark: Record<string, string>;
+}
+
 const themeArr: TheTheme[] = ['light', 'dark'];
 const prefix = 'mdui-custom-color-scheme-'; // 类名前缀
-let themeIndex = 0;
+
+// 通过 adoptedStyleSheets 添加的样式表，键名为对应的 CSS 类名
+const adoptedSheets: Map<string, CSSStyleSheet> = new Map();
+
+const contrastLevels: Record<ContrastLevel, number> = {
+  standard: 0,
+  medium: 0.5,
+  high: 1,
+};
+
+// 配色方案中的颜色名，及其对应的动态颜色
+const dynamicColors: Record<string, DynamicColor> = {
+  primary: MaterialDynamicColors.primary,
+  onPrimary: MaterialDynamicColors.onPrimary,
+  primaryContainer: MaterialDynamicColors.primaryContainer,
+  onPrimaryContainer: MaterialDynamicColors.onPrimaryContainer,
+  secondary: MaterialDynamicColors.secondary,
+  onSecondary: MaterialDynamicColors.onSecondary,
+  secondaryContainer: MaterialDynamicColors.secondaryContainer,
+  onSecondaryContainer: MaterialDynamicColors.onSecondaryContainer,
+  tertiary: MaterialDynamicColors.tertiary,
+  onTertiary: MaterialDynamicColors.onTertiary,
+  tertiaryContainer: MaterialDynamicColors.tertiaryContainer,
+  onTertiaryContainer: MaterialDynamicColors.onTertiaryContainer,
+  error: MaterialDynamicColors.error,
+  onError: MaterialDynamicColors.onError,
+  errorContainer: MaterialDynamicColors.errorContainer,
+  onErrorContainer: MaterialDynamicColors.onErrorContainer,
+  background: MaterialDynamicColors.background,
+  onBackground: MaterialDynamicColors.onBackground,
+  surface: MaterialDynamicColors.surface,
+  onSurface: MaterialDynamicColors.onSurface,
+  surfaceVariant: MaterialDynamicColors.surfaceVariant,
+  onSurfaceVariant: MaterialDynamicColors.onSurfaceVariant,
+  outline: MaterialDynamicColors.outline,
+  outlineVariant: MaterialDynamicColors.outlineVariant,
+  shadow: MaterialDynamicColors.shadow,
+  scrim: MaterialDynamicColors.scrim,
+  inverseSurface: MaterialDynamicColors.inverseSurface,
+  inverseOnSurface: MaterialDynamicColors.inverseOnSurface,
+  inversePrimary: MaterialDynamicColors.inversePrimary,
+  surfaceDim: MaterialDynamicColors.surfaceDim,
+  surfaceBright: MaterialDynamicColors.surfaceBright,
+  surfaceContainerLowest: MaterialDynamicColors.surfaceContainerLowest,
+  surfaceContainerLow: MaterialDynamicColors.surfaceContainerLow,
+  surfaceContainer: MaterialDynamicColors.surfaceContainer,
+  surfaceContainerHigh: MaterialDynamicColors.surfaceContainerHigh,
+  surfaceContainerHighest: MaterialDynamicColors.surfaceContainerHighest,
+  surfaceTintColor: MaterialDynamicColors.surfaceTint,
+};
+
+/**
+ * 根据变体创建动态配色方案
+ * @param source 原色
+ * @param variant 变体
+ * @param isDark 是否为暗色模式
+ * @param contrastLevel 对比度，取值范围为 -1 到 1，0 为标准对比度
+ */
+const createScheme = (
+  source: number,
+  variant: SchemeVariant,
+  isDark: boolean,
+  contrastLevel: number,
+): DynamicScheme => {
+  const hct = Hct.fromInt(source);
+
+  switch (variant) {
+    case 'vibrant':
+      return new SchemeVibrant(hct, isDark, contrastLevel);
+    case 'expressive':
+      return new SchemeExpressive(hct, isDark, contrastLevel);
+    case 'fidelity':
+      return new SchemeFidelity(hct, isDark, contrastLevel);
+    case 'content':
+      return new SchemeContent(hct, isDark, contrastLevel);
+    case 'monochrome':
+      return new SchemeMonochrome(hct, isDark, contrastLevel);
+    case 'neutral':
+      return new SchemeNeutral(hct, isDark, contrastLevel);
+    case 'rainbow':
+      return new SchemeRainbow(hct, isDark, contrastLevel);
+    case 'fruit-salad':
+      return new SchemeFruitSalad(hct, isDark, contrastLevel);
+    default:
+      return new SchemeTonalSpot(hct, isDark, contrastLevel);
+  }
+};
+
+/**
+ * 根据变体和对比度生成亮色和暗色模式的配色方案
+ * @param source 原色
+ * @param variant 变体
+ * @param contrastLevel 对比度，取值范围为 -1 到 1，0 为标准对比度
+ */
+const getDynamicSchemes = (
+  source: number,
+  variant: SchemeVariant,
+  contrastLevel: number,
+): Record<TheTheme, Record<string, number>> => {
+  const schemes = {} as Record<TheTheme, Record<string, number>>;
+
+  themeArr.forEach((theme) => {
+    const scheme = createScheme(
+      source,
+      variant,
+      theme === 'dark',
+      contrastLevel,
+    );
+
+    schemes[theme] = Object.fromEntries(
+      Object.entries(dynamicColors).map(([name, color]) => [
+        toKebabCase(name),
+        color.getArgb(scheme),
+      ]),
+    );
+  });
+
+  return schemes;
+};
+
+/**
+ * 生成亮色和暗色模式的配色方案。未指定变体和对比度时使用，与之前版本生成的颜色保持一致
+ * @param source 原色
+ */
+const getLegacySchemes = (
+  source: number,
+): Record<TheTheme, Record<string, number>> => {
+  const toKebabCaseKeys = (scheme: Scheme) =>
+    Object.fromEntries(
+      Object.entries(scheme.toJSON()).map(([name, value]) => [
+        toKebabCase(name),
+        value,
+      ]),
+    );
+
+  const schemes: Record<TheTheme, Record<string, number>> = {
+    light: toKebabCaseKeys(Scheme.light(source)),
+    dark: toKebabCaseKeys(Scheme.dark(source)),
+  };
+
+  // todo 目前 Scheme 缺失了 8 种颜色，这里从核心调色板中获取
+  // https://github.com/material-foundation/material-color-utilities/issues/98
+  const palette = CorePalette.of(source);
+  Object.assign(schemes.light, {
+    'surface-dim': palette.n1.tone(87),
+    'surface-bright': palette.n1.tone(98),
+    'surface-container-lowest': palette.n1.tone(100),
+    'surface-container-low': palette.n1.tone(96),
+    'surface-container': palette.n1.tone(94),
+    'surface-container-high': palette.n1.tone(92),
+    'surface-container-highest': palette.n1.tone(90),
+    'surface-tint-color': schemes.light.primary,
+  });
+  Object.assign(schemes.dark, {
+    'surface-dim': palette.n1.tone(6),
+    'surface-bright': palette.n1.tone(24),
+    'surface-container-lowest': palette.n1.tone(4),
+    'surface-container-low': palette.n1.tone(10),
+    'surface-container': palette.n1.tone(12),
+    'surface-container-high': palette.n1.tone(17),
+    'surface-container-highest': palette.n1.tone(22),
+    'surface-tint-color': schemes.dark.primary,
+  });
+
+  return schemes;
+};
+
+/**
+ * 计算字符串的哈希值，用于生成 CSS 类名
+ * @param str
+ */
+const hashString = (str: string): string => {
+  let hash = 5381;
+
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash * 33) ^ str.charCodeAt(i);
+  }
+
+  return (hash >>> 0).toString(36);
+};
 
 const rgbFromArgb = (source: number): string => {
   const red = redFromArgb(source);
@@ -73,61 +308,44 @@ export const remove = (
 
   // 移除对应的 <style> 元素
   $(unusedClassNames.map((i) => `#${i}`).join(',')).remove();
+
+  // 移除对应的 adoptedStyleSheets 样式表
+  const document = getDocument();
+  unusedClassNames
+    .filter((className) => adoptedSheets.has(className))
+    .forEach((className) => {
+      const sheet = adoptedSheets.get(className);
+      document.adoptedStyleSheets = document.adoptedStyleSheets.filter(
+        (adoptedSheet) => adoptedSheet !== sheet,
+      );
+      adoptedSheets.delete(className);
+    });
 };
 
 /**
- * 设置配色方案
- * 在 head 中插入一个 <style id="mdui-custom-color-scheme-${source}"> 元素，
- * 并在 target 元素上添加 class="mdui-custom-color-scheme-${source}"
- *
- * 自定义颜色的 css 变量
- * --mdui-color-red
- * --mdui-color-on-red
- * --mdui-color-red-container
- * --mdui-color-on-red-container
+ * 生成亮色和暗色模式的配色方案，键名为颜色名（如 `on-primary`），值为颜色的 ARGB 整数值。不依赖 DOM
  *
+ * 未指定 `variant` 和 `contrast` 时，生成与之前版本相同的配色方案；指定了任意一个时，使用动态配色方案生成
  * @param source
  * @param options
  */
-export const setFromSource = (
+export const getSchemes = (
   source: number,
   options?: {
-    target?: string | HTMLElement | JQ<HTMLElement>;
     customColors?: CustomColor[];
+    variant?: SchemeVariant;
+    contrast?: ContrastLevel;
   },
-): void => {
-  const document = getDocument();
-  const $target = $(options?.target || document.documentElement);
-
+): Record<TheTheme, Record<string, number>> => {
   // 生成配色方案
-  const schemes: Record<TheTheme, Record<string, number>> = {
-    light: Scheme.light(source).toJSON(),
-    dark: Scheme.dark(source).toJSON(),
-  };
-
-  // todo 目前 @material/material-color-utilities 库缺失了 8 种颜色，等官方库加上后，可以删除这段代码
-  // https://github.com/material-foundation/material-color-utilities/issues/98
-  const palette = CorePalette.of(source);
-  Object.assign(schemes.light, {
-    'surface-dim': palette.n1.tone(87),
-    'surface-bright': palette.n1.tone(98),
-    'surface-container-lowest': palette.n1.tone(100),
-    'surface-container-low': palette.n1.tone(96),
-    'surface-container': palette.n1.tone(94),
-    'surface-container-high': palette.n1.tone(92),
-    'surface-container-highest': palette.n1.tone(90),
-    'surface-tint-color': schemes.light.primary,
-  });
-  Object.assign(schemes.dark, {
-    'surface-dim': palette.n1.tone(6),
-    'surface-bright': palette.n1.tone(24),
-    'surface-container-lowest': palette.n1.tone(4),
-    'surface-container-low': palette.n1.tone(10),
-    'surface-container': palette.n1.tone(12),
-    'surface-container-high': palette.n1.tone(17),
-    'surface-container-highest': palette.n1.tone(22),
-    'surface-tint-color': schemes.dark.primary,
-  });
+  const schemes =
+    options?.variant || options?.contrast
+      ? getDynamicSchemes(
+          source,
+          options.variant || 'tonal-spot',
+          contrastLevels[options.contrast || 'standard'],
+        )
+      : getLegacySchemes(source);
 
   // 扩充自定义颜色
   (options?.customColors || []).map((color) => {
@@ -146,6 +364,54 @@ export const setFromSource = (
     });
   });
 
+  return schemes;
+};
+
+/**
+ * 把 CSS 选择器列表按顶层的逗号拆分为多个选择器。`:is()`、`[attr="a,b"]` 等括号或引号中的逗号不会被拆分
+ * @param selector
+ */
+const splitSelectors = (selector: string): string[] => {
+  const selectors: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+
+  for (const char of selector) {
+    if (quote) {
+      if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === ',' && !depth) {
+      selectors.push(current.trim());
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  selectors.push(current.trim());
+
+  return selectors.filter((selector) => selector);
+};
+
+/**
+ * 根据配色方案生成 CSS 文本。配色方案应用于 selector 对应的元素，
+ * 在该元素或其祖先元素上添加 `mdui-theme-dark` 类时使用暗色模式
+ * @param selector CSS 选择器，可以是用逗号分隔的选择器列表
+ * @param schemes 配色方案
+ */
+export const getCssText = (
+  selector: string,
+  schemes: Record<TheTheme, Record<string, number>>,
+): string => {
   // 根据配色方案生成 css 变量
   const colorVar = (
     theme: TheTheme,
@@ -156,10 +422,18 @@ export const setFromSource = (
       .join('');
   };
 
-  const className = prefix + `${source}-${themeIndex++}`;
+  // 选择器列表中的每个选择器都需要单独添加 .mdui-theme-dark、.mdui-theme-auto 类名，
+  // 分别匹配祖先元素上添加了该类名、及元素自身添加了该类名的情况
+  const selectors = splitSelectors(selector);
+  const themeSelector = (theme: Theme, indent: string) =>
+    selectors
+      .map(
+        (selector) =>
+          `${indent}.mdui-theme-${theme} ${selector},\n${indent}${selector}.mdui-theme-${theme}`,
+      )
+      .join(',\n');
 
-  // CSS 文本
-  const cssText = `.${className} {
+  return `${selectors.join(',\n')} {
   ${colorVar('light', (token, rgb) => `--mdui-color-${token}-light: ${rgb};`)}
   ${colorVar('dark', (token, rgb) => `--mdui-color-${token}-dark: ${rgb};`)}
   ${colorVar(
@@ -171,8 +445,7 @@ export const setFromSource = (
   background-color: rgb(var(--mdui-color-background));
 }
 
-.mdui-theme-dark .${className},
-.mdui-theme-dark.${className} {
+${themeSelector('dark', '')} {
   ${colorVar(
     'dark',
     (token) => `--mdui-color-${token}: var(--mdui-color-${token}-dark);`,
@@ -180,20 +453,95 @@ export const setFromSource = (
 }
 
 @media (prefers-color-scheme: dark) {
-  .mdui-theme-auto .${className},
-  .mdui-theme-auto.${className} {
+${themeSelector('auto', '  ')} {
     ${colorVar(
       'dark',
       (token) => `--mdui-color-${token}: var(--mdui-color-${token}-dark);`,
     )}
   }
 }`;
+};
+
+/**
+ * 生成配色方案的 CSS 类名和 CSS 文本。不依赖 DOM
+ * 类名由原色和配色方案的内容计算得出，相同参数生成的类名始终相同，因此服务端和客户端生成的类名一致
+ * @param source
+ * @param options
+ */
+export const getStyle = (
+  source: number,
+  options?: {
+    customColors?: CustomColor[];
+    variant?: SchemeVariant;
+    contrast?: ContrastLevel;
+  },
+): { className: string; cssText: string } => {
+  const schemes = getSchemes(source, options);
+  const className = prefix + `${source}-${hashString(JSON.stringify(schemes))}`;
+
+  return {
+    className,
+    cssText: getCssText(`.${className}`, schemes),
+  };
+};
+
+/**
+ * 设置配色方案
+ * 在 head 中插入一个 <style id="mdui-custom-color-scheme-${source}-${hash}"> 元素，
+ * 并在 target 元素上添加 class="mdui-custom-color-scheme-${source}-${hash}"
+ *
+ * 若 adoptedStyleSheets 为 true，且浏览器支持可构造样式表，则通过 document.adoptedStyleSheets 添加样式，不插入 <style> 元素
+ *
+ * 自定义颜色的 css 变量
+ * --mdui-color-red
+ * --mdui-color-on-red
+ * --mdui-color-red-container
+ * --mdui-color-on-red-container
+ *
+ * @param source
+ * @param options
+ */
+export const setFromSource = (
+  source: number,
+  options?: {
+    target?: string | HTMLElement | JQ<HTMLElement>;
+    customColors?: CustomColor[];
+    variant?: SchemeVariant;
+    contrast?: ContrastLevel;
+    adoptedStyleSheets?: boolean;
+    nonce?: string;
+  },
+): void => {
+  const document = getDocument();
+  const $target = $(options?.target || document.documentElement);
+  const { className, cssText } = getStyle(source, options);
+  const supportsAdoptingStyleSheets =
+    'adoptedStyleSheets' in document &&
+    'replaceSync' in CSSStyleSheet.prototype;
 
   // 移除旧的配色方案
   remove($target);
 
-  // 创建 <style> 元素，添加到 head 中
-  $(document.head).append(`<style id="${className}">${cssText}</style>`);
+  if (options?.adoptedStyleSheets && supportsAdoptingStyleSheets) {
+    // 创建可构造样式表，添加到 document.adoptedStyleSheets 中
+    if (!adoptedSheets.has(className)) {
+      const sheet = new CSSStyleSheet();
+      sheet.replaceSync(cssText);
+      adoptedSheets.set(className, sheet);
+      document.adoptedStyleSheets = [...document.adoptedStyleSheets, sheet];
+    }
+  } else if (!document.getElementById(className)) {
+    // 创建 <style> 元素，添加到 head 中。相同的配色方案可能已由其他元素、或服务端渲染添加
+    const style = document.createElement('style');
+    style.id = className;
+    style.textContent = cssText;
+
+    if (options?.nonce) {
+      style.setAttribute('nonce', options.nonce);
+    }
+
+    $(document.head).append(style);
+  }
 
   // 添加新配色方案
   $target.addClass(className);
@@ -1,20 +1,28 @@
 export * from './jq.js';
 
+export * from './components/autocomplete.js';
 export * from './components/avatar.js';
 export * from './components/badge.js';
 export * from './components/bottom-app-bar.js';
+export * from './components/bottom-sheet.js';
 export * from './components/button.js';
 export * from './components/button-icon.js';
 export * from './components/card.js';
+export * from './components/carousel.js';
+export * from './components/carousel-item.js';
 export * from './components/checkbox.js';
 export * from './components/chip.js';
+export * from './components/chip-input.js';
 export * from './components/circular-progress.js';
 export * from './components/collapse/collapse.js';
 export * from './components/collapse/collapse-item.js';
+export * from './components/data-table.js';
+export * from './components/date-picker.js';
 export * from './components/dialog.js';
 export * from './components/divider.js';
 export * from './components/dropdown.js';
 export * from './components/fab.js';
+export * from './components/file-upload.js';
 export * from './components/icon.js';
 export * from './components/layout.js';
 export * from './components/layout-item.js';
@@ -30,13 +38,17 @@ export * from './components/navigation-bar.js';
 export * from './components/navigation-drawer.js';
 export * from './components/navigation-rail.js';
 export * from './components/navigation-rail-item.js';
+export * from './components/pagination.js';
 export * from './components/radio.js';
 export * from './components/radio-group.js';
 export * from './components/range-slider.js';
 export * from './components/ripple.js';
+export * from './components/search-bar.js';
+export * from './components/search-view.js';
 export * from './components/segmented-button.js';
 export * from './components/segmented-button-group.js';
 export * from './components/select.js';
+export * from './components/side-sheet.js';
 export * from './components/slider.js';
 export * from './components/snackbar.js';
 export * from './components/switch.js';
@@ -44,6 +56,7 @@ export * from './components/tab.js';
 export * from './components/tab-panel.js';
 export * from './components/tabs.js';
 export * from './components/text-field.js';
+export * from './components/time-picker.js';
 export * from './components/tooltip.js';
 export * from './components/top-app-bar-title.js';
 export * from './components/top-app-bar.js';
@@ -52,12 +65,21 @@ export * from './functions/alert.js';
 export * from './functions/breakpoint.js';
 export * from './functions/confirm.js';
 export * from './functions/dialog.js';
+export * from './functions/exportColorScheme.js';
 export * from './functions/getColorFromImage.js';
+export * from './functions/getColorScheme.js';
+export * from './functions/getColorSchemeStyle.js';
+export * from './functions/getFormErrors.js';
+export * from './functions/getLocale.js';
 export * from './functions/getTheme.js';
+export * from './functions/observeForm.js';
 export * from './functions/observeResize.js';
 export * from './functions/prompt.js';
+export * from './functions/registerLocale.js';
 export * from './functions/removeColorScheme.js';
 export * from './functions/setColorScheme.js';
+export * from './functions/setLocale.js';
 export * from './functions/setTheme.js';
 export * from './functions/snackbar.js';
 export * from './functions/throttle.js';
+export * from './functions/timePicker.js';
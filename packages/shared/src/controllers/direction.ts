@@ -0,0 +1,66 @@
+import { isUndefined } from '@mdui/jq/shared/helper.js';
+import { isRtl, onDirectionChange } from '../helpers/direction.js';
+import type { ReactiveController, ReactiveControllerHost } from 'lit';
+
+/**
+ * 获取组件的文本方向，并在文本方向变更时重新渲染组件
+ *
+ * 获取文本方向需要调用 getComputedStyle()，因此仅在首次读取 `rtl` 时才获取，未读取过 `rtl` 的组件在文本方向变更时也不会重新渲染
+ */
+export class DirectionController implements ReactiveController {
+  private readonly host: ReactiveControllerHost & Element;
+  private readonly callback?: () => void;
+  private removeListener?: () => void;
+
+  /**
+   * 缓存的文本方向。为 `undefined` 时表示还未获取
+   */
+  private cachedRtl?: boolean;
+
+  /**
+   * @param host
+   * @param callback 文本方向变更时执行的回调函数
+   */
+  public constructor(
+    host: ReactiveControllerHost & Element,
+    callback?: () => void,
+  ) {
+    (this.host = host).addController(this);
+    this.callback = callback;
+  }
+
+  /**
+   * 组件的文本方向是否为从右到左
+   */
+  public get rtl(): boolean {
+    if (isUndefined(this.cachedRtl)) {
+      this.cachedRtl = isRtl(this.host);
+    }
+
+    return this.cachedRtl;
+  }
+
+  public hostConnected(): void {
+    // 组件可能被移动到了文本方向不同的位置，需要重新获取
+    this.cachedRtl = undefined;
+    this.removeListener = onDirectionChange(() => this.onDirectionChange());
+  }
+
+  public hostDisconnected(): void {
+    this.removeListener?.();
+  }
+
+  private onDirectionChange(): void {
+    if (isUndefined(this.cachedRtl)) {
+      return;
+    }
+
+    const rtl = isRtl(this.host);
+
+    if (rtl !== this.cachedRtl) {
+      this.cachedRtl = rtl;
+      this.host.requestUpdate();
+      this.callback?.();
+    }
+  }
+}
@@ -6,6 +6,7 @@ import '@mdui/jq/methods/attr.js';
 import '@mdui/jq/methods/css.js';
 import { formCollections, getFormControls } from '@mdui/jq/shared/form.js';
 import { isFunction, isString, isUndefined } from '@mdui/jq/shared/helper.js';
+import { emit } from '../helpers/event.js';
 import { DefinedController } from './defined.js';
 import type { FormControl, FormControlValue } from '@mdui/jq/shared/form.js';
 import type { ReactiveController, ReactiveControllerHost } from 'lit';
@@ -22,6 +23,22 @@ import type { ReactiveController, ReactiveControllerHost } from 'lit';
 const reportValidityOverloads: WeakMap<HTMLFormElement, () => boolean> =
   new WeakMap();
 
+/**
+ * 表单控件对应的 FormController 实例
+ */
+const formControllers: WeakMap<FormControl, FormController> = new WeakMap();
+
+/**
+ * 正在执行 reportFormValidity() 的 `<form>` 元素。此期间原生表单控件上触发的 invalid 事件由 reportFormValidity() 自身引起，不需要处理
+ */
+const reportingForms: WeakSet<HTMLFormElement> = new WeakSet();
+
+/**
+ * 浏览器原生的提交前验证未通过时，已经执行过 reportFormValidity() 的 `<form>` 元素。
+ * 浏览器会在每个验证未通过的原生表单控件上依次触发 invalid 事件，仅在第一个 invalid 事件中执行一次验证
+ */
+const invalidHandledForms: WeakSet<HTMLFormElement> = new WeakSet();
+
 /**
  * 在执行表单的 reset() 方法后，使用该 WeakMap 存储指定表单中所有的表单控件
  * 在表单控件中监听值变更后，需要从该 WeakMap 中判断是否存在该表单控件，
@@ -32,14 +49,67 @@ export const formResets: WeakMap<
   Set<FormControl>
 > = new WeakMap();
 
+/**
+ * 自定义验证函数，参数为表单控件的值。返回错误提示文本表示验证未通过，返回空字符串表示验证通过；也可以返回 Promise 进行异步验证
+ */
+export type FormValidator<T = FormControlValue> = (
+  value: T,
+) => string | Promise<string>;
+
+/**
+ * 支持自定义验证的表单控件。`pending`、`validatorMessage`、`updateCustomValidity` 为 ValidatorMixin 中的非公开成员
+ */
+type ValidatableFormControl = FormControl & {
+  validator?: FormValidator<FormControlValue | File[]>;
+  validateDebounce?: number;
+  validity?: ValidityState;
+  validationMessage?: string;
+  pending?: boolean;
+  validatorMessage?: string;
+  updateCustomValidity?: () => void;
+};
+
+/**
+ * 表单中验证未通过的表单控件及其错误提示
+ */
+export interface FormError {
+  element: Element;
+  message: string;
+}
+
+/**
+ * 按 DOM 顺序获取表单中所有验证未通过的表单控件（包括原生和 mdui 表单控件）及其错误提示。不会触发 `invalid` 事件，也不会显示错误提示
+ * @param form
+ */
+export const getFormErrors = (form: HTMLFormElement): FormError[] => {
+  const elements = getFormControls(form) as (
+    | HTMLInputElement
+    | ValidatableFormControl
+  )[];
+
+  return elements
+    .filter((element) => {
+      // 原生表单控件在禁用、只读等状态下，willValidate 为 false，不参与验证
+      const disabled = formControllers.has(element as FormControl)
+        ? (element as FormControl).disabled
+        : (element as HTMLInputElement).willValidate === false;
+
+      return !disabled && element.validity?.valid === false;
+    })
+    .map((element) => ({
+      element,
+      message: element.validationMessage ?? '',
+    }));
+};
+
 export interface FormControllerOptions {
   form: (control: FormControl) => HTMLFormElement | null;
   name: (control: FormControl) => string;
-  value: (control: FormControl) => FormControlValue | undefined;
+  value: (control: FormControl) => FormControlValue | File[] | undefined;
+  validationValue: (control: FormControl) => FormControlValue | File[];
   defaultValue: (control: FormControl) => FormControlValue;
   setValue: (control: FormControl, value: FormControlValue) => void;
   disabled: (control: FormControl) => boolean;
-  reportValidity: (control: FormControl) => boolean;
 }
 
 export class FormController implements ReactiveController {
@@ -48,6 +118,26 @@ export class FormController implements ReactiveController {
   private options: FormControllerOptions;
   private definedController: DefinedController;
 
+  /**
+   * 自定义验证的防抖定时器
+   */
+  private validateTimer?: number;
+
+  /**
+   * 每次执行自定义验证时递增，用于丢弃已过期的验证结果
+   */
+  private validateId = 0;
+
+  /**
+   * 是否有正在执行的自定义验证
+   */
+  private isValidating = false;
+
+  /**
+   * 当前值是否还未执行过自定义验证
+   */
+  private validateStale = true;
+
   public constructor(
     host: ReactiveControllerHost & FormControl,
     options?: Partial<FormControllerOptions>,
@@ -69,17 +159,144 @@ export class FormController implements ReactiveController {
       },
       name: (control) => control.name,
       value: (control) => control.value,
+      validationValue: (control) => control.value,
       defaultValue: (control) => control.defaultValue!,
       setValue: (control, value) => (control.value = value),
       disabled: (control) => control.disabled,
-      reportValidity: (control) =>
-        isFunction(control.reportValidity) ? control.reportValidity() : true,
       ...options,
     };
     this.onFormData = this.onFormData.bind(this);
-    this.onFormSubmit = this.onFormSubmit.bind(this);
     this.onFormReset = this.onFormReset.bind(this);
-    this.reportFormValidity = this.reportFormValidity.bind(this);
+    formControllers.set(host, this);
+  }
+
+  /**
+   * 是否正在执行自定义验证，包括等待防抖的时间
+   */
+  public get validating(): boolean {
+    return this.isValidating || this.validateTimer !== undefined;
+  }
+
+  /**
+   * 是否需要在提交表单前等待自定义验证完成
+   */
+  private get needValidate(): boolean {
+    const { validator } = this.host as ValidatableFormControl;
+
+    return (
+      !!validator &&
+      !this.options.disabled(this.host) &&
+      (this.validating || this.validateStale)
+    );
+  }
+
+  /**
+   * 浏览器原生的提交前验证仅会验证原生表单控件，因此在捕获阶段监听 submit 事件，
+   * 在其他 submit 事件监听器执行前验证所有表单控件。验证未通过时，阻止提交表单
+   */
+  private static onFormSubmit(event: Event): void {
+    const form = event.currentTarget as HTMLFormElement;
+    const submitter = (event as SubmitEvent).submitter;
+
+    if (form.noValidate || submitter?.hasAttribute('formnovalidate')) {
+      return;
+    }
+
+    // 自定义验证未完成时，先阻止提交，等验证完成后重新提交表单
+    const pendingControllers = [...(formCollections.get(form) ?? [])]
+      .map((control) => formControllers.get(control))
+      .filter(
+        (formController): formController is FormController =>
+          !!formController?.needValidate,
+      );
+
+    if (pendingControllers.length) {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+
+      Promise.all(
+        pendingControllers.map((formController) => formController.validate()),
+      ).then(() => {
+        form.requestSubmit(submitter?.isConnected ? submitter : undefined);
+      });
+
+      return;
+    }
+
+    if (!FormController.reportFormValidity(form)) {
+      event.preventDefault();
+      event.stopImmediatePropagation();
+    }
+  }
+
+  /**
+   * 原生表单控件验证未通过时，浏览器会在提交前的验证阶段中止提交，不会触发 submit 事件，并显示该原生表单控件的错误提示。
+   * 因此在捕获阶段监听 invalid 事件，阻止浏览器显示错误提示，改为按 DOM 顺序验证所有表单控件。
+   * reportFormValidity() 会在每个验证未通过的表单控件上重新触发 invalid 事件，因此不再传播浏览器触发的 invalid 事件
+   */
+  private static onFormInvalid(event: Event): void {
+    const form = event.currentTarget as HTMLFormElement;
+
+    // mdui 表单控件上的 invalid 事件由组件的 checkValidity() 触发，不属于浏览器原生的提交前验证
+    if (
+      form.noValidate ||
+      reportingForms.has(form) ||
+      formControllers.has(event.target as FormControl)
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopImmediatePropagation();
+
+    if (invalidHandledForms.has(form)) {
+      return;
+    }
+
+    invalidHandledForms.add(form);
+    setTimeout(() => invalidHandledForms.delete(form));
+
+    FormController.reportFormValidity(form);
+  }
+
+  /**
+   * 按 DOM 顺序验证表单中的所有表单控件（包括原生和 mdui 表单控件），与原生验证一样，在每个验证未通过的表单控件上触发 `invalid` 事件，
+   * 然后把第一个验证未通过的表单控件滚动到可视区域，并聚焦到该表单控件上显示错误提示
+   * @param form
+   */
+  private static reportFormValidity(form: HTMLFormElement): boolean {
+    const errors = getFormErrors(form);
+
+    if (!errors.length) {
+      return true;
+    }
+
+    reportingForms.add(form);
+
+    // mdui 表单控件通过 reportValidity() 显示验证未通过的样式；原生表单控件仅在第一个上显示错误提示，其余的通过 checkValidity() 触发 invalid 事件
+    errors.forEach(({ element }, index) => {
+      const control = element as HTMLInputElement;
+
+      if (index === 0 || formControllers.has(element as FormControl)) {
+        if (isFunction(control.reportValidity)) {
+          control.reportValidity();
+        }
+      } else if (isFunction(control.checkValidity)) {
+        control.checkValidity();
+      }
+    });
+
+    reportingForms.delete(form);
+
+    const element = errors[0].element as HTMLInputElement;
+    element.scrollIntoView({ block: 'nearest' });
+
+    const activeElement = document.activeElement;
+    if (activeElement !== element && !element.contains(activeElement)) {
+      element.focus();
+    }
+
+    return false;
   }
 
   public hostConnected(): void {
@@ -94,6 +311,8 @@ export class FormController implements ReactiveController {
 
   public hostDisconnected(): void {
     this.detachForm();
+    this.cancelValidate();
+    this.updatePending();
   }
 
   public hostUpdated(): void {
@@ -118,6 +337,70 @@ export class FormController implements ReactiveController {
     return this.form ?? null;
   }
 
+  /**
+   * 在值变更后调用，等待 `validateDebounce` 毫秒后执行自定义验证
+   */
+  public requestValidate(): void {
+    const { validator, validateDebounce } = this.host as ValidatableFormControl;
+
+    if (!validator) {
+      return;
+    }
+
+    this.cancelValidate();
+    this.validateStale = true;
+    this.validateTimer = window.setTimeout(
+      () => this.validate(),
+      validateDebounce ?? 0,
+    );
+    this.updatePending();
+  }
+
+  /**
+   * 立即执行自定义验证，并设置错误提示。返回是否验证通过
+   *
+   * 错误提示与通过 `setCustomValidity()` 设置的错误提示相互独立，由 ValidatorMixin 合并
+   *
+   * 若验证过程中又执行了新的验证，则本次验证的结果会被丢弃
+   */
+  public async validate(): Promise<boolean> {
+    const { validator } = this.host as ValidatableFormControl;
+
+    this.cancelValidate();
+
+    if (!validator) {
+      this.updatePending();
+      return true;
+    }
+
+    const validateId = this.validateId;
+    this.isValidating = true;
+    this.updatePending();
+    emit(this.host as unknown as HTMLElement, 'validate');
+
+    let message: string;
+    try {
+      message = await validator(this.options.validationValue(this.host));
+    } catch (error) {
+      // Promise 被 reject 时，把 reject 的原因作为错误提示
+      message = error instanceof Error ? error.message : String(error);
+    }
+
+    if (validateId !== this.validateId) {
+      return !message;
+    }
+
+    this.isValidating = false;
+    this.validateStale = false;
+    this.setValidatorMessage(message);
+    this.updatePending();
+    emit(this.host as unknown as HTMLElement, 'validated', {
+      detail: { valid: !message, message },
+    });
+
+    return !message;
+  }
+
   /**
    * 重置整个表单，所有表单控件恢复成默认值
    */
@@ -147,12 +430,20 @@ export class FormController implements ReactiveController {
     }
 
     this.form.addEventListener('formdata', this.onFormData);
-    this.form.addEventListener('submit', this.onFormSubmit);
     this.form.addEventListener('reset', this.onFormReset);
 
     if (!reportValidityOverloads.has(this.form)) {
-      reportValidityOverloads.set(this.form, this.form.reportValidity);
-      this.form.reportValidity = () => this.reportFormValidity();
+      const form = this.form;
+
+      reportValidityOverloads.set(form, form.reportValidity);
+      form.reportValidity = () => FormController.reportFormValidity(form);
+
+      form.addEventListener('submit', FormController.onFormSubmit, {
+        capture: true,
+      });
+      form.addEventListener('invalid', FormController.onFormInvalid, {
+        capture: true,
+      });
     }
   }
 
@@ -161,7 +452,6 @@ export class FormController implements ReactiveController {
       formCollections.get(this.form)!.delete(this.host);
 
       this.form.removeEventListener('formdata', this.onFormData);
-      this.form.removeEventListener('submit', this.onFormSubmit);
       this.form.removeEventListener('reset', this.onFormReset);
 
       if (
@@ -170,6 +460,13 @@ export class FormController implements ReactiveController {
       ) {
         this.form.reportValidity = reportValidityOverloads.get(this.form)!;
         reportValidityOverloads.delete(this.form);
+
+        this.form.removeEventListener('submit', FormController.onFormSubmit, {
+          capture: true,
+        });
+        this.form.removeEventListener('invalid', FormController.onFormInvalid, {
+          capture: true,
+        });
       }
     }
   }
@@ -234,8 +531,12 @@ export class FormController implements ReactiveController {
       !isUndefined(value)
     ) {
       if (Array.isArray(value)) {
-        value.forEach((val) => {
-          event.formData.append(name, val.toString());
+        // 文件上传组件的值为 File 数组，需直接添加 File 对象
+        (value as (string | number | boolean | File)[]).forEach((val) => {
+          event.formData.append(
+            name,
+            val instanceof File ? val : val.toString(),
+          );
         });
       } else {
         event.formData.append(name, value.toString());
@@ -243,26 +544,16 @@ export class FormController implements ReactiveController {
     }
   }
 
-  // todo: 当前组件进行验证的顺序，取决于组件的注册顺序，而不会按在 DOM 中的顺序从上到下验证。如何按 DOM 顺序验证？
-  private onFormSubmit(event: Event): void {
-    const disabled = this.options.disabled(this.host);
-    const reportValidity = this.options.reportValidity;
-
-    if (
-      this.form &&
-      !this.form.noValidate &&
-      !disabled &&
-      !reportValidity(this.host)
-    ) {
-      event.preventDefault();
-      event.stopImmediatePropagation();
-    }
-  }
-
   private onFormReset(): void {
     if (this.form) {
       this.options.setValue(this.host, this.options.defaultValue(this.host));
 
+      // 清除自定义验证设置的错误提示
+      this.cancelValidate();
+      this.updatePending();
+      this.validateStale = true;
+      this.setValidatorMessage('');
+
       // 取消 invalid 状态。
       // 此外，还需要在各个组件内，监听值的变更，判断 formResets 中是否存在当前表单控件。若存在则 invalid 设为 false；不存在则设置为 checkValidity() 的值
       // @ts-ignore
@@ -276,17 +567,39 @@ export class FormController implements ReactiveController {
     }
   }
 
-  private reportFormValidity(): boolean {
-    if (this.form && !this.form.noValidate) {
-      const elements = getFormControls(this.form) as HTMLInputElement[];
+  /**
+   * 取消等待中及正在执行的自定义验证
+   */
+  private cancelValidate(): void {
+    window.clearTimeout(this.validateTimer);
+    this.validateTimer = undefined;
+    this.validateId++;
+    this.isValidating = false;
+  }
 
-      for (const element of elements) {
-        if (isFunction(element.reportValidity) && !element.reportValidity()) {
-          return false;
-        }
-      }
+  /**
+   * 把是否正在执行自定义验证的状态同步到组件上
+   */
+  private updatePending(): void {
+    const host = this.host as ValidatableFormControl;
+
+    if (!isUndefined(host.pending)) {
+      host.pending = this.validating;
     }
+  }
 
-    return true;
+  /**
+   * 设置自定义验证函数返回的错误提示
+   */
+  private setValidatorMessage(message: string): void {
+    const host = this.host as ValidatableFormControl;
+
+    if (
+      !isUndefined(host.validatorMessage) &&
+      host.validatorMessage !== message
+    ) {
+      host.validatorMessage = message;
+      host.updateCustomValidity!();
+    }
   }
 }
@@ -0,0 +1,54 @@
+import { onLocaleChange, resolveLocale, translate } from '../helpers/locale.js';
+import type { LocaleMessages } from '../helpers/locale.js';
+import type { ReactiveController, ReactiveControllerHost } from 'lit';
+
+/**
+ * 获取组件中内置文本的翻译，并在语言变更时重新渲染组件
+ */
+export class LocaleController implements ReactiveController {
+  private host: ReactiveControllerHost & Element;
+  private onChange?: () => void;
+  private removeListener?: () => void;
+
+  /**
+   * @param host
+   * @param onChange 语言变更时执行的回调函数。组件中在渲染以外使用了翻译文本时（如表单验证的错误提示），可通过该函数更新
+   */
+  public constructor(
+    host: ReactiveControllerHost & Element,
+    onChange?: () => void,
+  ) {
+    (this.host = host).addController(this);
+    this.onChange = onChange;
+  }
+
+  /**
+   * 组件使用的语言
+   */
+  public get locale(): string {
+    return resolveLocale(this.host);
+  }
+
+  public hostConnected(): void {
+    this.removeListener = onLocaleChange(() => {
+      this.onChange?.();
+      this.host.requestUpdate();
+    });
+  }
+
+  public hostDisconnected(): void {
+    this.removeListener?.();
+  }
+
+  /**
+   * 获取翻译后的文本
+   * @param key 文本的标识
+   * @param params 文本中占位符的值
+   */
+  public translate(
+    key: keyof LocaleMessages,
+    params?: Record<string, string | number>,
+  ): string {
+    return translate(key, params, this.locale);
+  }
+}
@@ -0,0 +1,61 @@
+import { getDocument, getWindow } from 'ssr-window';
+
+/**
+ * 文本方向变更时执行的回调函数
+ */
+const listeners: Set<() => void> = new Set();
+
+/**
+ * 用于监听页面中 `dir` 属性的变更，在添加第一个回调函数时才创建
+ */
+let observer: MutationObserver | undefined;
+
+/**
+ * 元素的文本方向是否为从右到左。会考虑从祖先元素（包括 shadow DOM 的宿主元素）继承的 `dir` 属性及 `direction` 样式
+ * @param element
+ */
+export const isRtl = (element: Element): boolean =>
+  getWindow().getComputedStyle(element).direction === 'rtl';
+
+/**
+ * 把 `start`、`end` 位置转换为 `left`、`right` 位置。从左到右布局时，`start` 为 `left`；从右到左布局时，`start` 为 `right`
+ * @param placement
+ * @param rtl 返回是否为从右到左布局的函数。仅在 `placement` 为 `start`、`end` 时才调用
+ */
+export const getPhysicalPlacement = (
+  placement: 'left' | 'right' | 'start' | 'end',
+  rtl: () => boolean,
+): 'left' | 'right' => {
+  if (placement === 'start') {
+    return rtl() ? 'right' : 'left';
+  }
+
+  if (placement === 'end') {
+    return rtl() ? 'left' : 'right';
+  }
+
+  return placement;
+};
+
+/**
+ * 在页面中元素的 `dir` 属性变更时执行回调函数。返回取消监听的函数
+ * @param listener
+ */
+export const onDirectionChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+
+  if (!observer) {
+    observer = new MutationObserver(() => {
+      listeners.forEach((listener) => listener());
+    });
+    observer.observe(getDocument().documentElement, {
+      attributes: true,
+      attributeFilter: ['dir'],
+      subtree: true,
+    });
+  }
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
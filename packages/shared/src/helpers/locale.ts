@@ -0,0 +1,165 @@
+import { getDocument } from 'ssr-window';
+import { de } from '../locales/de.js';
+import { en } from '../locales/en.js';
+import { ja } from '../locales/ja.js';
+import { zhCn } from '../locales/zh-cn.js';
+import type { LocaleMessages } from '../locales/zh-cn.js';
+
+export type { LocaleMessages };
+
+/**
+ * 已注册的语言包，键名为小写的语言代码
+ */
+const locales: Map<string, Partial<LocaleMessages>> = new Map([
+  ['zh-cn', zhCn],
+  ['en', en],
+  ['de', de],
+  ['ja', ja],
+]);
+
+/**
+ * 通过 setLocale() 设置的语言
+ */
+let currentLocale: string | undefined;
+
+/**
+ * 语言变更时执行的回调函数
+ */
+const listeners: Set<() => void> = new Set();
+
+/**
+ * 用于监听页面中 `lang` 属性的变更，在添加第一个回调函数时才创建
+ */
+let observer: MutationObserver | undefined;
+
+const notify = () => {
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * 语言代码统一转为小写，并使用 `-` 分隔
+ * @param locale
+ */
+const normalizeLocale = (locale: string): string =>
+  locale.trim().toLowerCase().replace(/_/g, '-');
+
+/**
+ * 查找与语言代码对应的已注册的语言。会先查找完全匹配的语言，再查找主语言相同的语言，如 `de-AT` 会使用 `de` 语言包，`zh` 会使用 `zh-cn` 语言包
+ * @param locale
+ */
+const matchLocale = (locale: string): string | undefined => {
+  const normalized = normalizeLocale(locale);
+
+  if (locales.has(normalized)) {
+    return normalized;
+  }
+
+  const [language] = normalized.split('-');
+
+  return [...locales.keys()].find((key) => key.split('-')[0] === language);
+};
+
+/**
+ * 注册语言包。若该语言已存在语言包，则会合并到已有的语言包中。缺少的翻译会使用当前语言的翻译，再使用简体中文的翻译
+ * @param locale 语言代码，如 `en`、`fr-CA`
+ * @param messages 语言包
+ */
+export const registerLocale = (
+  locale: string,
+  messages: Partial<LocaleMessages>,
+): void => {
+  const key = normalizeLocale(locale);
+
+  locales.set(key, { ...locales.get(key), ...messages });
+  notify();
+};
+
+/**
+ * 获取当前语言。未通过 setLocale() 设置时，为 `<html>` 元素的 `lang` 属性对应的语言，默认为 `zh-cn`
+ */
+export const getLocale = (): string => {
+  if (currentLocale) {
+    return currentLocale;
+  }
+
+  const lang = getDocument().documentElement?.lang;
+
+  return (lang && matchLocale(lang)) || 'zh-cn';
+};
+
+/**
+ * 设置当前语言，页面中的组件会立即使用新的语言重新渲染
+ * @param locale 语言代码，需先通过 registerLocale() 注册该语言的语言包，内置了 `zh-cn`、`en`、`de`、`ja` 语言包
+ */
+export const setLocale = (locale: string): void => {
+  currentLocale = matchLocale(locale) ?? normalizeLocale(locale);
+  notify();
+};
+
+/**
+ * 获取元素使用的语言。若元素或其祖先元素（包括 shadow DOM 的宿主元素，不包括 `<html>` 元素）指定了 `lang` 属性，
+ * 且该语言已注册了语言包，则使用该语言；否则使用当前语言
+ * @param element
+ */
+export const resolveLocale = (element: Element): string => {
+  const root = getDocument().documentElement;
+  let node: Element | undefined = element;
+
+  while (node) {
+    const closest = node.closest('[lang]');
+
+    if (closest && closest !== root) {
+      return matchLocale(closest.getAttribute('lang')!) ?? getLocale();
+    }
+
+    if (closest) {
+      break;
+    }
+
+    node = (node.getRootNode() as ShadowRoot).host;
+  }
+
+  return getLocale();
+};
+
+/**
+ * 获取翻译后的文本。文本中的 `{name}` 占位符会被替换为 `params` 中对应的值
+ * @param key 文本的标识
+ * @param params 占位符的值
+ * @param locale 使用的语言，默认为当前语言
+ */
+export const translate = (
+  key: keyof LocaleMessages,
+  params?: Record<string, string | number>,
+  locale: string = getLocale(),
+): string => {
+  const message =
+    locales.get(locale)?.[key] ?? locales.get(getLocale())?.[key] ?? zhCn[key];
+
+  return params
+    ? message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder,
+      )
+    : message;
+};
+
+/**
+ * 在语言变更时执行回调函数，包括调用 setLocale()、registerLocale()，及页面中元素的 `lang` 属性变更。返回取消监听的函数
+ * @param listener
+ */
+export const onLocaleChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+
+  if (!observer) {
+    observer = new MutationObserver(notify);
+    observer.observe(getDocument().documentElement, {
+      attributes: true,
+      attributeFilter: ['lang'],
+      subtree: true,
+    });
+  }
+
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,103 @@
+type MaskToken = { regex: RegExp } | { literal: string };
+
+/**
+ * 掩码中的占位符：
+ * * `0`：数字
+ * * `a`：字母
+ * * `*`：数字或字母
+ */
+const placeholders: Record<string, RegExp> = {
+  '0': /\d/,
+  a: /[a-z]/i,
+  '*': /[\da-z]/i,
+};
+
+/**
+ * 把掩码字符串解析成占位符和固定字符组成的数组。`\` 用于转义占位符，使其作为固定字符
+ * @param mask
+ */
+const parseMask = (mask: string): MaskToken[] => {
+  const tokens: MaskToken[] = [];
+
+  for (let i = 0; i < mask.length; i++) {
+    const char = mask[i];
+
+    if (char === '\\' && i < mask.length - 1) {
+      tokens.push({ literal: mask[++i] });
+    } else if (char in placeholders) {
+      tokens.push({ regex: placeholders[char] });
+    } else {
+      tokens.push({ literal: char });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * 按掩码格式化原始值。会忽略不匹配占位符的字符；固定字符仅在其后还有字符时才会添加
+ * @param value 原始值
+ * @param mask 掩码
+ */
+export const formatMask = (value: string, mask: string): string => {
+  const tokens = parseMask(mask);
+  let result = '';
+  let pending = '';
+  let index = 0;
+
+  for (const token of tokens) {
+    if ('literal' in token) {
+      pending += token.literal;
+      continue;
+    }
+
+    while (index < value.length && !token.regex.test(value[index])) {
+      index++;
+    }
+
+    if (index >= value.length) {
+      break;
+    }
+
+    result += pending + value[index++];
+    pending = '';
+  }
+
+  return result;
+};
+
+/**
+ * 从按掩码格式化后的值中，提取出原始值。可用于格式化后的值的一部分
+ * @param value 格式化后的值
+ * @param mask 掩码
+ */
+export const unformatMask = (value: string, mask: string): string => {
+  const tokens = parseMask(mask);
+  let result = '';
+  let position = 0;
+
+  for (const char of value) {
+    // 当前位置为固定字符，且与该字符相同时，该字符是格式化时添加的
+    const token = tokens[position];
+    if (token && 'literal' in token && token.literal === char) {
+      position++;
+      continue;
+    }
+
+    // 否则值中缺少当前位置的固定字符（如尚未格式化的输入），跳过这些固定字符，用其后的占位符匹配该字符
+    while (position < tokens.length && 'literal' in tokens[position]) {
+      position++;
+    }
+
+    if (position >= tokens.length) {
+      break;
+    }
+
+    if ((tokens[position] as { regex: RegExp }).regex.test(char)) {
+      result += char;
+      position++;
+    }
+  }
+
+  return result;
+};
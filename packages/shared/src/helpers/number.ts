@@ -0,0 +1,17 @@
+/**
+ * 把数值限制在指定的范围内
+ * @param value
+ * @param min 最小值
+ * @param max 最大值
+ */
+export const clamp = (value: number, min: number, max: number): number => {
+  return Math.max(min, Math.min(value, max));
+};
+
+/**
+ * 获取数值的小数位数
+ * @param value
+ */
+export const getDecimals = (value: number): number => {
+  return (String(value).split('.')[1] ?? '').length;
+};
@@ -0,0 +1,47 @@
+import type { LocaleMessages } from './zh-cn.js';
+
+/**
+ * 德语语言包
+ */
+export const de: LocaleMessages = {
+  confirm: 'OK',
+  cancel: 'Abbrechen',
+  close: 'Schließen',
+  clear: 'Leeren',
+  back: 'Zurück',
+  loading: 'Wird geladen',
+  noData: 'Keine Daten',
+  noResults: 'Keine Ergebnisse',
+  loadFailed: 'Laden fehlgeschlagen',
+  patternMismatch: 'Bitte halten Sie sich an das vorgegebene Format.',
+  rangeUnderflow: 'Der Wert muss größer oder gleich {min} sein.',
+  rangeOverflow: 'Der Wert muss kleiner oder gleich {max} sein.',
+  stepMismatch:
+    'Geben Sie einen gültigen Wert ein. Die zwei nächstgelegenen gültigen Werte sind {low} und {high}.',
+  showPassword: 'Passwort anzeigen',
+  hidePassword: 'Passwort ausblenden',
+  increment: 'Erhöhen',
+  decrement: 'Verringern',
+  selectDate: 'Datum auswählen',
+  previousMonth: 'Vorheriger Monat',
+  nextMonth: 'Nächster Monat',
+  selectTime: 'Uhrzeit auswählen',
+  enterTime: 'Uhrzeit eingeben',
+  hour: 'Stunde',
+  minute: 'Minute',
+  switchToInput: 'Zur Texteingabe wechseln',
+  switchToDial: 'Zur Uhr wechseln',
+  rowsPerPage: 'Zeilen pro Seite',
+  firstPage: 'Erste Seite',
+  previousPage: 'Vorherige Seite',
+  nextPage: 'Nächste Seite',
+  lastPage: 'Letzte Seite',
+  carousel: 'Karussell',
+  slide: 'Folie',
+  selectFile: 'Datei auswählen',
+  dropFiles: 'Dateien hier ablegen oder klicken, um Dateien auszuwählen',
+  removeFile: '{name} entfernen',
+  fileTypeNotAllowed: 'Dateityp wird nicht unterstützt',
+  fileTooLarge: 'Die Datei darf höchstens {size} groß sein',
+  tooManyFiles: 'Es können höchstens {count} Dateien ausgewählt werden',
+};
@@ -0,0 +1,47 @@
+import type { LocaleMessages } from './zh-cn.js';
+
+/**
+ * 英语语言包
+ */
+export const en: LocaleMessages = {
+  confirm: 'OK',
+  cancel: 'Cancel',
+  close: 'Close',
+  clear: 'Clear',
+  back: 'Back',
+  loading: 'Loading',
+  noData: 'No data',
+  noResults: 'No results',
+  loadFailed: 'Failed to load',
+  patternMismatch: 'Please match the requested format.',
+  rangeUnderflow: 'Value must be greater than or equal to {min}.',
+  rangeOverflow: 'Value must be less than or equal to {max}.',
+  stepMismatch:
+    'Please enter a valid value. The two nearest valid values are {low} and {high}.',
+  showPassword: 'Show password',
+  hidePassword: 'Hide password',
+  increment: 'Increase',
+  decrement: 'Decrease',
+  selectDate: 'Select date',
+  previousMonth: 'Previous month',
+  nextMonth: 'Next month',
+  selectTime: 'Select time',
+  enterTime: 'Enter time',
+  hour: 'Hour',
+  minute: 'Minute',
+  switchToInput: 'Switch to text input',
+  switchToDial: 'Switch to clock',
+  rowsPerPage: 'Rows per page',
+  firstPage: 'First page',
+  previousPage: 'Previous page',
+  nextPage: 'Next page',
+  lastPage: 'Last page',
+  carousel: 'carousel',
+  slide: 'slide',
+  selectFile: 'Choose file',
+  dropFiles: 'Drop files here, or click to choose files',
+  removeFile: 'Remove {name}',
+  fileTypeNotAllowed: 'File type not supported',
+  fileTooLarge: 'File size must not exceed {size}',
+  tooManyFiles: 'You can choose up to {count} files',
+};
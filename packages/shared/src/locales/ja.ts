@@ -0,0 +1,47 @@
+import type { LocaleMessages } from './zh-cn.js';
+
+/**
+ * 日语语言包
+ */
+export const ja: LocaleMessages = {
+  confirm: 'OK',
+  cancel: 'キャンセル',
+  close: '閉じる',
+  clear: 'クリア',
+  back: '戻る',
+  loading: '読み込み中',
+  noData: 'データがありません',
+  noResults: '一致する項目がありません',
+  loadFailed: '読み込みに失敗しました',
+  patternMismatch: '指定されている形式で入力してください。',
+  rangeUnderflow: '{min} 以上の値を指定してください。',
+  rangeOverflow: '{max} 以下の値を指定してください。',
+  stepMismatch:
+    '有効な値を入力してください。有効な値として最も近いのは {low} と {high} です。',
+  showPassword: 'パスワードを表示',
+  hidePassword: 'パスワードを非表示',
+  increment: '増やす',
+  decrement: '減らす',
+  selectDate: '日付を選択',
+  previousMonth: '前の月',
+  nextMonth: '次の月',
+  selectTime: '時刻を選択',
+  enterTime: '時刻を入力',
+  hour: '時',
+  minute: '分',
+  switchToInput: 'テキスト入力に切り替え',
+  switchToDial: '時計表示に切り替え',
+  rowsPerPage: '1 ページあたりの行数',
+  firstPage: '最初のページ',
+  previousPage: '前のページ',
+  nextPage: '次のページ',
+  lastPage: '最後のページ',
+  carousel: 'カルーセル',
+  slide: 'スライド',
+  selectFile: 'ファイルを選択',
+  dropFiles: 'ここにファイルをドロップするか、クリックしてファイルを選択',
+  removeFile: '{name} を削除',
+  fileTypeNotAllowed: 'このファイル形式には対応していません',
+  fileTooLarge: 'ファイルサイズは {size} 以下にしてください',
+  tooManyFiles: '選択できるファイルは {count} 個までです',
+};
@@ -0,0 +1,51 @@
+/**
+ * 简体中文语言包。也是其他语言包缺少翻译时使用的语言包
+ *
+ * 文本中的 `{name}` 为占位符，会被替换为对应的参数
+ */
+export const zhCn = {
+  confirm: '确定',
+  cancel: '取消',
+  close: '关闭',
+  clear: '清空',
+  back: '返回',
+  loading: '加载中',
+  noData: '暂无数据',
+  noResults: '无匹配项',
+  loadFailed: '加载失败',
+  patternMismatch: '请与请求的格式匹配。',
+  rangeUnderflow: '值必须大于或等于 {min}。',
+  rangeOverflow: '值必须小于或等于 {max}。',
+  stepMismatch: '请输入有效值。两个最接近的有效值分别为 {low} 和 {high}。',
+  showPassword: '显示密码',
+  hidePassword: '隐藏密码',
+  increment: '增加',
+  decrement: '减少',
+  selectDate: '选择日期',
+  previousMonth: '上个月',
+  nextMonth: '下个月',
+  selectTime: '选择时间',
+  enterTime: '输入时间',
+  hour: '小时',
+  minute: '分钟',
+  switchToInput: '切换到文本输入',
+  switchToDial: '切换到表盘',
+  rowsPerPage: '每页条数',
+  firstPage: '第一页',
+  previousPage: '上一页',
+  nextPage: '下一页',
+  lastPage: '最后一页',
+  carousel: '轮播',
+  slide: '幻灯片',
+  selectFile: '选择文件',
+  dropFiles: '将文件拖放到此处，或点击选择文件',
+  removeFile: '移除 {name}',
+  fileTypeNotAllowed: '不支持该文件类型',
+  fileTooLarge: '文件大小不能超过 {size}',
+  tooManyFiles: '最多只能选择 {count} 个文件',
+};
+
+/**
+ * 语言包，键名为文本的标识，键值为翻译后的文本
+ */
+export type LocaleMessages = Record<keyof typeof zhCn, string>;
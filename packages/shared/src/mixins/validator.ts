@@ -0,0 +1,113 @@
+import { property } from 'lit/decorators.js';
+import { booleanConverter } from '../helpers/decorator.js';
+import type { FormValidator } from '../controllers/form.js';
+import type { Constructor } from '@open-wc/dedupe-mixin';
+import type { LitElement } from 'lit';
+
+export declare abstract class ValidatorMixinInterface extends LitElement {
+  public validator?: FormValidator<unknown>;
+  public validateDebounce: number;
+  public get validating(): boolean;
+  public setCustomValidity(message: string): void;
+  protected updateCustomValidity(): void;
+  protected getCustomValidityMessage(): string;
+  protected getInternalValidityMessage(): string;
+  protected abstract applyCustomValidity(message: string): void;
+}
+
+/**
+ * 表单控件的自定义验证。验证逻辑由 FormController 执行，该 mixin 提供相关的属性，并合并各个来源的错误提示
+ *
+ * 父类需要实现
+ * protected applyCustomValidity(message: string): void; 把错误提示设置到组件内部的原生表单元素上，并更新 invalid 状态
+ *
+ * 父类可以实现
+ * protected getInternalValidityMessage(): string; 组件内部验证（如 textarea 的 pattern 验证）的错误提示
+ */
+export const ValidatorMixin = <T extends Constructor<LitElement>>(
+  superclass: T,
+): Constructor<ValidatorMixinInterface> & T => {
+  abstract class ValidatorMixinClass extends superclass {
+    /**
+     * 自定义验证函数，参数为组件的值。返回错误提示文本表示验证未通过，返回空字符串表示验证通过；也可以返回 Promise 进行异步验证
+     *
+     * 该属性只能通过 JavaScript 属性设置
+     */
+    @property({ attribute: false })
+    public validator?: FormValidator<unknown>;
+
+    /**
+     * 值变更后，延迟执行自定义验证的毫秒数。值会频繁变更（如在文本框中输入）且验证开销较大时，可通过该属性减少验证次数
+     */
+    @property({ type: Number, reflect: true, attribute: 'validate-debounce' })
+    public validateDebounce = 0;
+
+    /**
+     * 是否正在执行自定义验证，包括值变更后等待 `validate-debounce` 的时间。由 FormController 设置
+     * 添加到 :host 元素上，供 CSS 选择器添加样式
+     */
+    @property({
+      type: Boolean,
+      reflect: true,
+      converter: booleanConverter,
+      attribute: 'validating',
+    })
+    private pending = false;
+
+    /**
+     * 通过 `setCustomValidity()` 设置的错误提示
+     */
+    private customValidityMessage = '';
+
+    /**
+     * 自定义验证函数返回的错误提示。由 FormController 设置
+     */
+    private validatorMessage = '';
+
+    /**
+     * 是否正在执行自定义验证，包括值变更后等待 `validate-debounce` 的时间
+     */
+    public get validating(): boolean {
+      return this.pending;
+    }
+
+    /**
+     * 设置自定义的错误提示文本。只要文本不为空，则表示字段验证未通过
+     *
+     * 通过该方法设置的错误提示，优先于组件内部的验证及 `validator` 的验证结果，且不会被它们覆盖
+     *
+     * @param message 自定义的提示文本
+     */
+    public setCustomValidity(message: string): void {
+      this.customValidityMessage = message;
+      this.updateCustomValidity();
+    }
+
+    /**
+     * 把合并后的错误提示设置到组件内部的原生表单元素上
+     */
+    protected updateCustomValidity(): void {
+      this.applyCustomValidity(this.getCustomValidityMessage());
+    }
+
+    /**
+     * 按优先级合并各个来源的错误提示：`setCustomValidity()` 设置的提示、组件内部验证的提示、`validator` 返回的提示
+     */
+    protected getCustomValidityMessage(): string {
+      return (
+        this.customValidityMessage ||
+        this.getInternalValidityMessage() ||
+        this.validatorMessage
+      );
+    }
+
+    protected getInternalValidityMessage(): string {
+      return '';
+    }
+
+    protected abstract applyCustomValidity(message: string): void;
+  }
+
+  return ValidatorMixinClass as unknown as Constructor<ValidatorMixinInterface> &
+    T;
+};
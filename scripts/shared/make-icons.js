@@ -21,6 +21,24 @@ const toSharedIcons = [
   'cancel--outlined',
   'visibility-off',
   'visibility',
+  'arrow-drop-down',
+  'calendar-today--outlined',
+  'chevron-left',
+  'chevron-right',
+  'keyboard--outlined',
+  'schedule--outlined',
+  'arrow-upward',
+  'first-page',
+  'last-page',
+  'arrow-back',
+  'arrow-forward',
+  'arrow-left',
+  'search',
+  'add',
+  'remove',
+  'upload',
+  'cloud-upload--outlined',
+  'insert-drive-file--outlined',
 ];
 
 // 字符串转驼峰，且首字母大写
@@ -42,7 +42,9 @@ const docComponents = {
   fab: ['mdui-fab'],
   'segmented-button': ['mdui-segmented-button-group', 'mdui-segmented-button'],
   chip: ['mdui-chip'],
+  'chip-input': ['mdui-chip-input'],
   card: ['mdui-card'],
+  carousel: ['mdui-carousel', 'mdui-carousel-item'],
   checkbox: ['mdui-checkbox'],
   radio: ['mdui-radio-group', 'mdui-radio'],
   switch: ['mdui-switch'],
@@ -54,10 +56,18 @@ const docComponents = {
   dropdown: ['mdui-dropdown'],
   menu: ['mdui-menu', 'mdui-menu-item'],
   select: ['mdui-select'],
+  autocomplete: ['mdui-autocomplete'],
+  'search-bar': ['mdui-search-bar', 'mdui-search-view'],
+  'data-table': ['mdui-data-table'],
+  pagination: ['mdui-pagination'],
+  'date-picker': ['mdui-date-picker'],
+  'time-picker': ['mdui-time-picker'],
   'text-field': ['mdui-text-field'],
+  'file-upload': ['mdui-file-upload'],
   'linear-progress': ['mdui-linear-progress'],
   'circular-progress': ['mdui-circular-progress'],
   dialog: ['mdui-dialog'],
+  'bottom-sheet': ['mdui-bottom-sheet'],
   divider: ['mdui-divider'],
   avatar: ['mdui-avatar'],
   badge: ['mdui-badge'],
@@ -66,6 +76,7 @@ const docComponents = {
   snackbar: ['mdui-snackbar'],
   'navigation-bar': ['mdui-navigation-bar', 'mdui-navigation-bar-item'],
   'navigation-drawer': ['mdui-navigation-drawer'],
+  'side-sheet': ['mdui-side-sheet'],
   'navigation-rail': ['mdui-navigation-rail', 'mdui-navigation-rail-item'],
   'bottom-app-bar': ['mdui-bottom-app-bar'],
   'top-app-bar': ['mdui-top-app-bar', 'mdui-top-app-bar-title'],